@@ -13,6 +13,7 @@ import {textInput} from 'app/client/ui/inputs';
 import {resizeFlexVHandle} from 'app/client/ui/resizeHandle';
 import {IRowContextMenu} from 'app/client/ui/RowContextMenu';
 import {basicButton, bigBasicButton, bigPrimaryButton, primaryButton} from 'app/client/ui2018/buttons';
+import {labeledSquareCheckbox} from 'app/client/ui2018/checkbox';
 import {isNarrowScreenObs, mediaNotSmall, mediaSmall, theme} from 'app/client/ui2018/cssVars';
 import {loadingSpinner} from 'app/client/ui2018/loaders';
 import {buildMenuItems, select, selectMenu, selectOption, selectTitle} from 'app/client/ui2018/menus';
@@ -20,6 +21,7 @@ import {menuDivider, menuIcon, menuItem, menuItemLink, menuItemSubmenu} from 'ap
 import {cssModalTitle, cssModalWidth, modal, spinnerModal} from 'app/client/ui2018/modals';
 import {buildTabs, cssTab} from 'app/client/ui2018/tabs';
 import {AdminControlsAPI, AdminControlsAPIImpl, IUserRecord} from 'app/common/AdminControlsAPI';
+import {ASSISTANT_SENSITIVE_TAG} from 'app/common/AssistantAPI';
 import {AdminSection} from 'app/client/ui/AdminPanelCss';
 import {AdminPanelPage, AdminPanelTab, IGristUrlState} from 'app/common/gristUrls';
 import {not} from 'app/common/gutil';
@@ -305,6 +307,21 @@ function orgsPage(owner: MultiHolder, appModel: AppModel, api: AdminControlsAPI)
     return {org};
   }
 
+  function editAssistantPolicy(orgid?: number) {
+    const name = orgid ? doc.docData.getTable('orgs')!.getValue(orgid, 'name') : undefined;
+    showAssistantPolicyDialog(api, {
+      orgid,
+      title: name ? t("Assistant policy for {{name}}", {name}) : t("Assistant policy for all orgs"),
+    });
+  }
+
+  const resourceActions = addResourceActions(details, () => [
+    openResourceAction(getResourceUrlState(selectedRow.get()), t("Open organization")),
+    openManageUsersAction(() => manageUsers(appModel, api, 'organization', selectedRow.get())),
+    menuItem(() => editAssistantPolicy(selectedRow.get()), menuIcon("Settings"), t("Assistant policy"),
+      testId('assistant-policy-action')),
+  ]);
+
   return buildPage(owner, {
     doc,
     selectedRow,
@@ -313,10 +330,15 @@ function orgsPage(owner: MultiHolder, appModel: AppModel, api: AdminControlsAPI)
     listKey,
     detailsKey,
     tabs,
-    ...addResourceActions(details, () => [
-      openResourceAction(getResourceUrlState(selectedRow.get()), t("Open organization")),
-      openManageUsersAction(() => manageUsers(appModel, api, 'organization', selectedRow.get())),
-    ]),
+    ...resourceActions,
+    buttons: [
+      cssBasicButton(
+        t("Assistant policy"),
+        dom.on('click', () => editAssistantPolicy()),
+        testId('install-assistant-policy'),
+      ),
+      resourceActions.buttons,
+    ],
   });
 }
 
@@ -952,6 +974,127 @@ Please select another user to transfer them to.`,
   }
 }
 
+/**
+ * Shows dialog for editing the assistant policy of an org, or of the whole installation if orgid
+ * isn't set.
+ */
+function showAssistantPolicyDialog(api: AdminControlsAPI, options: {orgid?: number, title: string}) {
+  const {orgid, title} = options;
+  modal((ctl, owner) => {
+    const loaded = Observable.create(owner, false);
+    const pending = Observable.create(owner, false);
+    const readOnly = Observable.create(owner, false);
+    const allowedTools = Observable.create(owner, '');
+    const instructions = Observable.create(owner, '');
+    const redactEmails = Observable.create(owner, false);
+    const redactPhoneNumbers = Observable.create(owner, false);
+    const redactSensitiveColumns = Observable.create(owner, false);
+    const redactPatterns = Observable.create(owner, '');
+
+    api.adminGetAssistantPolicy({orgid}).then(policy => {
+      if (owner.isDisposed()) { return; }
+      readOnly.set(Boolean(policy.readOnly));
+      allowedTools.set((policy.allowedTools ?? []).join('\n'));
+      instructions.set(policy.instructions ?? '');
+      redactEmails.set(Boolean(policy.redactEmails));
+      redactPhoneNumbers.set(Boolean(policy.redactPhoneNumbers));
+      redactSensitiveColumns.set(Boolean(policy.redactSensitiveColumns));
+      redactPatterns.set((policy.redactPatterns ?? []).join('\n'));
+      loaded.set(true);
+    }).catch((e) => {
+      ctl.close();
+      reportError(e);
+    });
+
+    async function save() {
+      const tools = allowedTools.get().split(/[\s,]+/).filter(Boolean);
+      // Patterns may contain spaces and commas, so only newlines separate them.
+      const patterns = redactPatterns.get().split('\n').map(p => p.trim()).filter(Boolean);
+      pending.set(true);
+      try {
+        await api.adminSetAssistantPolicy({orgid}, {
+          readOnly: readOnly.get(),
+          ...(tools.length > 0 ? {allowedTools: tools} : {}),
+          instructions: instructions.get().trim(),
+          redactEmails: redactEmails.get(),
+          redactPhoneNumbers: redactPhoneNumbers.get(),
+          redactSensitiveColumns: redactSensitiveColumns.get(),
+          ...(patterns.length > 0 ? {redactPatterns: patterns} : {}),
+        });
+        ctl.close();
+      } finally {
+        if (!owner.isDisposed()) { pending.set(false); }
+      }
+    }
+
+    return [
+      testId('assistant-policy-dialog'),
+      cssModalWidth('fixed-wide'),
+      cssModalTitle(title),
+      spinner(
+        loadingSpinner(),
+        dom.hide(loaded),
+      ),
+      dom.maybe(loaded, () => [
+        cssText(orgid ?
+          t("Applies to documents in this org, in addition to the policy for all orgs.") :
+          t("Applies to documents in all orgs. Orgs may have stricter policies of their own.")
+        ),
+        labeledSquareCheckbox(readOnly,
+          t("Read-only: the assistant may answer questions, but not change documents"),
+          testId('assistant-policy-read-only'),
+        ),
+        cssLabel(t("Allowed tools, one per line. Leave empty to allow all tools.")),
+        cssTextArea(
+          dom.prop('value', allowedTools),
+          dom.on('input', (e, elem) => allowedTools.set(elem.value)),
+          {rows: '4', placeholder: 'get_tables\nquery_document'},
+          testId('assistant-policy-allowed-tools'),
+        ),
+        cssLabel(t("Custom instructions, added to the assistant's prompt.")),
+        cssTextArea(
+          dom.prop('value', instructions),
+          dom.on('input', (e, elem) => instructions.set(elem.value)),
+          {rows: '6'},
+          testId('assistant-policy-instructions'),
+        ),
+        cssLabel(t(`Values to hide from the AI provider. Masked values are restored in the \
+assistant's replies and changes.`)),
+        labeledSquareCheckbox(redactEmails,
+          t("Email addresses"),
+          testId('assistant-policy-redact-emails'),
+        ),
+        labeledSquareCheckbox(redactPhoneNumbers,
+          t("Phone numbers"),
+          testId('assistant-policy-redact-phone-numbers'),
+        ),
+        labeledSquareCheckbox(redactSensitiveColumns,
+          t("Values in columns whose description includes {{tag}}", {tag: ASSISTANT_SENSITIVE_TAG}),
+          testId('assistant-policy-redact-sensitive-columns'),
+        ),
+        cssLabel(t("Other patterns to mask, as regular expressions, one per line.")),
+        cssTextArea(
+          dom.prop('value', redactPatterns),
+          dom.on('input', (e, elem) => redactPatterns.set(elem.value)),
+          {rows: '3', placeholder: '\\bACCT-\\d{6}\\b'},
+          testId('assistant-policy-redact-patterns'),
+        ),
+        cssButtonsLine(
+          bigPrimaryButton(t('Save'),
+            dom.prop('disabled', pending),
+            dom.on('click', save),
+            testId('save'),
+          ),
+          bigBasicButton(t('Cancel'),
+            dom.on('click', () => ctl.close()),
+            testId('cancel'),
+          ),
+        ),
+      ]),
+    ];
+  });
+}
+
 function hideDetailsButton(hasDetails: Observable<boolean>, onClick?: (on: boolean) => void) {
   return cssBasicButton(
     t("Hide details"),
@@ -1138,6 +1281,22 @@ const cssText = styled('p', `
   }
 `);
 
+const cssLabel = styled('div', `
+  margin-top: 16px;
+  margin-bottom: 8px;
+`);
+
+const cssTextArea = styled('textarea', `
+  width: 100%;
+  padding: 8px;
+  border: 1px solid ${theme.inputBorder};
+  border-radius: 3px;
+  color: ${theme.inputFg};
+  background-color: ${theme.inputBg};
+  font-family: inherit;
+  resize: vertical;
+`);
+
 const cssButtonsLine = styled('div', `
   display: flex;
   gap: 8px;
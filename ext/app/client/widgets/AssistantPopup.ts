@@ -10,27 +10,55 @@ import { inlineMarkdown } from "app/client/lib/markdown";
 import { logTelemetryEvent } from "app/client/lib/telemetry";
 import { FloatingPopup, PopupPosition } from "app/client/ui/FloatingPopup";
 import { IAssistantPopup } from "app/client/ui/IAssistantPopup";
+import { textInput } from "app/client/ui/inputs";
 import {
   cssLinkText,
   cssPageEntry,
   cssPageIcon,
   cssPageLink,
 } from "app/client/ui/LeftPanelCommon";
+import { basicButton, primaryButton } from "app/client/ui2018/buttons";
 import { theme, vars } from "app/client/ui2018/cssVars";
 import { icon } from "app/client/ui2018/icons";
 import { cssLink } from "app/client/ui2018/links";
-import { menu, menuItem } from "app/client/ui2018/menus";
+import { menu, menuDivider, menuItem } from "app/client/ui2018/menus";
+import { confirmModal, saveModal } from "app/client/ui2018/modals";
 import { Assistant, cssAiImage, cssAvatar } from "app/client/widgets/Assistant";
 import {
   cssAiIntroMessage,
   cssAiMessageParagraph,
 } from "app/client/widgets/FormulaAssistant";
-import { AssistantState } from "app/common/ActiveDocAPI";
-import { AssistanceState, DeveloperPromptVersion } from "app/common/Assistance";
+import { ApplyUAResult, AssistantState } from "app/common/ActiveDocAPI";
+import { ApiError } from "app/common/ApiError";
+import {
+  AssistanceRequestV2,
+  AssistanceResponseV2,
+  AssistanceState,
+  DeveloperPromptVersion,
+} from "app/common/Assistance";
+import {
+  AssistanceActionDiff,
+  AssistanceActionRef,
+  AssistanceProposedChange,
+  AssistanceResponseWithPreview,
+  AssistanceStreamEvent,
+  AssistantAPIImpl,
+  AssistantConversation,
+} from "app/common/AssistantAPI";
 import { commonUrls } from "app/common/gristUrls";
 import { TelemetryEvent, TelemetryMetadata } from "app/common/Telemetry";
 import { getGristConfig } from "app/common/urlUtils";
-import { Disposable, dom, DomContents, DomElementArg, makeTestId, styled } from "grainjs";
+import {
+  Computed,
+  Disposable,
+  dom,
+  DomContents,
+  DomElementArg,
+  makeTestId,
+  Observable,
+  styled,
+} from "grainjs";
+import debounce from "lodash/debounce";
 import { v4 as uuidv4 } from "uuid";
 
 const t = makeT("Assistant");
@@ -46,6 +74,25 @@ export function buildAssistantPopup(gristDoc: GristDoc): IAssistantPopup | null
   return AssistantPopup.create(gristDoc, gristDoc);
 }
 
+interface StreamProgress {
+  /** Reply text received so far for the current completion. */
+  text: string;
+  /** Name of the tool currently being called, if any. */
+  toolName: string | null;
+  /** Number of action bundles applied so far. */
+  appliedCount: number;
+}
+
+/**
+ * A response that changed the document, and can still be undone.
+ */
+interface UndoableResponse {
+  conversationId: string;
+  /** The start of the reply, to help users tell responses apart. */
+  summary: string;
+  actions: AssistanceActionRef[];
+}
+
 class AssistantPopup extends Disposable {
   private _appModel = this._gristDoc.appModel;
   private _userId = this._appModel.currentUser?.id ?? 0;
@@ -60,6 +107,12 @@ class AssistantPopup extends Disposable {
       }
     )
   );
+  private _undoableResponses = this.autoDispose(
+    localStorageJsonObs<UndoableResponse[]>(
+      `u:${this._userId};d:${this._docId};assistantUndoableResponses`,
+      []
+    )
+  );
   private _width = this.autoDispose(
     sessionStorageJsonObs(
       `u:${this._userId};d:${this._docId};assistantWidth`,
@@ -105,9 +158,46 @@ class AssistantPopup extends Disposable {
     testId,
   });
   private _openedOnce = false;
+  private _api = new AssistantAPIImpl(
+    this._gristDoc.docApi.getBaseUrl(),
+    this._gristDoc.docApi.options
+  );
+  private _progress = Observable.create<StreamProgress | null>(this, null);
+  // Changes proposed by the last response, if the assistant is in preview mode.
+  private _proposedChanges = Observable.create<AssistanceProposedChange[] | null>(
+    this,
+    null
+  );
+  private _applyingChanges = Observable.create(this, false);
+  private _undoing = Observable.create(this, false);
+  // Conversations are saved on the server, except for anonymous users.
+  private _canSaveConversations = Boolean(this._appModel.currentValidUser);
+  private _conversations = Observable.create<AssistantConversation[]>(this, []);
+  // The saved conversation shown in the popup, if any. When continuing
+  // another user's conversation, this is the original until the copy is saved.
+  private _conversation = Observable.create<AssistantConversation | null>(
+    this,
+    null
+  );
+  // The history of the last conversation opened, which needn't be saved again.
+  private _openedHistory: ChatHistory | null = null;
+  private _saveConversationSoon = debounce(
+    () => this._saveConversation().catch(reportError),
+    1000
+  );
 
   constructor(private _gristDoc: GristDoc) {
     super();
+    if (this._canSaveConversations) {
+      this.autoDispose(
+        this._history.addListener((history) => {
+          if (history !== this._openedHistory) {
+            this._saveConversationSoon();
+          }
+        })
+      );
+      this.onDispose(() => this._saveConversationSoon.flush());
+    }
   }
 
   public open() {
@@ -117,6 +207,9 @@ class AssistantPopup extends Disposable {
       this._openedOnce = true;
     }
     this._assistant.focus();
+    if (this._canSaveConversations) {
+      this._refreshConversations().catch(reportError);
+    }
     this._logTelemetryEvent("assistantOpen");
   }
 
@@ -132,19 +225,23 @@ class AssistantPopup extends Disposable {
   private _buildPopupContent(): DomContents {
     return cssPopupContent(
       this._buildToolbar(),
+      this._buildProgress(),
+      this._buildProposedChanges(),
+      this._buildUndoableResponses(),
       this._buildAssistant(),
     );
   }
 
   private _buildToolbar() {
     return cssToolbar(
+      this._canSaveConversations ? this._buildConversationPicker() : null,
       cssToolbarButtons(
         cssToolbarButton(
           icon("Dots"),
           menu(
             () => [
               menuItem(
-                () => this._assistant.clear(),
+                () => this._clearConversation(),
                 t("Clear Conversation"),
                 testId("options-clear-conversation")
               ),
@@ -157,18 +254,420 @@ class AssistantPopup extends Disposable {
     );
   }
 
+  private _buildConversationPicker() {
+    return cssConversationPicker(
+      cssConversationTitle(
+        dom.text(
+          (use) => use(this._conversation)?.title || t("New conversation")
+        )
+      ),
+      icon("Dropdown"),
+      menu(() => this._buildConversationMenu(), {
+        menuWrapCssClass: cssChatOptionsMenu.className,
+      }),
+      testId("conversations")
+    );
+  }
+
+  private _buildConversationMenu() {
+    const current = this._conversation.get();
+    const conversations = this._conversations.get();
+    return [
+      menuItem(
+        () => this._clearConversation(),
+        t("New conversation"),
+        testId("conversations-new")
+      ),
+      current
+        ? [
+            menuItem(
+              () => this._renameConversation(current),
+              t("Rename conversation"),
+              testId("conversations-rename")
+            ),
+            menuItem(
+              () => this._deleteConversation(current),
+              t("Delete conversation"),
+              testId("conversations-delete")
+            ),
+          ]
+        : null,
+      conversations.length > 0 ? menuDivider() : null,
+      conversations.map((conversation) =>
+        menuItem(
+          () => this._openConversation(conversation).catch(reportError),
+          cssConversationItemTitle(
+            conversation.title || t("Untitled conversation")
+          ),
+          conversation.userId !== this._userId
+            ? cssConversationItemAuthor(t("Another user"))
+            : null,
+          testId("conversation")
+        )
+      ),
+    ];
+  }
+
+  private async _refreshConversations() {
+    const conversations = await this._api.listConversations();
+    if (this.isDisposed()) {
+      return;
+    }
+
+    this._conversations.set(conversations);
+    if (!this._conversation.get()) {
+      const id = this._assistant.conversationId;
+      this._conversation.set(conversations.find((c) => c.id === id) ?? null);
+    }
+  }
+
+  private async _saveConversation() {
+    const history = this._history.get();
+    if (history.messages.length === 0) {
+      return;
+    }
+
+    const id = this._assistant.conversationId;
+    const isSaved = this._conversations.get().some((c) => c.id === id);
+    const conversation = await this._api.saveConversation(id, {
+      title: isSaved ? undefined : getConversationTitle(history),
+      history,
+    });
+    if (this.isDisposed()) {
+      return;
+    }
+
+    this._conversation.set(conversation);
+    this._conversations.set([
+      conversation,
+      ...this._conversations.get().filter((c) => c.id !== id),
+    ]);
+  }
+
+  /**
+   * Shows a saved conversation in the popup. Conversations started by other
+   * users (visible to document owners) are continued as a copy, so that
+   * their authors' histories are left as they were.
+   */
+  private async _openConversation(conversation: AssistantConversation) {
+    const { history } = await this._api.getConversation(conversation.id);
+    if (this.isDisposed()) {
+      return;
+    }
+
+    let chatHistory = history as ChatHistory;
+    if (conversation.userId !== this._userId) {
+      chatHistory = { ...chatHistory, conversationId: uuidv4() };
+    }
+    this._saveConversationSoon.flush();
+    this._openedHistory = chatHistory;
+    this._history.set(chatHistory);
+    this._conversation.set(conversation);
+    this._proposedChanges.set(null);
+    this._assistant.scrollToBottom({ smooth: false, sync: true });
+  }
+
+  private _clearConversation() {
+    this._saveConversationSoon.flush();
+    this._proposedChanges.set(null);
+    this._undoableResponses.set([]);
+    this._conversation.set(null);
+    this._assistant.clear();
+  }
+
+  private _renameConversation(conversation: AssistantConversation) {
+    saveModal((_ctl, owner) => {
+      const title = Observable.create(owner, conversation.title);
+      return {
+        title: t("Rename conversation"),
+        body: textInput(title, testId("conversation-title-input")),
+        saveDisabled: Computed.create(owner, (use) => !use(title).trim()),
+        saveFunc: async () => {
+          const newTitle = title.get().trim();
+          await this._api.renameConversation(conversation.id, newTitle);
+          if (!this.isDisposed()) {
+            this._updateConversation({ ...conversation, title: newTitle });
+          }
+        },
+      };
+    });
+  }
+
+  private _deleteConversation(conversation: AssistantConversation) {
+    confirmModal(
+      t("Delete conversation?"),
+      t("Delete"),
+      async () => {
+        await this._api.deleteConversation(conversation.id);
+        if (this.isDisposed()) {
+          return;
+        }
+
+        this._conversations.set(
+          this._conversations.get().filter((c) => c.id !== conversation.id)
+        );
+        if (this._conversation.get()?.id === conversation.id) {
+          this._saveConversationSoon.cancel();
+          this._clearConversation();
+        }
+      },
+      {
+        explanation: t(
+          "The conversation will be deleted for everyone who can see it."
+        ),
+      }
+    );
+  }
+
+  private _updateConversation(conversation: AssistantConversation) {
+    this._conversations.set(
+      this._conversations
+        .get()
+        .map((c) => (c.id === conversation.id ? conversation : c))
+    );
+    if (this._conversation.get()?.id === conversation.id) {
+      this._conversation.set(conversation);
+    }
+  }
+
+  private _buildProgress() {
+    return dom.maybe(this._progress, ({ text, toolName, appliedCount }) =>
+      cssProgress(
+        text ? cssProgressText(text) : null,
+        cssProgressStatus(
+          toolName
+            ? t("Working: {{step}}", { step: toolName.replace(/_/g, " ") })
+            : t("Thinking..."),
+          appliedCount > 0
+            ? cssProgressChanges(
+                t("{{count}} changes applied", { count: appliedCount })
+              )
+            : null
+        ),
+        testId("progress")
+      )
+    );
+  }
+
+  private _buildProposedChanges() {
+    return dom.maybe(this._proposedChanges, (changes) =>
+      cssProposedChanges(
+        cssProposedChangesTitle(
+          t("Proposed changes"),
+          testId("proposed-changes-title")
+        ),
+        cssProposedChangesList(
+          changes.flatMap(({ diffs }) => diffs).map((diff) =>
+            cssProposedChange(
+              describeActionDiff(diff),
+              testId("proposed-change")
+            )
+          )
+        ),
+        cssProposedChangesButtons(
+          primaryButton(
+            t("Apply"),
+            dom.boolAttr("disabled", this._applyingChanges),
+            dom.on("click", () => this._applyProposedChanges()),
+            testId("proposed-changes-apply")
+          ),
+          basicButton(
+            t("Discard"),
+            dom.boolAttr("disabled", this._applyingChanges),
+            dom.on("click", () => this._proposedChanges.set(null)),
+            testId("proposed-changes-discard")
+          )
+        ),
+        testId("proposed-changes")
+      )
+    );
+  }
+
+  /**
+   * Applies all proposed changes as a single action bundle, so that they
+   * either all succeed or none do.
+   */
+  private async _applyProposedChanges() {
+    const changes = this._proposedChanges.get();
+    if (!changes || this._applyingChanges.get()) {
+      return;
+    }
+
+    this._applyingChanges.set(true);
+    try {
+      const result = await this._gristDoc.docComm.applyUserActions(
+        changes.flatMap(({ actions }) => actions),
+        { desc: "Applied changes proposed by the assistant" }
+      );
+      if (!this.isDisposed()) {
+        this._proposedChanges.set(null);
+        this._addUndoableResponse(t("Proposed changes"), [result]);
+      }
+    } catch (e) {
+      reportError(e);
+    } finally {
+      if (!this.isDisposed()) {
+        this._applyingChanges.set(false);
+      }
+    }
+  }
+
+  private _buildUndoableResponses() {
+    return dom.domComputed((use) => {
+      const conversationId = use(this._history).conversationId;
+      const responses = use(this._undoableResponses).filter(
+        (r) => r.conversationId === conversationId
+      );
+      if (responses.length === 0) {
+        return null;
+      }
+
+      return cssUndoableResponses(
+        responses.map((response) =>
+          cssUndoableResponse(
+            cssUndoableResponseSummary(response.summary),
+            cssLink(
+              t("Undo this response"),
+              dom.cls("disabled", this._undoing),
+              dom.on("click", () => this._undoResponse(response)),
+              testId("undo-response")
+            ),
+            testId("undoable-response")
+          )
+        ),
+        testId("undoable-responses")
+      );
+    });
+  }
+
+  private _addUndoableResponse(summary: string, results: ApplyUAResult[]) {
+    const actions = results
+      .filter((r) => r.isModification && r.actionHash)
+      .map(({ actionNum, actionHash }) => ({
+        actionNum,
+        actionHash: actionHash!,
+      }));
+    if (actions.length === 0) {
+      return;
+    }
+
+    this._undoableResponses.set([
+      ...this._undoableResponses.get(),
+      {
+        conversationId: this._assistant.conversationId,
+        summary: summarizeText(summary),
+        actions,
+      },
+    ]);
+  }
+
+  /**
+   * Reverts everything a response applied, as a single undo. The server
+   * refuses if later changes conflict, in which case its explanation is
+   * shown to the user.
+   */
+  private async _undoResponse(response: UndoableResponse) {
+    if (this._undoing.get()) {
+      return;
+    }
+
+    this._undoing.set(true);
+    try {
+      await this._api.undoAssistance(response.actions);
+      if (!this.isDisposed()) {
+        this._undoableResponses.set(
+          this._undoableResponses.get().filter((r) => r !== response)
+        );
+      }
+    } catch (e) {
+      reportError(e);
+    } finally {
+      if (!this.isDisposed()) {
+        this._undoing.set(false);
+      }
+    }
+  }
+
   private _buildAssistant() {
     return cssAssistant(this._assistant.buildDom());
   }
 
   private async _sendMessage(message: string) {
     const { developerPromptVersion = "default", state } = this._history.get();
-    return await askAI(this._gristDoc, {
+    const request = buildAssistanceRequest(this._gristDoc, {
       description: message,
       conversationId: this._assistant.conversationId,
       developerPromptVersion,
       state,
     });
+    let response: AssistanceResponseV2;
+    try {
+      response = await this._getAssistance(request);
+    } catch (e) {
+      if (!isUsageLimitError(e)) {
+        throw e;
+      }
+
+      // Reply with the explanation, rather than showing it as an error, and
+      // leave the conversation as it was so the user can try again later.
+      return { reply: e.message, state };
+    }
+    const { proposedChanges } = response as AssistanceResponseWithPreview;
+    if (!this.isDisposed()) {
+      this._proposedChanges.set(
+        proposedChanges?.length ? proposedChanges : null
+      );
+      this._addUndoableResponse(response.reply, response.appliedActions ?? []);
+    }
+    return response;
+  }
+
+  // Requests go to the REST endpoint, rather than over the websocket, which
+  // only allows editors to get assistance.
+  private async _getAssistance(request: AssistanceRequestV2) {
+    this._progress.set({ text: "", toolName: null, appliedCount: 0 });
+    try {
+      return await this._api.streamAssistance(request, (event) =>
+        this._handleStreamEvent(event)
+      );
+    } finally {
+      if (!this.isDisposed()) {
+        this._progress.set(null);
+      }
+    }
+  }
+
+  private _handleStreamEvent(event: AssistanceStreamEvent) {
+    const progress = this._progress.get();
+    if (this.isDisposed() || !progress) {
+      return;
+    }
+
+    switch (event.type) {
+      case "message_start": {
+        this._progress.set({ ...progress, text: "" });
+        break;
+      }
+      case "delta": {
+        this._progress.set({ ...progress, text: progress.text + event.content });
+        break;
+      }
+      case "tool_call_start": {
+        this._progress.set({ ...progress, toolName: event.name });
+        break;
+      }
+      case "tool_call_finish": {
+        this._progress.set({ ...progress, toolName: null });
+        break;
+      }
+      case "applied_actions": {
+        this._progress.set({
+          ...progress,
+          appliedCount: progress.appliedCount + event.appliedActions.length,
+        });
+        break;
+      }
+    }
   }
 
   private _logTelemetryEvent(
@@ -209,7 +708,7 @@ export function buildOpenAssistantButton(
   );
 }
 
-async function askAI(
+function buildAssistanceRequest(
   grist: GristDoc,
   options: {
     description: string;
@@ -217,10 +716,10 @@ async function askAI(
     developerPromptVersion: DeveloperPromptVersion;
     state?: AssistanceState;
   }
-) {
+): AssistanceRequestV2 {
   const { description, conversationId, developerPromptVersion, state } = options;
   const viewId = grist.activeViewId.get();
-  return await grist.docComm.getAssistance({
+  return {
     conversationId,
     context: {
       viewId: typeof viewId === "number" ? viewId : undefined,
@@ -228,7 +727,41 @@ async function askAI(
     text: description,
     developerPromptVersion,
     state,
-  });
+  };
+}
+
+function isUsageLimitError(e: unknown): e is ApiError {
+  return e instanceof ApiError && e.status === 429;
+}
+
+function summarizeText(text: string) {
+  const firstLine = text.trim().split("\n")[0];
+  return firstLine.length > 80 ? firstLine.slice(0, 79) + "…" : firstLine;
+}
+
+function getConversationTitle({ messages }: ChatHistory) {
+  return summarizeText(messages.find((m) => m.sender === "user")?.message ?? "");
+}
+
+function describeActionDiff({ action, tableId, rowIds, after }: AssistanceActionDiff) {
+  const count = rowIds?.length ?? Object.values(after ?? {})[0]?.length ?? 0;
+  switch (action) {
+    case "AddRecord":
+    case "BulkAddRecord": {
+      return t("Add {{count}} records to {{tableId}}", { count, tableId });
+    }
+    case "UpdateRecord":
+    case "BulkUpdateRecord": {
+      return t("Update {{count}} records in {{tableId}}", { count, tableId });
+    }
+    case "RemoveRecord":
+    case "BulkRemoveRecord": {
+      return t("Remove {{count}} records from {{tableId}}", { count, tableId });
+    }
+    default: {
+      return `${action} ${tableId}`;
+    }
+  }
 }
 
 function buildIntroMessage(...args: DomElementArg[]) {
@@ -252,7 +785,7 @@ function buildIntroMessage(...args: DomElementArg[]) {
         cssAiMessageListItem(
           inlineMarkdown(
             t(
-              "I **can't** create or modify charts, forms, access rules, or " +
+              "I **can't** create or modify charts, forms, or " +
                 "modify page layout. I also don't know if you've selected something."
             )
           )
@@ -301,7 +834,7 @@ const cssPopupContent = styled("div", `
 
 const cssToolbar = styled("div", `
   display: flex;
-  justify-content: flex-end;
+  justify-content: space-between;
   align-items: center;
   flex-shrink: 0;
   height: 30px;
@@ -315,6 +848,44 @@ const cssToolbarButtons = styled("div", `
   display: flex;
   align-items: center;
   column-gap: 8px;
+  margin-left: auto;
+`);
+
+const cssConversationPicker = styled("div", `
+  --icon-color: ${theme.controlSecondaryFg};
+  display: flex;
+  align-items: center;
+  min-width: 0;
+  border-radius: 3px;
+  padding: 3px;
+  cursor: pointer;
+  user-select: none;
+
+  &:hover, &.weasel-popup-open {
+    background-color: ${theme.hover};
+  }
+`);
+
+const cssConversationTitle = styled("div", `
+  color: ${theme.text};
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`);
+
+const cssConversationItemTitle = styled("div", `
+  flex: 1 1 auto;
+  max-width: 240px;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`);
+
+const cssConversationItemAuthor = styled("div", `
+  flex-shrink: 0;
+  margin-left: 16px;
+  color: ${theme.lightText};
+  font-size: ${vars.smallFontSize};
 `);
 
 const cssToolbarButton = styled("div", `
@@ -333,6 +904,83 @@ const cssChatOptionsMenu = styled("div", `
   z-index: ${vars.floatingPopupMenuZIndex};
 `);
 
+const cssProgress = styled("div", `
+  flex-shrink: 0;
+  max-height: 40%;
+  overflow-y: auto;
+  padding: 8px 16px;
+  border-bottom: 1px solid ${theme.formulaAssistantBorder};
+  color: ${theme.text};
+`);
+
+const cssProgressText = styled("div", `
+  white-space: pre-wrap;
+  margin-bottom: 4px;
+`);
+
+const cssProgressStatus = styled("div", `
+  display: flex;
+  justify-content: space-between;
+  column-gap: 8px;
+  color: ${theme.lightText};
+  font-size: ${vars.smallFontSize};
+`);
+
+const cssProgressChanges = styled("div", `
+  flex-shrink: 0;
+`);
+
+const cssProposedChanges = styled("div", `
+  flex-shrink: 0;
+  max-height: 40%;
+  overflow-y: auto;
+  padding: 8px 16px;
+  border-bottom: 1px solid ${theme.formulaAssistantBorder};
+  color: ${theme.text};
+`);
+
+const cssProposedChangesTitle = styled("div", `
+  font-weight: 600;
+  margin-bottom: 4px;
+`);
+
+const cssProposedChangesList = styled("ul", `
+  margin: 0 0 8px 0;
+  padding-left: 16px;
+`);
+
+const cssProposedChange = styled("li", `
+  font-size: ${vars.smallFontSize};
+`);
+
+const cssProposedChangesButtons = styled("div", `
+  display: flex;
+  column-gap: 8px;
+`);
+
+const cssUndoableResponses = styled("div", `
+  flex-shrink: 0;
+  max-height: 25%;
+  overflow-y: auto;
+  padding: 4px 16px;
+  border-bottom: 1px solid ${theme.formulaAssistantBorder};
+  font-size: ${vars.smallFontSize};
+`);
+
+const cssUndoableResponse = styled("div", `
+  display: flex;
+  justify-content: space-between;
+  column-gap: 8px;
+  padding: 2px 0px;
+`);
+
+const cssUndoableResponseSummary = styled("div", `
+  color: ${theme.lightText};
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`);
+
 const cssAssistant = styled("div", `
   overflow: hidden;
   display: flex;
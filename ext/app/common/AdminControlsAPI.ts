@@ -1,3 +1,4 @@
+import {AssistantPolicy} from 'app/common/AssistantAPI';
 import {BaseAPI, IOptions} from 'app/common/BaseAPI';
 import {Role} from 'app/common/roles';
 import {PermissionData} from 'app/common/UserAPI';
@@ -19,8 +20,20 @@ export interface AdminControlsAPI {
   // Similar to getOrgAccess/getWorkspaceAccess/getDocAccess, but always accessible to an admin.
   adminGetResourceAccess(options: {orgid?: number, wsid?: number, docid?: string}): Promise<PermissionData>;
 
+  // Tokens used by the AI assistant, optionally summed per org, user or doc. The time range is
+  // given in milliseconds (start inclusive, end exclusive).
+  adminGetAssistantUsage(options: {
+    orgid?: number, userid?: number, docid?: string, start?: number, end?: number,
+    groupBy?: AssistantUsageGroupBy,
+  }): Promise<IAssistantUsageRecords>;
+
+  // The assistant policy of an org, or of the whole installation if orgid isn't set. Orgs are
+  // also subject to the installation's policy, which isn't included.
+  adminGetAssistantPolicy(options: {orgid?: number}): Promise<AssistantPolicy>;
+
   // Methods that make changes.
   adminDeleteUser(userId: number, email: string, newOwnerId: number): Promise<IUserFields>;
+  adminSetAssistantPolicy(options: {orgid?: number}, policy: AssistantPolicy): Promise<AssistantPolicy>;
 }
 
 //----------------------------------------------------------------------
@@ -106,6 +119,17 @@ export interface IDocFields extends ResourceAccessInfo {
   access?: Role|null;           // Access is only set when filtering by a particular user.
 }
 
+export type AssistantUsageGroupBy = 'org'|'user'|'doc';
+
+// The id is the org id, user id or doc id when grouping, and null otherwise.
+export type IAssistantUsageRecord = IRecord<number|string|null, IAssistantUsageFields>;
+export interface IAssistantUsageRecords {records: IAssistantUsageRecord[]}
+export interface IAssistantUsageFields {
+  promptTokens: number;
+  completionTokens: number;
+  requests: number;                   // Number of completions requested from the AI provider.
+}
+
 export interface IRecord<IdType, FieldsType> {
   id: IdType;
   fields: FieldsType;
@@ -169,10 +193,30 @@ export class AdminControlsAPIImpl extends BaseAPI implements AdminControlsAPI {
     return this.requestJson(fullUrl, {method: 'GET'});
   }
 
+  public async adminGetAssistantUsage(options: {
+    orgid?: number, userid?: number, docid?: string, start?: number, end?: number,
+    groupBy?: AssistantUsageGroupBy,
+  }): Promise<IAssistantUsageRecords> {
+    const fullUrl = addParams(`${this._adminUrl}/assistant-usage`, options);
+    return this.requestJson(fullUrl, {method: 'GET'});
+  }
+
+  public async adminGetAssistantPolicy(options: {orgid?: number}): Promise<AssistantPolicy> {
+    const fullUrl = addParams(`${this._adminUrl}/assistant-policy`, options);
+    return this.requestJson(fullUrl, {method: 'GET'});
+  }
+
   public async adminDeleteUser(userId: number, email: string, newOwnerId: number): Promise<IUserFields> {
     const fullUrl = addParams(`${this._adminUrl}/users/${userId}/${email}`, {newOwnerId});
     return this.requestJson(fullUrl, {method: 'DELETE'});
   }
+
+  public async adminSetAssistantPolicy(
+    options: {orgid?: number}, policy: AssistantPolicy
+  ): Promise<AssistantPolicy> {
+    const fullUrl = addParams(`${this._adminUrl}/assistant-policy`, options);
+    return this.requestJson(fullUrl, {method: 'PUT', body: JSON.stringify(policy)});
+  }
 }
 
 // Add the given {name: value} parameters to the passed-in URL.
@@ -0,0 +1,283 @@
+import {ApplyUAResult} from 'app/common/ActiveDocAPI';
+import {ApiError} from 'app/common/ApiError';
+import {AssistanceRequestV2, AssistanceResponseV2} from 'app/common/Assistance';
+import {BaseAPI, IOptions} from 'app/common/BaseAPI';
+import {BulkColValues, UserAction} from 'app/common/DocActions';
+
+//----------------------------------------------------------------------
+// Types
+//----------------------------------------------------------------------
+
+/**
+ * Error code of assistant requests refused because the site has used up its tokens for the day or
+ * month (see ASSISTANT_DAILY_TOKEN_LIMIT and ASSISTANT_MONTHLY_TOKEN_LIMIT). Over REST, such
+ * errors only have status 429.
+ */
+export const ASSISTANT_USAGE_LIMIT_ERROR = 'AssistantUsageLimit';
+
+/**
+ * Events sent by `POST /api/docs/:docId/assistant/stream`, one per server-sent event.
+ *
+ * A stream is made up of one or more completions. Each starts with "message_start", followed by
+ * any number of "delta" events with partial reply text. If the model calls tools, each call is
+ * bracketed by "tool_call_start" and "tool_call_finish", and any document changes it made are
+ * reported in "applied_actions". The stream always ends with "response" or "error".
+ */
+export type AssistanceStreamEvent =
+  | {type: 'message_start'}
+  | {type: 'delta', content: string}
+  | {type: 'tool_call_start', id: string, name: string}
+  | {type: 'tool_call_finish', id: string, name: string, ok: boolean}
+  | {type: 'applied_actions', appliedActions: ApplyUAResult[]}
+  | {type: 'response', response: AssistanceResponseV2}
+  | {type: 'error', message: string, status?: number};
+
+/**
+ * A response from an assistant running in preview mode (ASSISTANT_PREVIEW_CHANGES). Modifications
+ * made by tools aren't applied; they are returned in `proposedChanges` for the user to apply or
+ * discard as a whole.
+ */
+export interface AssistanceResponseWithPreview extends AssistanceResponseV2 {
+  proposedChanges?: AssistanceProposedChange[];
+}
+
+/**
+ * The user actions a single tool call would have applied.
+ */
+export interface AssistanceProposedChange {
+  tool: string;
+  actions: UserAction[];
+  diffs: AssistanceActionDiff[];
+}
+
+/**
+ * What a single user action would change. For actions on records, `before` and `after` hold the
+ * values of the affected cells (`before` is omitted for new records, and `after` for removed
+ * ones). Other actions (e.g. on tables or columns) are only described by `action` and `tableId`.
+ */
+export interface AssistanceActionDiff {
+  action: string;
+  tableId: string;
+  rowIds?: number[];
+  before?: BulkColValues;
+  after?: BulkColValues;
+}
+
+/**
+ * Identifies an action bundle applied by the assistant, as found in `ApplyUAResult`.
+ */
+export interface AssistanceActionRef {
+  actionNum: number;
+  actionHash: string;
+}
+
+export type AssistanceStreamListener = (event: AssistanceStreamEvent) => void;
+
+/**
+ * An error reported by the server in an assistant stream, as opposed to one in response to the
+ * request for the stream (see `streamAssistance`).
+ */
+export class AssistanceStreamError extends ApiError {}
+
+/**
+ * Limits on what the assistant may do, set by install admins for the whole installation, or for
+ * a single org. Both apply to an org's documents: the stricter setting wins, and instructions
+ * from both are included.
+ */
+export interface AssistantPolicy {
+  readOnly?: boolean;         // If set, only tools that don't change the document.
+  allowedTools?: string[];    // If set, only these tools (by name) may be called.
+  instructions?: string;      // Added to the assistant's prompt.
+
+  // Values masked before anything is sent to the AI provider. See ASSISTANT_SENSITIVE_TAG.
+  redactEmails?: boolean;
+  redactPhoneNumbers?: boolean;
+  redactSensitiveColumns?: boolean;
+  redactPatterns?: string[];  // Regular expressions (JavaScript syntax) whose matches are masked.
+}
+
+/**
+ * Columns whose description includes this tag are sensitive: if a policy sets
+ * `redactSensitiveColumns`, their values are masked before being sent to the AI provider.
+ */
+export const ASSISTANT_SENSITIVE_TAG = '#sensitive';
+
+/**
+ * A conversation with the assistant, saved on the server. Conversations belong to a document, and
+ * are only visible to the user who started them (`userId`) and to the document's owners.
+ */
+export interface AssistantConversation {
+  id: string;               // The conversationId of the conversation's requests.
+  userId: number;
+  title: string;
+  createdAtMs: number;
+  updatedAtMs: number;
+}
+
+export interface AssistantConversationWithHistory extends AssistantConversation {
+  history: unknown;         // As kept by the client; opaque to the server.
+}
+
+/**
+ * A question put to the assistant, saved with the SQL query that answers it, to be run on a
+ * schedule. Results are emailed to the user who saved the report (`userId`), and only include
+ * what that user can see at the time. Reports belong to a document, and are visible to their
+ * author and to the document's owners.
+ */
+export interface AssistantReport {
+  id: string;
+  userId: number;
+  title: string;
+  prompt: string;                 // The question the report answers, as the user asked it.
+  sql: string;                    // A SELECT query, as run by the assistant's query_document tool.
+  schedule: string;               // A cron expression, e.g. "0 9 * * 1" for Mondays at 9:00.
+  timezone: string;               // Timezone the schedule is in, e.g. "America/New_York".
+  createdAtMs: number;
+  lastRunAtMs: number|null;
+  nextRunAtMs: number|null;       // Null if the report couldn't be scheduled.
+}
+
+// The interface exposed to the client via REST API.
+export interface AssistantAPI {
+  /**
+   * Like `getAssistance` in ActiveDocAPI, but reports progress to `onEvent` as the assistant works,
+   * if the assistant is configured to stream. Unlike `getAssistance`, it's allowed for viewers.
+   *
+   * Errors the server reports once the stream has started (e.g. for a missing conversation) are
+   * thrown as AssistanceStreamError.
+   */
+  streamAssistance(request: AssistanceRequestV2, onEvent: AssistanceStreamListener): Promise<AssistanceResponseV2>;
+
+  /**
+   * Reverts the action bundles applied during one assistant response, as a single undo.
+   *
+   * Fails with status 409 if the document has since changed in a way that makes reverting them
+   * unsafe (e.g. someone else edited the same records).
+   */
+  undoAssistance(actions: AssistanceActionRef[]): Promise<void>;
+
+  /**
+   * Lists saved conversations in the document, most recently updated first. Owners see everyone's
+   * conversations; other users only see their own.
+   */
+  listConversations(): Promise<AssistantConversation[]>;
+
+  getConversation(conversationId: string): Promise<AssistantConversationWithHistory>;
+
+  /**
+   * Creates or updates a conversation started by the current user. Fails with status 403 if the
+   * conversation was started by someone else.
+   */
+  saveConversation(
+    conversationId: string, options: {title?: string, history: unknown}
+  ): Promise<AssistantConversation>;
+
+  renameConversation(conversationId: string, title: string): Promise<void>;
+
+  deleteConversation(conversationId: string): Promise<void>;
+
+  /**
+   * Lists scheduled reports in the document. Owners see everyone's reports; other users only see
+   * their own. Reports are created by the assistant.
+   */
+  listReports(): Promise<AssistantReport[]>;
+
+  deleteReport(reportId: string): Promise<void>;
+}
+
+//----------------------------------------------------------------------
+// REST API client implementation.
+//----------------------------------------------------------------------
+
+export class AssistantAPIImpl extends BaseAPI implements AssistantAPI {
+  constructor(private _docBaseUrl: string, options: IOptions = {}) {
+    super(options);
+  }
+
+  public async streamAssistance(
+    request: AssistanceRequestV2, onEvent: AssistanceStreamListener
+  ): Promise<AssistanceResponseV2> {
+    const resp = await this.request(`${this._docBaseUrl}/assistant/stream`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+    if (!resp.body) { throw new Error('Assistant stream has no body'); }
+
+    const reader = resp.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const {done, value} = await reader.read();
+      if (done) { break; }
+      buffer += decoder.decode(value, {stream: true});
+      let end: number;
+      while ((end = buffer.indexOf('\n\n')) !== -1) {
+        const event = parseServerSentEvent(buffer.slice(0, end));
+        buffer = buffer.slice(end + 2);
+        if (!event) { continue; }
+        if (event.type === 'response') { return event.response; }
+        if (event.type === 'error') { throw new AssistanceStreamError(event.message, event.status ?? 500); }
+        onEvent(event);
+      }
+    }
+    throw new Error('Assistant stream ended without a response');
+  }
+
+  public async undoAssistance(actions: AssistanceActionRef[]): Promise<void> {
+    await this.request(`${this._docBaseUrl}/assistant/undo`, {
+      method: 'POST',
+      body: JSON.stringify({actions}),
+    });
+  }
+
+  public async listConversations(): Promise<AssistantConversation[]> {
+    return this.requestJson(`${this._docBaseUrl}/assistant/conversations`, {method: 'GET'});
+  }
+
+  public async getConversation(conversationId: string): Promise<AssistantConversationWithHistory> {
+    return this.requestJson(this._conversationUrl(conversationId), {method: 'GET'});
+  }
+
+  public async saveConversation(
+    conversationId: string, options: {title?: string, history: unknown}
+  ): Promise<AssistantConversation> {
+    return this.requestJson(this._conversationUrl(conversationId), {
+      method: 'PUT',
+      body: JSON.stringify(options),
+    });
+  }
+
+  public async renameConversation(conversationId: string, title: string): Promise<void> {
+    await this.request(this._conversationUrl(conversationId), {
+      method: 'PATCH',
+      body: JSON.stringify({title}),
+    });
+  }
+
+  public async deleteConversation(conversationId: string): Promise<void> {
+    await this.request(this._conversationUrl(conversationId), {method: 'DELETE'});
+  }
+
+  public async listReports(): Promise<AssistantReport[]> {
+    return this.requestJson(`${this._docBaseUrl}/assistant/reports`, {method: 'GET'});
+  }
+
+  public async deleteReport(reportId: string): Promise<void> {
+    await this.request(`${this._docBaseUrl}/assistant/reports/${encodeURIComponent(reportId)}`, {
+      method: 'DELETE',
+    });
+  }
+
+  private _conversationUrl(conversationId: string) {
+    return `${this._docBaseUrl}/assistant/conversations/${encodeURIComponent(conversationId)}`;
+  }
+}
+
+// Parses the data lines of a single server-sent event as JSON. Comments and other fields are ignored.
+function parseServerSentEvent(text: string): AssistanceStreamEvent|null {
+  const data = text.split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trimStart())
+    .join('\n');
+  return data ? JSON.parse(data) : null;
+}
@@ -1,5 +1,12 @@
-import { AdminControlsAPI } from 'app/common/AdminControlsAPI';
+import { AdminControlsAPI, AssistantUsageGroupBy } from 'app/common/AdminControlsAPI';
+import { ApiError } from 'app/common/ApiError';
+import { csvEncodeRow } from 'app/common/csvFormat';
+import { checkAssistantPolicy } from 'app/gen-server/lib/AssistantPolicies';
+import {
+  AUDIT_EVENT_CSV_COLUMNS, AuditLogFilter, Deps as AuditLogStoreDeps, getAuditEventCsvRow
+} from 'app/gen-server/lib/AuditLogStore';
 import { HomeDBManager } from 'app/gen-server/lib/homedb/HomeDBManager';
+import { AuditLogger } from 'app/server/lib/AuditLogger';
 import { RequestWithLogin } from 'app/server/lib/Authorizer';
 import { HomeDBAdmin } from 'app/gen-server/lib/HomeDBAdmin';
 import { expressWrap } from 'app/server/lib/expressWrap';
@@ -65,6 +72,101 @@ export function addAdminControlsEndpoints(
   app.get('/api/admin-controls/access', handle((req) => {
     return dbAdmin.adminGetResourceAccess({orgid: orgid(req), wsid: wsid(req), docid: docid(req)});
   }));
+  app.get('/api/admin-controls/assistant-usage', handle((req) => {
+    const groupBy = optStringParam(req.query.groupBy, 'groupBy', {
+      allowed: ['org', 'user', 'doc'],
+    }) as AssistantUsageGroupBy|undefined;
+    return dbAdmin.adminGetAssistantUsage({
+      orgid: orgid(req), userid: userid(req), docid: docid(req),
+      start: optIntegerParam(req.query.start, 'start'),
+      end: optIntegerParam(req.query.end, 'end'),
+      groupBy,
+    });
+  }));
+
+  app.get('/api/admin-controls/assistant-policy', handle((req) => {
+    return dbAdmin.adminGetAssistantPolicy({orgid: orgid(req)});
+  }));
+
+  // Without orgid, sets the install-level policy, which applies to all orgs.
+  app.put('/api/admin-controls/assistant-policy', handle((req) => {
+    return dbAdmin.adminSetAssistantPolicy({orgid: orgid(req)}, checkAssistantPolicy(req.body));
+  }));
+
+  // Audit events that couldn't be streamed to their destination, after all retries.
+  function getAuditEventQueue() {
+    const auditLogger = gristServer.getAuditLogger();
+    if (!(auditLogger instanceof AuditLogger)) {
+      throw new ApiError('Audit log streaming is not available', 404);
+    }
+    return auditLogger.getQueue();
+  }
+
+  app.get('/api/admin-controls/audit-log/dead-letters', handle(async () => {
+    return {records: await getAuditEventQueue().listDeadLetters()};
+  }));
+
+  // Without ids in the body, replays all dead letters.
+  app.post('/api/admin-controls/audit-log/dead-letters/replay', handle(async (req) => {
+    const {ids} = req.body ?? {};
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => typeof id !== 'string'))) {
+      throw new ApiError('ids must be a list of dead letter IDs', 400);
+    }
+    return {replayed: await getAuditEventQueue().replayDeadLetters(ids)};
+  }));
+
+  // Audit events kept in the home DB, if the local store is enabled (GRIST_AUDIT_LOG_LOCAL_STORE).
+  function getAuditLogStore() {
+    const auditLogger = gristServer.getAuditLogger();
+    const store = auditLogger instanceof AuditLogger ? auditLogger.getStore() : undefined;
+    if (!store) {
+      throw new ApiError('Local audit log is not enabled', 404);
+    }
+    return store;
+  }
+
+  const auditLogFilter = (req: Request): AuditLogFilter => ({
+    startMs: optIntegerParam(req.query.start, 'start'),
+    endMs: optIntegerParam(req.query.end, 'end'),
+    userid: userid(req),
+    action: optStringParam(req.query.action, 'action'),
+    orgid: orgid(req),
+    docid: docid(req),
+  });
+
+  // Returns a page of events, newest first, as JSON; pass the page's nextCursor as `cursor` for
+  // the next one. With format=csv or format=ndjson, exports all matching events instead. Only
+  // NDJSON exports keep whole events, as needed to check their chains with auditLogVerify.
+  app.get('/api/admin-controls/audit-log/events', expressWrap(async (req, res) => {
+    log.debug(req as RequestWithLogin, req.path, req.query);
+    const store = getAuditLogStore();
+    const filter = auditLogFilter(req);
+    const format = optStringParam(req.query.format, 'format', {allowed: ['json', 'csv', 'ndjson']});
+    if (format !== 'csv' && format !== 'ndjson') {
+      res.json(await store.searchEvents(filter, {
+        limit: optIntegerParam(req.query.limit, 'limit'),
+        cursor: optStringParam(req.query.cursor, 'cursor'),
+      }));
+      return;
+    }
+
+    if (format === 'ndjson') {
+      res.type('application/x-ndjson').attachment('audit-log.ndjson');
+    } else {
+      res.type('text/csv').attachment('audit-log.csv');
+      res.write(csvEncodeRow(AUDIT_EVENT_CSV_COLUMNS) + '\n');
+    }
+    let cursor: string|undefined;
+    do {
+      const page = await store.searchEvents(filter, {limit: AuditLogStoreDeps.MAX_PAGE_SIZE, cursor});
+      for (const event of page.records) {
+        const line = format === 'ndjson' ? JSON.stringify(event) : csvEncodeRow(getAuditEventCsvRow(event));
+        res.write(line + '\n');
+      }
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    res.end();
+  }));
 
   // The "/:email" suffix (for User.loginEmail) serves as confirmation, to ensure the deletion is intentional.
   app.delete('/api/admin-controls/users/:userid/:email', handle(async (req) => {
@@ -0,0 +1,166 @@
+import { AssistantConversation, AssistantConversationWithHistory } from 'app/common/AssistantAPI';
+import { HomeDBManager } from 'app/gen-server/lib/homedb/HomeDBManager';
+
+// Postgres returns BIGINT columns as strings.
+type PgNumber = number|string;
+function getNumber(value: PgNumber|null|undefined): number { return Number(value || 0); }
+
+/**
+ * Stores assistant conversations in the home DB, per document and keyed by conversationId, so
+ * that they survive switching browsers and can be reopened by their author or the document's
+ * owners. Access checks are left to callers.
+ *
+ * The table isn't part of the home DB schema managed by migrations, so it's created on first use.
+ * Histories are stored as JSON in whatever shape the client keeps them.
+ */
+export class AssistantConversations {
+  private _ready?: Promise<void>;
+
+  public constructor(private readonly _homeDb: HomeDBManager) {}
+
+  /**
+   * Returns the conversations in a document, most recently updated first. If `userId` is set,
+   * only conversations started by that user are included.
+   */
+  public async listConversations(docId: string, userId?: number): Promise<AssistantConversation[]> {
+    await this._prepare();
+    const raw = await this._selectConversations()
+      .where('ac.doc_id = :docId', {docId})
+      .chain(qb => userId !== undefined ? qb.andWhere('ac.user_id = :userId', {userId}) : qb)
+      .orderBy('ac.updated_at_ms', 'DESC')
+      .getRawMany();
+    return raw.map(toConversation);
+  }
+
+  public async getConversation(docId: string, id: string): Promise<AssistantConversationWithHistory|null> {
+    await this._prepare();
+    const raw = await this._selectConversations()
+      .addSelect('ac.history', 'history')
+      .where('ac.doc_id = :docId AND ac.id = :id', {docId, id})
+      .getRawOne();
+    if (!raw) { return null; }
+    return {...toConversation(raw), history: JSON.parse(raw.history)};
+  }
+
+  /**
+   * Creates or replaces a conversation. The author of an existing conversation is kept, as is
+   * its title unless a new one is given.
+   */
+  public async saveConversation(
+    docId: string, id: string, options: {userId: number, title?: string, history: unknown}
+  ): Promise<AssistantConversation> {
+    await this._prepare();
+    const {userId, title, history} = options;
+    const now = Date.now();
+    return await this._homeDb.connection.transaction(async manager => {
+      const existing = await manager.createQueryBuilder()
+        .select('ac.user_id', 'userId')
+        .addSelect('ac.title', 'title')
+        .addSelect('ac.created_at_ms', 'createdAtMs')
+        .from('assistant_conversations', 'ac')
+        .where('ac.doc_id = :docId AND ac.id = :id', {docId, id})
+        .getRawOne();
+      if (existing) {
+        await manager.createQueryBuilder()
+          .update('assistant_conversations')
+          .set({
+            ...(title !== undefined ? {title} : {}),
+            history: JSON.stringify(history),
+            updated_at_ms: now,
+          })
+          .where('doc_id = :docId AND id = :id', {docId, id})
+          .execute();
+        return {
+          id,
+          userId: existing.userId,
+          title: title ?? existing.title,
+          createdAtMs: getNumber(existing.createdAtMs),
+          updatedAtMs: now,
+        };
+      }
+      await manager.createQueryBuilder()
+        .insert()
+        .into('assistant_conversations')
+        .values({
+          id,
+          doc_id: docId,
+          user_id: userId,
+          title: title ?? '',
+          history: JSON.stringify(history),
+          created_at_ms: now,
+          updated_at_ms: now,
+        })
+        .execute();
+      return {id, userId, title: title ?? '', createdAtMs: now, updatedAtMs: now};
+    });
+  }
+
+  /**
+   * Renames a conversation. Returns false if there's no such conversation.
+   */
+  public async renameConversation(docId: string, id: string, title: string): Promise<boolean> {
+    await this._prepare();
+    const result = await this._homeDb.connection.createQueryBuilder()
+      .update('assistant_conversations')
+      .set({title})
+      .where('doc_id = :docId AND id = :id', {docId, id})
+      .execute();
+    return Boolean(result.affected);
+  }
+
+  /**
+   * Deletes a conversation. Returns false if there's no such conversation.
+   */
+  public async deleteConversation(docId: string, id: string): Promise<boolean> {
+    await this._prepare();
+    const result = await this._homeDb.connection.createQueryBuilder()
+      .delete()
+      .from('assistant_conversations')
+      .where('doc_id = :docId AND id = :id', {docId, id})
+      .execute();
+    return Boolean(result.affected);
+  }
+
+  private _selectConversations() {
+    return this._homeDb.connection.createQueryBuilder()
+      .select('ac.id', 'id')
+      .addSelect('ac.user_id', 'userId')
+      .addSelect('ac.title', 'title')
+      .addSelect('ac.created_at_ms', 'createdAtMs')
+      .addSelect('ac.updated_at_ms', 'updatedAtMs')
+      .from('assistant_conversations', 'ac');
+  }
+
+  private _prepare() {
+    return this._ready ??= this._createTable().catch((e) => {
+      this._ready = undefined;
+      throw e;
+    });
+  }
+
+  // The column types here are understood by both SQLite and Postgres.
+  private async _createTable() {
+    await this._homeDb.connection.query(`
+      CREATE TABLE IF NOT EXISTS assistant_conversations (
+        doc_id VARCHAR(255) NOT NULL,
+        id VARCHAR(255) NOT NULL,
+        user_id INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        history TEXT NOT NULL,
+        created_at_ms BIGINT NOT NULL,
+        updated_at_ms BIGINT NOT NULL,
+        PRIMARY KEY (doc_id, id)
+      )
+    `);
+  }
+}
+
+function toConversation(raw: any): AssistantConversation {
+  return {
+    id: raw.id,
+    userId: raw.userId,
+    title: raw.title,
+    createdAtMs: getNumber(raw.createdAtMs),
+    updatedAtMs: getNumber(raw.updatedAtMs),
+  };
+}
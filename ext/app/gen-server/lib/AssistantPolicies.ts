@@ -0,0 +1,189 @@
+import { ApiError } from 'app/common/ApiError';
+import { AssistantPolicy } from 'app/common/AssistantAPI';
+import { safeJsonParse } from 'app/common/gutil';
+import { HomeDBManager } from 'app/gen-server/lib/homedb/HomeDBManager';
+
+// The install-level policy is stored under this org id, which no real org has.
+const INSTALL_ORG_ID = 0;
+
+// Tools that don't change documents, the only ones allowed by read-only policies. A tool added
+// later is only allowed once it's listed here.
+const READ_ONLY_TOOLS = [
+  'get_tables', 'get_table_columns', 'get_pages', 'get_page_widgets',
+  'get_page_widget_select_by_options', 'get_conditional_style_rules', 'get_chart_widget_options',
+  'get_available_custom_widgets', 'get_workspace_documents', 'get_access_rules',
+  'get_grist_access_rules_reference', 'get_scheduled_reports', 'query_document',
+  'read_attachment',
+];
+
+/**
+ * Stores the assistant policies set by install admins in the home DB: one for the whole
+ * installation, and optionally one per org.
+ *
+ * The table isn't part of the home DB schema managed by migrations, so it's created on first use.
+ */
+export class AssistantPolicies {
+  private _ready?: Promise<void>;
+
+  public constructor(private readonly _homeDb: HomeDBManager) {}
+
+  /**
+   * Returns the policy of an org, or of the installation if `orgId` is null. Returns an empty
+   * policy if none was set.
+   */
+  public async getPolicy(orgId: number|null): Promise<AssistantPolicy> {
+    await this._prepare();
+    const row = await this._homeDb.connection.createQueryBuilder()
+      .select('ap.policy', 'policy')
+      .from('assistant_policies', 'ap')
+      .where('ap.org_id = :orgId', {orgId: orgId ?? INSTALL_ORG_ID})
+      .getRawOne();
+    return row ? safeJsonParse(row.policy, {}) : {};
+  }
+
+  /**
+   * Replaces the policy of an org, or of the installation if `orgId` is null.
+   */
+  public async setPolicy(orgId: number|null, policy: AssistantPolicy): Promise<AssistantPolicy> {
+    await this._prepare();
+    const values = {
+      org_id: orgId ?? INSTALL_ORG_ID,
+      policy: JSON.stringify(policy),
+      updated_at_ms: Date.now(),
+    };
+    await this._homeDb.connection.transaction(async manager => {
+      await manager.createQueryBuilder()
+        .delete()
+        .from('assistant_policies')
+        .where('org_id = :orgId', {orgId: values.org_id})
+        .execute();
+      await manager.createQueryBuilder()
+        .insert()
+        .into('assistant_policies')
+        .values(values)
+        .execute();
+    });
+    return policy;
+  }
+
+  /**
+   * Returns the policy that applies to documents of an org: the installation's policy, combined
+   * with the org's own, if any.
+   */
+  public async getEffectivePolicy(orgId: number|null): Promise<AssistantPolicy> {
+    const installPolicy = await this.getPolicy(null);
+    if (orgId === null) { return installPolicy; }
+    return mergeAssistantPolicies(installPolicy, await this.getPolicy(orgId));
+  }
+
+  private _prepare() {
+    return this._ready ??= this._createTable().catch((e) => {
+      this._ready = undefined;
+      throw e;
+    });
+  }
+
+  // The column types here are understood by both SQLite and Postgres.
+  private async _createTable() {
+    await this._homeDb.connection.query(`
+      CREATE TABLE IF NOT EXISTS assistant_policies (
+        org_id INTEGER PRIMARY KEY,
+        policy TEXT NOT NULL,
+        updated_at_ms BIGINT NOT NULL
+      )
+    `);
+  }
+}
+
+/**
+ * Combines two policies so that the stricter setting wins: the assistant is read-only if either
+ * policy says so, only tools allowed by both may be called, and instructions and redactions from
+ * both apply.
+ */
+export function mergeAssistantPolicies(a: AssistantPolicy, b: AssistantPolicy): AssistantPolicy {
+  const merged: AssistantPolicy = {};
+  if (a.readOnly || b.readOnly) {
+    merged.readOnly = true;
+  }
+  if (a.allowedTools && b.allowedTools) {
+    merged.allowedTools = a.allowedTools.filter(name => b.allowedTools!.includes(name));
+  } else if (a.allowedTools || b.allowedTools) {
+    merged.allowedTools = a.allowedTools || b.allowedTools;
+  }
+  const instructions = [a.instructions, b.instructions].filter(Boolean);
+  if (instructions.length > 0) {
+    merged.instructions = instructions.join('\n\n');
+  }
+  for (const key of ['redactEmails', 'redactPhoneNumbers', 'redactSensitiveColumns'] as const) {
+    if (a[key] || b[key]) {
+      merged[key] = true;
+    }
+  }
+  const redactPatterns = [...(a.redactPatterns ?? []), ...(b.redactPatterns ?? [])];
+  if (redactPatterns.length > 0) {
+    merged.redactPatterns = redactPatterns;
+  }
+  return merged;
+}
+
+/**
+ * Returns true if `policy` allows the assistant to call the tool named `name`.
+ */
+export function isToolAllowedByPolicy(policy: AssistantPolicy, name: string): boolean {
+  if (policy.readOnly && !READ_ONLY_TOOLS.includes(name)) {
+    return false;
+  }
+  return !policy.allowedTools || policy.allowedTools.includes(name);
+}
+
+/**
+ * Checks that `value` (e.g. the body of a request) is a valid policy, and returns it with only
+ * the known properties. Throws an ApiError with status 400 otherwise.
+ */
+export function checkAssistantPolicy(value: unknown): AssistantPolicy {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ApiError('Assistant policy must be an object', 400);
+  }
+  const {
+    readOnly, allowedTools, instructions, redactEmails, redactPhoneNumbers, redactSensitiveColumns,
+    redactPatterns,
+  } = value as Record<string, unknown>;
+  const policy: AssistantPolicy = {};
+  const flags = {readOnly, redactEmails, redactPhoneNumbers, redactSensitiveColumns};
+  for (const key of Object.keys(flags) as Array<keyof typeof flags>) {
+    const flag = flags[key];
+    if (flag === undefined) { continue; }
+    if (typeof flag !== 'boolean') {
+      throw new ApiError(`${key} must be a boolean`, 400);
+    }
+    policy[key] = flag;
+  }
+  if (allowedTools !== undefined && allowedTools !== null) {
+    if (!Array.isArray(allowedTools) || allowedTools.some(name => typeof name !== 'string')) {
+      throw new ApiError('allowedTools must be a list of tool names', 400);
+    }
+    policy.allowedTools = allowedTools;
+  }
+  if (instructions !== undefined && instructions !== '') {
+    if (typeof instructions !== 'string') {
+      throw new ApiError('instructions must be a string', 400);
+    }
+    policy.instructions = instructions;
+  }
+  if (redactPatterns !== undefined && redactPatterns !== null) {
+    if (!Array.isArray(redactPatterns) || redactPatterns.some(p => typeof p !== 'string')) {
+      throw new ApiError('redactPatterns must be a list of regular expressions', 400);
+    }
+    for (const pattern of redactPatterns) {
+      try {
+        new RegExp(pattern);
+      } catch (e) {
+        throw new ApiError(`Invalid pattern in redactPatterns: ${e.message}`, 400);
+      }
+    }
+    if (redactPatterns.length > 0) {
+      policy.redactPatterns = redactPatterns;
+    }
+  }
+  return policy;
+}
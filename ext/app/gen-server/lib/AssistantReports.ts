@@ -0,0 +1,179 @@
+import { AssistantReport } from 'app/common/AssistantAPI';
+import { HomeDBManager } from 'app/gen-server/lib/homedb/HomeDBManager';
+
+// Postgres returns BIGINT columns as strings.
+type PgNumber = number|string;
+function getNumber(value: PgNumber): number { return Number(value); }
+function getOptNumber(value: PgNumber|null|undefined): number|null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+export interface AssistantReportWithDoc extends AssistantReport {
+  docId: string;
+  accessFailures: number;   // Runs in a row that failed because the author couldn't open the doc.
+}
+
+/**
+ * Stores scheduled assistant reports in the home DB, per document. Access checks and scheduling
+ * are left to callers (see app/server/lib/assistantReports.ts).
+ *
+ * The table isn't part of the home DB schema managed by migrations, so it's created on first use.
+ */
+export class AssistantReports {
+  private _ready?: Promise<void>;
+
+  public constructor(private readonly _homeDb: HomeDBManager) {}
+
+  /**
+   * Returns the reports in a document, oldest first. If `userId` is set, only reports saved by
+   * that user are included.
+   */
+  public async listReports(docId: string, userId?: number): Promise<AssistantReport[]> {
+    await this._prepare();
+    const raw = await this._selectReports()
+      .where('ar.doc_id = :docId', {docId})
+      .chain(qb => userId !== undefined ? qb.andWhere('ar.user_id = :userId', {userId}) : qb)
+      .orderBy('ar.created_at_ms', 'ASC')
+      .getRawMany();
+    return raw.map(toReport);
+  }
+
+  public async getReport(id: string): Promise<AssistantReportWithDoc|null> {
+    await this._prepare();
+    const raw = await this._selectReports()
+      .where('ar.id = :id', {id})
+      .getRawOne();
+    return raw ? {...toReport(raw), docId: raw.docId, accessFailures: raw.accessFailures} : null;
+  }
+
+  /**
+   * Returns the IDs and next run times of all reports that are scheduled to run.
+   */
+  public async listScheduledRuns(): Promise<Array<{id: string, nextRunAtMs: number}>> {
+    await this._prepare();
+    const raw = await this._homeDb.connection.createQueryBuilder()
+      .select('ar.id', 'id')
+      .addSelect('ar.next_run_at_ms', 'nextRunAtMs')
+      .from('assistant_reports', 'ar')
+      .where('ar.next_run_at_ms IS NOT NULL')
+      .getRawMany();
+    return raw.map(r => ({id: r.id, nextRunAtMs: getNumber(r.nextRunAtMs)}));
+  }
+
+  public async addReport(docId: string, report: AssistantReport): Promise<void> {
+    await this._prepare();
+    await this._homeDb.connection.createQueryBuilder()
+      .insert()
+      .into('assistant_reports')
+      .values({
+        id: report.id,
+        doc_id: docId,
+        user_id: report.userId,
+        title: report.title,
+        prompt: report.prompt,
+        sql: report.sql,
+        schedule: report.schedule,
+        timezone: report.timezone,
+        created_at_ms: report.createdAtMs,
+        last_run_at_ms: report.lastRunAtMs,
+        next_run_at_ms: report.nextRunAtMs,
+      })
+      .execute();
+  }
+
+  /**
+   * Records when a report last ran, when it's next due, and how many runs in a row failed for
+   * lack of access. Returns false if there's no such report (e.g. because it was deleted).
+   */
+  public async updateRunTimes(
+    id: string, times: {lastRunAtMs?: number, nextRunAtMs: number|null, accessFailures?: number}
+  ): Promise<boolean> {
+    await this._prepare();
+    const result = await this._homeDb.connection.createQueryBuilder()
+      .update('assistant_reports')
+      .set({
+        ...(times.lastRunAtMs !== undefined ? {last_run_at_ms: times.lastRunAtMs} : {}),
+        ...(times.accessFailures !== undefined ? {access_failures: times.accessFailures} : {}),
+        next_run_at_ms: times.nextRunAtMs,
+      })
+      .where('id = :id', {id})
+      .execute();
+    return Boolean(result.affected);
+  }
+
+  /**
+   * Deletes a report. Returns false if there's no such report.
+   */
+  public async deleteReport(docId: string, id: string): Promise<boolean> {
+    await this._prepare();
+    const result = await this._homeDb.connection.createQueryBuilder()
+      .delete()
+      .from('assistant_reports')
+      .where('doc_id = :docId AND id = :id', {docId, id})
+      .execute();
+    return Boolean(result.affected);
+  }
+
+  private _selectReports() {
+    return this._homeDb.connection.createQueryBuilder()
+      .select('ar.id', 'id')
+      .addSelect('ar.doc_id', 'docId')
+      .addSelect('ar.user_id', 'userId')
+      .addSelect('ar.title', 'title')
+      .addSelect('ar.prompt', 'prompt')
+      .addSelect('ar.sql', 'sql')
+      .addSelect('ar.schedule', 'schedule')
+      .addSelect('ar.timezone', 'timezone')
+      .addSelect('ar.created_at_ms', 'createdAtMs')
+      .addSelect('ar.last_run_at_ms', 'lastRunAtMs')
+      .addSelect('ar.next_run_at_ms', 'nextRunAtMs')
+      .addSelect('ar.access_failures', 'accessFailures')
+      .from('assistant_reports', 'ar');
+  }
+
+  private _prepare() {
+    return this._ready ??= this._createTable().catch((e) => {
+      this._ready = undefined;
+      throw e;
+    });
+  }
+
+  // The column types here are understood by both SQLite and Postgres.
+  private async _createTable() {
+    await this._homeDb.connection.query(`
+      CREATE TABLE IF NOT EXISTS assistant_reports (
+        id VARCHAR(255) PRIMARY KEY,
+        doc_id VARCHAR(255) NOT NULL,
+        user_id INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        prompt TEXT NOT NULL,
+        sql TEXT NOT NULL,
+        schedule VARCHAR(255) NOT NULL,
+        timezone VARCHAR(255) NOT NULL,
+        created_at_ms BIGINT NOT NULL,
+        last_run_at_ms BIGINT,
+        next_run_at_ms BIGINT,
+        access_failures INTEGER NOT NULL DEFAULT 0
+      )
+    `);
+    await this._homeDb.connection.query(`
+      CREATE INDEX IF NOT EXISTS assistant_reports_doc_id
+      ON assistant_reports (doc_id)
+    `);
+  }
+}
+
+function toReport(raw: any): AssistantReport {
+  return {
+    id: raw.id,
+    userId: raw.userId,
+    title: raw.title,
+    prompt: raw.prompt,
+    sql: raw.sql,
+    schedule: raw.schedule,
+    timezone: raw.timezone,
+    createdAtMs: getNumber(raw.createdAtMs),
+    lastRunAtMs: getOptNumber(raw.lastRunAtMs),
+    nextRunAtMs: getOptNumber(raw.nextRunAtMs),
+  };
+}
@@ -0,0 +1,185 @@
+import {
+  AssistantUsageGroupBy, IAssistantUsageFields, IAssistantUsageRecords
+} from 'app/common/AdminControlsAPI';
+import { ApiError } from 'app/common/ApiError';
+import { ASSISTANT_USAGE_LIMIT_ERROR } from 'app/common/AssistantAPI';
+import { HomeDBManager } from 'app/gen-server/lib/homedb/HomeDBManager';
+
+// Postgres returns BigInts for sums, which we receive as strings.
+type PgNumber = number|string;
+function getNumber(value: PgNumber|null|undefined): number { return Number(value || 0); }
+
+export interface AssistantUsageEntry {
+  orgId: number|null;
+  userId: number|null;
+  docId: string|null;
+  model: string|null;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface AssistantUsageFilter {
+  orgid?: number;
+  userid?: number;
+  docid?: string;
+  startMs?: number;         // Inclusive millisecond timestamp.
+  endMs?: number;           // Exclusive millisecond timestamp.
+}
+
+export interface AssistantUsageLimits {
+  dailyTokens?: number;     // Per org, reset at midnight UTC.
+  monthlyTokens?: number;   // Per org, reset on the first of each month (UTC).
+}
+
+/**
+ * Thrown when an org has used up its assistant tokens for the day or month.
+ */
+export class AssistantUsageLimitError extends ApiError {
+  public readonly code = ASSISTANT_USAGE_LIMIT_ERROR;
+
+  constructor(period: 'daily'|'monthly') {
+    super(
+      period === 'daily' ?
+        "This site has reached its daily limit for the AI Assistant. Please try again tomorrow." :
+        "This site has reached its monthly limit for the AI Assistant. Please try again next month.",
+      429
+    );
+  }
+}
+
+const groupByColumns: Record<AssistantUsageGroupBy, string> = {
+  org: 'au.org_id',
+  user: 'au.user_id',
+  doc: 'au.doc_id',
+};
+
+/**
+ * Records the tokens used by each assistant completion in the home DB, with the org, user and
+ * document it was for, and answers questions about usage over time.
+ *
+ * The table isn't part of the home DB schema managed by migrations, so it's created on first use.
+ * Each completion is one row, which keeps writes simple; reads aggregate over time ranges.
+ */
+export class AssistantUsage {
+  private _ready?: Promise<void>;
+
+  public constructor(private readonly _homeDb: HomeDBManager) {}
+
+  public async recordUsage(entry: AssistantUsageEntry): Promise<void> {
+    await this._prepare();
+    await this._homeDb.connection.createQueryBuilder()
+      .insert()
+      .into('assistant_usage')
+      .values({
+        created_at_ms: Date.now(),
+        org_id: entry.orgId,
+        user_id: entry.userId,
+        doc_id: entry.docId,
+        model: entry.model,
+        prompt_tokens: entry.promptTokens,
+        completion_tokens: entry.completionTokens,
+      })
+      .execute();
+  }
+
+  /**
+   * Throws AssistantUsageLimitError if the org has already used all the tokens `limits` allow.
+   */
+  public async checkLimits(orgid: number, limits: AssistantUsageLimits): Promise<void> {
+    const {dailyTokens, monthlyTokens} = limits;
+    const now = new Date();
+    if (dailyTokens !== undefined) {
+      const startMs = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+      if (await this.getTotalTokens({orgid, startMs}) >= dailyTokens) {
+        throw new AssistantUsageLimitError('daily');
+      }
+    }
+    if (monthlyTokens !== undefined) {
+      const startMs = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+      if (await this.getTotalTokens({orgid, startMs}) >= monthlyTokens) {
+        throw new AssistantUsageLimitError('monthly');
+      }
+    }
+  }
+
+  /**
+   * Returns the total number of tokens (prompt and completion) used by completions matching
+   * `filter`.
+   */
+  public async getTotalTokens(filter: AssistantUsageFilter): Promise<number> {
+    const {records} = await this.getUsage(filter);
+    return records.reduce((sum, {fields}) => sum + fields.promptTokens + fields.completionTokens, 0);
+  }
+
+  /**
+   * Returns usage matching `filter`, summed per org, user or document if `groupBy` is set, or as
+   * a single record with id null otherwise.
+   */
+  public async getUsage(
+    filter: AssistantUsageFilter, groupBy?: AssistantUsageGroupBy
+  ): Promise<IAssistantUsageRecords> {
+    await this._prepare();
+    const {orgid, userid, docid, startMs, endMs} = filter;
+    const groupByColumn = groupBy ? groupByColumns[groupBy] : null;
+    const raw = await this._homeDb.connection.createQueryBuilder()
+      .select(groupByColumn ?? 'NULL', 'id')
+      .addSelect('SUM(au.prompt_tokens)', 'promptTokens')
+      .addSelect('SUM(au.completion_tokens)', 'completionTokens')
+      .addSelect('COUNT(*)', 'requests')
+      .from('assistant_usage', 'au')
+      .where('1 = 1')
+      .chain(qb => {
+        if (isSet(orgid)) { qb = qb.andWhere('au.org_id = :orgid', {orgid}); }
+        if (isSet(userid)) { qb = qb.andWhere('au.user_id = :userid', {userid}); }
+        if (isSet(docid)) { qb = qb.andWhere('au.doc_id = :docid', {docid}); }
+        if (isSet(startMs)) { qb = qb.andWhere('au.created_at_ms >= :startMs', {startMs}); }
+        if (isSet(endMs)) { qb = qb.andWhere('au.created_at_ms < :endMs', {endMs}); }
+        if (groupByColumn) { qb = qb.groupBy(groupByColumn); }
+        return qb;
+      })
+      .getRawMany();
+    const records = raw
+      // Without grouping, SUM() yields a single row of nulls when nothing matches.
+      .filter(r => getNumber(r.requests) > 0)
+      .map(r => {
+        const fields: IAssistantUsageFields = {
+          promptTokens: getNumber(r.promptTokens),
+          completionTokens: getNumber(r.completionTokens),
+          requests: getNumber(r.requests),
+        };
+        return {id: r.id ?? null, fields};
+      });
+    return {records};
+  }
+
+  private _prepare() {
+    return this._ready ??= this._createTable().catch((e) => {
+      this._ready = undefined;
+      throw e;
+    });
+  }
+
+  // The column types here are understood by both SQLite and Postgres.
+  private async _createTable() {
+    const conn = this._homeDb.connection;
+    await conn.query(`
+      CREATE TABLE IF NOT EXISTS assistant_usage (
+        created_at_ms BIGINT NOT NULL,
+        org_id INTEGER,
+        user_id INTEGER,
+        doc_id VARCHAR(255),
+        model VARCHAR(255),
+        prompt_tokens INTEGER NOT NULL,
+        completion_tokens INTEGER NOT NULL
+      )
+    `);
+    await conn.query(`
+      CREATE INDEX IF NOT EXISTS assistant_usage_org_id_created_at_ms
+      ON assistant_usage (org_id, created_at_ms)
+    `);
+  }
+}
+
+function isSet(param: number|string|undefined): param is number|string {
+  return param != null;
+}
@@ -0,0 +1,90 @@
+import { HomeDBManager } from 'app/gen-server/lib/homedb/HomeDBManager';
+import { AuditEventChainHead, AuditEventChainStore } from 'app/server/lib/AuditEventChain';
+
+// Postgres returns BIGINT columns as strings.
+type PgNumber = number|string;
+function getNumber(value: PgNumber): number { return Number(value); }
+
+/**
+ * Keeps the last event of each chain of audit events in the home DB, so that chains carry on
+ * across restarts, and are shared by all servers (see app/server/lib/AuditEventChain.ts).
+ *
+ * The table isn't part of the home DB schema managed by migrations, so it's created on first use.
+ */
+export class AuditLogChains implements AuditEventChainStore {
+  private _ready?: Promise<void>;
+
+  public constructor(private readonly _homeDb: HomeDBManager) {}
+
+  public async getHead(scope: string): Promise<AuditEventChainHead|null> {
+    await this._prepare();
+    const raw = await this._homeDb.connection.createQueryBuilder()
+      .select('alc.chain_id', 'id')
+      .addSelect('alc.seq', 'seq')
+      .addSelect('alc.hash', 'hash')
+      .addSelect('alc.checkpoint_seq', 'checkpointSeq')
+      .addSelect('alc.checkpoint_at_ms', 'checkpointAtMs')
+      .from('audit_log_chains', 'alc')
+      .where('alc.scope = :scope', {scope})
+      .getRawOne();
+    return raw ? {
+      id: raw.id,
+      seq: getNumber(raw.seq),
+      hash: raw.hash,
+      checkpointSeq: getNumber(raw.checkpointSeq),
+      checkpointAtMs: getNumber(raw.checkpointAtMs),
+    } : null;
+  }
+
+  public async setHead(
+    scope: string, head: AuditEventChainHead, prev: AuditEventChainHead|null
+  ): Promise<boolean> {
+    await this._prepare();
+    const values = {
+      chain_id: head.id,
+      seq: head.seq,
+      hash: head.hash,
+      checkpoint_seq: head.checkpointSeq,
+      checkpoint_at_ms: head.checkpointAtMs,
+    };
+    if (prev) {
+      const result = await this._homeDb.connection.createQueryBuilder()
+        .update('audit_log_chains')
+        .set(values)
+        .where('scope = :scope AND chain_id = :id AND seq = :seq', {scope, id: prev.id, seq: prev.seq})
+        .execute();
+      return Boolean(result.affected);
+    }
+
+    // Another server may have started the chain first, in which case this insert is ignored.
+    await this._homeDb.connection.createQueryBuilder()
+      .insert()
+      .into('audit_log_chains')
+      .values({scope, ...values})
+      .orIgnore()
+      .execute();
+    const saved = await this.getHead(scope);
+    return saved?.id === head.id && saved.seq === head.seq;
+  }
+
+  private _prepare() {
+    return this._ready ??= this._createTable().catch((e) => {
+      this._ready = undefined;
+      throw e;
+    });
+  }
+
+  // The column types here are understood by both SQLite and Postgres.
+  private async _createTable() {
+    await this._homeDb.connection.query(`
+      CREATE TABLE IF NOT EXISTS audit_log_chains (
+        scope VARCHAR(255) PRIMARY KEY,
+        chain_id VARCHAR(255) NOT NULL,
+        seq BIGINT NOT NULL,
+        hash VARCHAR(64) NOT NULL,
+        checkpoint_seq BIGINT NOT NULL,
+        checkpoint_at_ms BIGINT NOT NULL
+      )
+    `);
+  }
+}
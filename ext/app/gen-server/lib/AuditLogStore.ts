@@ -0,0 +1,189 @@
+import { ApiError } from 'app/common/ApiError';
+import { HomeDBManager } from 'app/gen-server/lib/homedb/HomeDBManager';
+import { AuditEventChainLink } from 'app/server/lib/AuditEventChain';
+import { EnterpriseAuditEvent } from 'app/server/lib/EnterpriseAuditEvent';
+
+// Postgres returns BIGINT columns as strings.
+type PgNumber = number|string;
+function getNumber(value: PgNumber|null|undefined): number { return Number(value || 0); }
+
+export const Deps = {
+  DEFAULT_PAGE_SIZE: 100,
+  MAX_PAGE_SIZE: 1000,
+};
+
+// Columns that searches may filter on, besides timestamp_ms. Each has an index.
+const SEARCH_COLUMNS = ['user_id', 'action', 'org_id', 'doc_id'];
+
+export interface AuditLogFilter {
+  startMs?: number;         // Inclusive millisecond timestamp.
+  endMs?: number;           // Exclusive millisecond timestamp.
+  userid?: number;          // The user who acted.
+  action?: string;
+  orgid?: number;
+  docid?: string;
+}
+
+export interface AuditLogPage {
+  records: EnterpriseAuditEvent[];
+  /** Pass as `cursor` to get the next page, or null if this is the last one. */
+  nextCursor: string|null;
+}
+
+/**
+ * Keeps a copy of every audit event in the home DB, for installations without a SIEM to stream
+ * them to, and lets install admins search them.
+ *
+ * Events are only ever appended. The table isn't part of the home DB schema managed by
+ * migrations, so it's created on first use. Besides the whole event as JSON, the fields that can
+ * be searched on are kept in columns of their own.
+ */
+export class AuditLogStore {
+  private _ready?: Promise<void>;
+
+  public constructor(private readonly _homeDb: HomeDBManager) {}
+
+  public async appendEvent(event: EnterpriseAuditEvent): Promise<void> {
+    await this._prepare();
+    const {actor} = event;
+    await this._homeDb.connection.createQueryBuilder()
+      .insert()
+      .into('audit_log_events')
+      .values({
+        id: event.id,
+        timestamp_ms: Date.parse(event.timestamp),
+        action: event.action,
+        user_id: actor.type === 'user' ? actor.user.id : null,
+        org_id: event.context.site?.id ?? null,
+        doc_id: getDocId(event),
+        event: JSON.stringify(event),
+      })
+      .execute();
+  }
+
+  /**
+   * Returns events matching `filter`, newest first, a page at a time. Pages are at most
+   * `limit` events long; `cursor` is the `nextCursor` of the previous page.
+   */
+  public async searchEvents(
+    filter: AuditLogFilter, options: {limit?: number, cursor?: string} = {}
+  ): Promise<AuditLogPage> {
+    await this._prepare();
+    const {startMs, endMs, userid, action, orgid, docid} = filter;
+    const limit = Math.min(Math.max(options.limit ?? Deps.DEFAULT_PAGE_SIZE, 1), Deps.MAX_PAGE_SIZE);
+    const after = options.cursor !== undefined ? parseCursor(options.cursor) : undefined;
+    const raw = await this._homeDb.connection.createQueryBuilder()
+      .select('ale.id', 'id')
+      .addSelect('ale.timestamp_ms', 'timestampMs')
+      .addSelect('ale.event', 'event')
+      .from('audit_log_events', 'ale')
+      .where('1 = 1')
+      .chain(qb => {
+        if (isSet(startMs)) { qb = qb.andWhere('ale.timestamp_ms >= :startMs', {startMs}); }
+        if (isSet(endMs)) { qb = qb.andWhere('ale.timestamp_ms < :endMs', {endMs}); }
+        if (isSet(userid)) { qb = qb.andWhere('ale.user_id = :userid', {userid}); }
+        if (isSet(action)) { qb = qb.andWhere('ale.action = :action', {action}); }
+        if (isSet(orgid)) { qb = qb.andWhere('ale.org_id = :orgid', {orgid}); }
+        if (isSet(docid)) { qb = qb.andWhere('ale.doc_id = :docid', {docid}); }
+        if (after) {
+          qb = qb.andWhere(
+            '(ale.timestamp_ms < :afterMs OR (ale.timestamp_ms = :afterMs AND ale.id < :afterId))',
+            {afterMs: after.timestampMs, afterId: after.id}
+          );
+        }
+        return qb;
+      })
+      .orderBy('ale.timestamp_ms', 'DESC')
+      .addOrderBy('ale.id', 'DESC')
+      // One more than asked for, to tell if there's another page.
+      .limit(limit + 1)
+      .getRawMany();
+    const rows = raw.slice(0, limit);
+    const last = rows[rows.length - 1];
+    return {
+      records: rows.map(r => JSON.parse(r.event)),
+      nextCursor: raw.length > limit ? `${getNumber(last.timestampMs)}:${last.id}` : null,
+    };
+  }
+
+  private _prepare() {
+    return this._ready ??= this._createTable().catch((e) => {
+      this._ready = undefined;
+      throw e;
+    });
+  }
+
+  // The column types here are understood by both SQLite and Postgres.
+  private async _createTable() {
+    await this._homeDb.connection.query(`
+      CREATE TABLE IF NOT EXISTS audit_log_events (
+        id VARCHAR(255) PRIMARY KEY,
+        timestamp_ms BIGINT NOT NULL,
+        action VARCHAR(255) NOT NULL,
+        user_id INTEGER,
+        org_id INTEGER,
+        doc_id VARCHAR(255),
+        event TEXT NOT NULL
+      )
+    `);
+    await this._homeDb.connection.query(`
+      CREATE INDEX IF NOT EXISTS audit_log_events_timestamp_ms
+      ON audit_log_events (timestamp_ms, id)
+    `);
+    // Searches filtered on a column get their events in order, like the index above.
+    for (const column of SEARCH_COLUMNS) {
+      await this._homeDb.connection.query(`
+        CREATE INDEX IF NOT EXISTS audit_log_events_${column}_timestamp_ms
+        ON audit_log_events (${column}, timestamp_ms, id)
+      `);
+    }
+  }
+}
+
+/**
+ * The columns of audit log CSV exports, as given for each event by `getAuditEventCsvRow()`.
+ * The `chain` column holds the event's place in its chain as JSON; to check chains with
+ * auditLogVerify, export events as NDJSON instead, since hashes cover the whole event.
+ */
+export const AUDIT_EVENT_CSV_COLUMNS = [
+  'id', 'timestamp', 'action', 'actor_type', 'user_id', 'user_email', 'org_id', 'doc_id',
+  'ip_address', 'details', 'chain',
+];
+
+export function getAuditEventCsvRow(
+  event: EnterpriseAuditEvent & {chain?: AuditEventChainLink}
+): (string|number|null)[] {
+  const {actor, context, chain} = event;
+  const user = actor.type === 'user' ? actor.user : undefined;
+  return [
+    event.id,
+    event.timestamp,
+    event.action,
+    actor.type,
+    user?.id ?? null,
+    user?.email ?? null,
+    context.site?.id ?? null,
+    getDocId(event),
+    context.ip_address ?? null,
+    event.details !== undefined ? JSON.stringify(event.details) : null,
+    chain ? JSON.stringify(chain) : null,
+  ];
+}
+
+function isSet(param: number|string|undefined): param is number|string {
+  return param != null;
+}
+
+// Events about documents name them in their details.
+function getDocId({details}: EnterpriseAuditEvent): string|null {
+  const docId = (details as {document?: {id?: unknown}}|undefined)?.document?.id;
+  return typeof docId === 'string' ? docId : null;
+}
+
+function parseCursor(cursor: string): {timestampMs: number, id: string} {
+  const match = /^(\d+):(.+)$/.exec(cursor);
+  if (!match) {
+    throw new ApiError(`Invalid cursor: ${cursor}`, 400);
+  }
+  return {timestampMs: Number(match[1]), id: match[2]};
+}
@@ -1,5 +1,7 @@
 import {
   AdminControlsAPI,
+  AssistantUsageGroupBy,
+  IAssistantUsageRecords,
   IDocFields, IDocRecords,
   IOrgFields, IOrgRecords,
   IRecord,
@@ -8,11 +10,14 @@ import {
   ResourceAccessInfo
 } from 'app/common/AdminControlsAPI';
 import { ApiError } from 'app/common/ApiError';
+import { AssistantPolicy } from 'app/common/AssistantAPI';
 import { countIf } from 'app/common/gutil';
 import { GUEST } from 'app/common/roles';
 import * as roles from 'app/common/roles';
 import { PermissionData } from 'app/common/UserAPI';
 import { AclRule } from 'app/gen-server/entity/AclRule';
+import { AssistantPolicies } from 'app/gen-server/lib/AssistantPolicies';
+import { AssistantUsage } from 'app/gen-server/lib/AssistantUsage';
 import { Document } from 'app/gen-server/entity/Document';
 import { Organization } from 'app/gen-server/entity/Organization';
 import { User } from 'app/gen-server/entity/User';
@@ -39,6 +44,9 @@ interface ResourceQueryResults {
 }
 
 export class HomeDBAdmin implements AdminControlsAPI {
+  private readonly _assistantUsage = new AssistantUsage(this._homeDb);
+  private readonly _assistantPolicies = new AssistantPolicies(this._homeDb);
+
   public constructor(
     private readonly _homeDb: HomeDBManager,
     private readonly _gristServer: GristServer,
@@ -302,6 +310,24 @@ export class HomeDBAdmin implements AdminControlsAPI {
   public adminGetWorkspace(wsid: number) { return getFirstRecord('Workspace', this.adminGetWorkspaces({wsid})); }
   public adminGetDoc(docid: string) { return getFirstRecord('Document', this.adminGetDocs({docid})); }
 
+  public async adminGetAssistantUsage(options: {
+    orgid?: number, userid?: number, docid?: string, start?: number, end?: number,
+    groupBy?: AssistantUsageGroupBy,
+  }): Promise<IAssistantUsageRecords> {
+    const {orgid, userid, docid, start, end, groupBy} = options;
+    return this._assistantUsage.getUsage({orgid, userid, docid, startMs: start, endMs: end}, groupBy);
+  }
+
+  public async adminGetAssistantPolicy(options: {orgid?: number}): Promise<AssistantPolicy> {
+    return this._assistantPolicies.getPolicy(await this._getPolicyOrgId(options.orgid));
+  }
+
+  public async adminSetAssistantPolicy(
+    options: {orgid?: number}, policy: AssistantPolicy
+  ): Promise<AssistantPolicy> {
+    return this._assistantPolicies.setPolicy(await this._getPolicyOrgId(options.orgid), policy);
+  }
+
   // Delete the user, which means:
   // - Remove them from every org they have access to, reassigning owned resources to newOwnerId.
   // - Delete their personal org.
@@ -353,6 +379,13 @@ export class HomeDBAdmin implements AdminControlsAPI {
     return deletedUserInfo;
   }
 
+  // Returns the id of the org an assistant policy is for, after checking that the org exists,
+  // or null for the install-level policy.
+  private async _getPolicyOrgId(orgid?: number): Promise<number|null> {
+    if (!isSet(orgid)) { return null; }
+    return (await this.adminGetOrg(orgid)).id;
+  }
+
   // Expects a query that includes `acl_rules`. It is very specific to the particular
   // few queries that use this helper.
   // In particular, it adds .having() clause, so the outer query must use .groupBy().
@@ -334,35 +334,16 @@ export class NotifierTools implements INotifierTools {
   public async docNotification(
     event: DocNotificationEvent, userId: number, templateData: DocNotificationTemplateBase
   ) {
-    const user = await this._dbManager.getFullUser(userId);
-
-    // We are only sending doc notifications to users who logged in at least once.
-    if (!user.firstLoginAt) {
-      log.debug(`notifications: skipping docNotification for user ${userId} who has not logged in`);
-      return { label: `skipped docNotification for user ${userId}` };
-    }
+    return this._docNotification(event, userId, templateData);
+  }
 
-    const personalizations = [{
-      to: [this._asSendGridAddress(user)],
-      dynamic_template_data: templateData
-    }];
-    const mail: SendGridMail = {
-      from: this._options.address.docNotificationsFrom,
-      reply_to: this._options.address.docNotificationsReplyTo,
-      personalizations,
-    };
-    // We'll send emails with headers like this:
-    //   From: "MyCompany <notifications@example.com>" -- when multiple authors
-    //   From: "Bob (via Grist) <notifications@example.com>" -- when a single author
-    //   Reply-To: "MyCompany <no-reply@example.com>".
-    if (templateData.senderAuthorName) {
-      mail.from = {...mail.from, name: `${templateData.senderAuthorName} (via Grist)`};
-    }
-    return {
-      logging: [async () => { log.debug(`notifications: sending docNotification`); }],
-      content: mail,
-      label: `${event} for user ${userId}`,
-    };
+  /**
+   * Prepares an email with the results of a scheduled assistant report. It's sent like a
+   * document notification, but isn't one of the events of INotifier (see
+   * AssistantReportNotifier).
+   */
+  public async scheduledReport(userId: number, templateData: DocNotificationTemplateBase) {
+    return this._docNotification('scheduledReport', userId, templateData);
   }
 
   /**
@@ -466,6 +447,40 @@ export class NotifierTools implements INotifierTools {
     };
   }
 
+  private async _docNotification(
+    event: string, userId: number, templateData: DocNotificationTemplateBase
+  ): Promise<Mailer<SendGridMail>> {
+    const user = await this._dbManager.getFullUser(userId);
+
+    // We are only sending doc notifications to users who logged in at least once.
+    if (!user.firstLoginAt) {
+      log.debug(`notifications: skipping ${event} for user ${userId} who has not logged in`);
+      return { label: `skipped ${event} for user ${userId}` };
+    }
+
+    const personalizations = [{
+      to: [this._asSendGridAddress(user)],
+      dynamic_template_data: templateData
+    }];
+    const mail: SendGridMail = {
+      from: this._options.address.docNotificationsFrom,
+      reply_to: this._options.address.docNotificationsReplyTo,
+      personalizations,
+    };
+    // We'll send emails with headers like this:
+    //   From: "MyCompany <notifications@example.com>" -- when multiple authors
+    //   From: "Bob (via Grist) <notifications@example.com>" -- when a single author
+    //   Reply-To: "MyCompany <no-reply@example.com>".
+    if (templateData.senderAuthorName) {
+      mail.from = {...mail.from, name: `${templateData.senderAuthorName} (via Grist)`};
+    }
+    return {
+      logging: [async () => { log.debug(`notifications: sending ${event}`); }],
+      content: mail,
+      label: `${event} for user ${userId}`,
+    };
+  }
+
   private async _makeInviteUrl(resource: Organization|Workspace|Document) {
     const url = new URL(await this._gristServer.getResourceUrl(resource));
     url.searchParams.set('utm_id', `invite-${getResourceName(resource)}`);
@@ -504,7 +519,22 @@ function getResourceName(resource: Organization|Workspace|Document): ResourceNam
   }
 }
 
-export class NotifierBase implements INotifier {
+/**
+ * Implemented by notifiers that can email the results of scheduled assistant reports. These
+ * emails aren't among the events of INotifier, so notifiers that support them say so by
+ * implementing this interface.
+ */
+export interface AssistantReportNotifier {
+  scheduledReport(userId: number, templateData: DocNotificationTemplateBase): Promise<void>;
+}
+
+export function isAssistantReportNotifier(
+  notifier: INotifier
+): notifier is INotifier & AssistantReportNotifier {
+  return typeof (notifier as Partial<AssistantReportNotifier>).scheduledReport === 'function';
+}
+
+export class NotifierBase implements INotifier, AssistantReportNotifier {
   public addUser = this._wrapEvent('addUser');
   public addBillingManager = this._wrapEvent('addBillingManager');
   public firstLogin = this._wrapEvent('firstLogin');
@@ -517,7 +547,7 @@ export class NotifierBase implements INotifier {
   public twoFactorStatusChanged = this._wrapEvent('twoFactorStatusChanged');
   public docNotification = this._wrapEvent('docNotification');
 
-  private _tool: INotifierTools;
+  private _tool: NotifierTools & INotifierTools;
 
   public constructor(config: NotifierConfig) {
     this._tool = new NotifierTools(config.gristServer,
@@ -534,6 +564,15 @@ export class NotifierBase implements INotifier {
     // nothing to do, by default.
   }
 
+  public async scheduledReport(userId: number, templateData: DocNotificationTemplateBase) {
+    const mailer = await this._tool.scheduledReport(userId, templateData);
+    await this.applyScheduledReport(mailer);
+  }
+
+  public async applyScheduledReport(_mail: Mailer<SendGridMail>) {
+    // nothing to do, by default.
+  }
+
   private _wrapEvent<Name extends NotifierEventName & keyof INotifierTools>(eventName: Name): INotifier[Name] {
     return (async (...args: any[]) => {
       const mailer = await this._tool[eventName]?.(...args);
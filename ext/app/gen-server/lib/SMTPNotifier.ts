@@ -60,7 +60,20 @@ export class SMTPNotifier extends NotifierBase {
       return;
     }
 
-    const {subjectTemplate, txtTemplate, htmlTemplate} = this._templates[templateName];
+    await this._sendMail(eventName, this._templates[templateName], mail);
+  }
+
+  public async applyScheduledReport(mail: Mailer<SendGridMail>) {
+    if (! await this._configurationWorks) {
+      return;
+    }
+
+    await this._sendMail('scheduledReport', this._templates.scheduledReport, mail);
+  }
+
+  private async _sendMail(eventName: string, templates: CompiledTemplates<DynamicTemplateData>,
+                          mail: Mailer<SendGridMail>) {
+    const {subjectTemplate, txtTemplate, htmlTemplate} = templates;
     if (mail.content) {
       for(const personalization of mail.content.personalizations) {
         const {to, dynamic_template_data} = personalization;
@@ -105,15 +118,15 @@ export class SMTPNotifier extends NotifierBase {
     };
     this._templates = {};
     for(const templateName of TemplateName.values) {
-      const subjectTemplate = handlebars.compile(subjectTemplates[templateName]);
-      const txtTemplate = handlebars.compile(
-        fse.readFileSync(`${templatePath}/${templateName}.txt`, 'utf8')
-      );
-      const htmlTemplate = handlebars.compile(
-        fse.readFileSync(`${templatePath}/${templateName}.html`, 'utf8')
+      this._templates[templateName] = compileTemplates(
+        templatePath, templateName, subjectTemplates[templateName]
       );
-      this._templates[templateName] = {subjectTemplate, txtTemplate, htmlTemplate};
     }
+    // Scheduled assistant reports aren't one of the notifier's events, so their template isn't
+    // among the template names (see AssistantReportNotifier).
+    this._templates.scheduledReport = compileTemplates(
+      templatePath, 'scheduledReport', "{{{ reportTitle }}} ({{{ docName }}})"
+    );
   }
 
   private async _initTransport(smtpConfig: nodemailer.TransportOptions) {
@@ -130,6 +143,16 @@ export class SMTPNotifier extends NotifierBase {
   }
 }
 
+function compileTemplates(
+  templatePath: string, templateName: string, subject: string
+): CompiledTemplates<DynamicTemplateData> {
+  return {
+    subjectTemplate: handlebars.compile(subject),
+    txtTemplate: handlebars.compile(fse.readFileSync(`${templatePath}/${templateName}.txt`, 'utf8')),
+    htmlTemplate: handlebars.compile(fse.readFileSync(`${templatePath}/${templateName}.html`, 'utf8')),
+  };
+}
+
 function gristPersonToAddress(person: SendGridAddress) {
   return { name: person.name, address: person.email};
 }
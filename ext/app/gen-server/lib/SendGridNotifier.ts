@@ -30,7 +30,7 @@ import {appSettings} from 'app/server/lib/AppSettings';
 import {GristServer} from 'app/server/lib/GristServer';
 import {INotifier} from 'app/server/lib/INotifier';
 import log from 'app/server/lib/log';
-import { Mailer, NotifierTools } from 'app/gen-server/lib/NotifierTools';
+import { AssistantReportNotifier, Mailer, NotifierTools } from 'app/gen-server/lib/NotifierTools';
 import fetch from 'node-fetch';
 
 export const SENDGRID_API_CONFIG = {
@@ -142,20 +142,28 @@ export class UnsubscribeNotifier {
 }
 
 
+/**
+ * SendGrid settings, as found in config.json. Scheduled assistant reports aren't among the
+ * notifier's events, so the id of their template is an extra, optional setting.
+ */
+export interface SendGridNotifierConfig extends SendGridConfig {
+  template: SendGridConfig['template'] & {scheduledReport?: string};
+}
+
 /**
  * Manager for sending notifications to users about resources they've been invited to.
  * Has access to the database so that it can look up everything it needs to know about
  * for describing users, and it knows the home url so that it can construct links for
  * resources.
  */
-export class SendGridNotifier extends UnsubscribeNotifier implements INotifier {
+export class SendGridNotifier extends UnsubscribeNotifier implements INotifier, AssistantReportNotifier {
   private _gristConfig: GristLoadConfig;
   private _tools: NotifierTools;
 
   public constructor(
     protected _dbManager: HomeDBManager,
     _gristServer: GristServer,
-    protected _sendgridConfig: SendGridConfig,
+    protected _sendgridConfig: SendGridNotifierConfig,
   ) {
     super(_dbManager, _sendgridConfig);
     this._gristConfig = _gristServer.getGristConfig();
@@ -361,6 +369,19 @@ export class SendGridNotifier extends UnsubscribeNotifier implements INotifier {
     await this.applyTemplate(templateId, mail);
   }
 
+  /**
+   * Emails the results of a scheduled assistant report (see AssistantReportNotifier).
+   */
+  public async scheduledReport(userId: number, templateData: DocNotificationTemplateBase) {
+    const templateId = this._sendgridConfig.template.scheduledReport;
+    if (!templateId) {
+      log.error('skipped notification with no template for event: scheduledReport');
+      return;
+    }
+    const mail = await this._tools.scheduledReport(userId, templateData);
+    await this.applyTemplate(templateId, mail);
+  }
+
   private _getTemplateId(type: keyof SendGridConfig['template']) {
     const templateId = this._sendgridConfig.template[type];
       if (!templateId) {
@@ -29,4 +29,8 @@ export class TestNotifier extends NotifierBase {
   public async applyNotification(eventName: keyof INotifier, mail: Mailer<SendGridMail>) {
     console.log(JSON.stringify({notification: 'test', eventName, mail}));
   }
+
+  public async applyScheduledReport(mail: Mailer<SendGridMail>) {
+    console.log(JSON.stringify({notification: 'test', eventName: 'scheduledReport', mail}));
+  }
 }
@@ -1,5 +1,5 @@
 import {HomeDBManager} from 'app/gen-server/lib/homedb/HomeDBManager';
-import {SendGridNotifier} from 'app/gen-server/lib/SendGridNotifier';
+import {SendGridNotifier, SendGridNotifierConfig} from 'app/gen-server/lib/SendGridNotifier';
 import {SendGridConfig} from 'app/gen-server/lib/NotifierTypes';
 import {GristServer} from 'app/server/lib/GristServer';
 
@@ -58,7 +58,7 @@ export function configureSendGridNotifier(dbManager: HomeDBManager, gristServer:
    * take advantage of ts-interface-checker to make sure config.json has the right shape
    * when read at runtime, instead of unsafely asserting here.
    */
-  const sendgridConfig = settings?.sendgrid as SendGridConfig|undefined;
+  const sendgridConfig = settings?.sendgrid as SendGridNotifierConfig|undefined;
   if (!sendgridConfig) { return undefined; }
 
   return new SendGridNotifier(dbManager, gristServer, sendgridConfig);
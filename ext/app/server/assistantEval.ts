@@ -0,0 +1,101 @@
+/**
+ * Runs a suite of scripted conversations with the assistant against a Grist
+ * server, and reports which scenarios pass. See app/server/lib/assistantEval.ts
+ * for the format of scenarios.
+ *
+ * Provider responses are replayed from recordings by a local stub endpoint,
+ * so no provider is called. With --record, requests are passed on to a real
+ * provider endpoint instead, and recordings are (re)written.
+ *
+ * The server under test must be started with
+ * ASSISTANT_CHAT_COMPLETION_ENDPOINT=http://localhost:<stub-port> and
+ * ASSISTANT_STREAMING=true. When recording, it also needs the provider's API
+ * key, which the stub passes on.
+ *
+ * Example:
+ *   node _build/ext/app/server/assistantEval.js ext/test/assistant-eval \
+ *     --server http://localhost:8484 --api-key <key> --workspace 2
+ */
+import {
+  ProviderStub,
+  readScenarios,
+  runScenario,
+} from "app/server/lib/assistantEval";
+import { Command } from "commander";
+
+const DEFAULT_STUB_PORT = 3999;
+
+async function main() {
+  const program = new Command();
+  program
+    .name("assistant-eval")
+    .argument("<suite-dir>", "directory of *.scenario.json files")
+    .requiredOption("--server <url>", "home URL of the Grist server")
+    .requiredOption("--api-key <key>", "API key of the user to run as")
+    .requiredOption(
+      "--workspace <id>",
+      "workspace for scratch documents",
+      (value: string) => parseInt(value, 10)
+    )
+    .option(
+      "--stub-port <port>",
+      "port of the stub completion endpoint",
+      (value: string) => parseInt(value, 10),
+      DEFAULT_STUB_PORT
+    )
+    .option(
+      "--record <endpoint>",
+      "record responses from this provider endpoint"
+    )
+    .option("--only <name>", "only run the scenario with this name")
+    .option("--keep-docs", "don't delete scratch documents")
+    .action(async (suiteDir: string, options) => {
+      const scenarios = (await readScenarios(suiteDir)).filter(
+        ({ scenario }) => !options.only || scenario.name === options.only
+      );
+      const stub = new ProviderStub();
+      await stub.listen(options.stubPort);
+      let failed = 0;
+      try {
+        for (const { scenario, file } of scenarios) {
+          const result = await runScenario(
+            {
+              homeUrl: options.server,
+              apiKey: options.apiKey,
+              workspaceId: options.workspace,
+              keepDocs: options.keepDocs,
+            },
+            stub,
+            { scenario, file, upstream: options.record }
+          ).catch((e) => ({
+            name: scenario.name,
+            passed: false,
+            failures: [`Scenario couldn't run: ${e.message}`],
+          }));
+          console.log(`${result.passed ? "PASS" : "FAIL"} ${result.name}`);
+          for (const failure of result.failures) {
+            console.log(`  ${failure}`);
+          }
+          if (!result.passed) {
+            failed += 1;
+          }
+        }
+      } finally {
+        await stub.close();
+      }
+
+      console.log(
+        `${scenarios.length - failed} passed, ${failed} failed, ` +
+          `${scenarios.length} total`
+      );
+      process.exitCode = failed > 0 ? 1 : 0;
+    });
+  await program.parseAsync(process.argv);
+}
+
+if (require.main === module) {
+  main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
+}
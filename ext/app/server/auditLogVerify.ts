@@ -0,0 +1,88 @@
+/**
+ * Checks exported audit events for signs of tampering: events that were
+ * changed, events missing from the log, and checkpoints not signed by the
+ * installation's audit log signing key. See app/server/lib/AuditEventChain.ts.
+ *
+ * Files may hold a JSON array of events, a page of events from
+ * /api/admin-controls/audit-log/events, or newline-delimited JSON events, as
+ * exported with /api/admin-controls/audit-log/events?format=ndjson.
+ * Events from several files are checked together, in any order.
+ *
+ * Example:
+ *   node _build/ext/app/server/auditLogVerify.js audit-log.ndjson \
+ *     --public-key audit-log-signing.pub.pem
+ */
+import { verifyAuditEventChains } from "app/server/lib/AuditEventChain";
+import { Command } from "commander";
+import * as crypto from "crypto";
+import * as fse from "fs-extra";
+
+async function main() {
+  const program = new Command();
+  program
+    .name("audit-log-verify")
+    .argument("<files...>", "files of exported audit events")
+    .option(
+      "--public-key <file>",
+      "PEM file of the key checkpoints are signed with (a private key works too)"
+    )
+    .option("--json", "print the results as JSON")
+    .action(async (files: string[], options) => {
+      const events: unknown[] = [];
+      for (const file of files) {
+        events.push(...parseEvents(await fse.readFile(file, "utf8")));
+      }
+      const publicKey = options.publicKey
+        ? crypto.createPublicKey(await fse.readFile(options.publicKey, "utf8"))
+        : undefined;
+      const result = verifyAuditEventChains(events, publicKey);
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        for (const chain of result.chains) {
+          console.log(
+            `Chain ${chain.id}: events ${chain.firstSeq} to ${chain.lastSeq} ` +
+              `(${chain.events} present, ${chain.checkpoints} valid checkpoints, ` +
+              `${chain.unsignedEvents} after the last one)`
+          );
+        }
+        for (const { chainId, seq, eventId, problem } of result.problems) {
+          const where = chainId ? `chain ${chainId}, event ${seq}` : "event";
+          console.log(`PROBLEM ${where} (${eventId ?? "no id"}): ${problem}`);
+        }
+        if (!publicKey) {
+          console.log("Checkpoint signatures were not checked (no --public-key).");
+        }
+        console.log(result.ok ? "OK" : `${result.problems.length} problems`);
+      }
+      process.exitCode = result.ok ? 0 : 1;
+    });
+  await program.parseAsync(process.argv);
+}
+
+function parseEvents(text: string): unknown[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    // Not a single JSON value, so newline-delimited JSON.
+    return text
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line));
+  }
+
+  if (Array.isArray(parsed)) {
+    return parsed;
+  }
+
+  const { records } = parsed as { records?: unknown };
+  return Array.isArray(records) ? records : [parsed];
+}
+
+if (require.main === module) {
+  main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,633 @@
+import { AssistanceMessage } from "app/common/Assistance";
+import { safeJsonParse } from "app/common/gutil";
+import { OpenAITool } from "app/server/lib/IAssistant";
+import { readServerSentEvents } from "app/server/lib/serverSentEvents";
+import { StringDecoder } from "string_decoder";
+import { v4 as uuidv4 } from "uuid";
+
+export const ASSISTANT_PROVIDERS = ["openai", "anthropic", "ollama"] as const;
+
+export type AssistantProviderName = (typeof ASSISTANT_PROVIDERS)[number];
+
+export function isAssistantProviderName(
+  name: string
+): name is AssistantProviderName {
+  return ASSISTANT_PROVIDERS.includes(name as AssistantProviderName);
+}
+
+/**
+ * A chat completion request, in the provider-neutral form used by the
+ * assistant's tool loop.
+ *
+ * Messages and tools use the OpenAI chat completion format, which is what
+ * the assistant keeps in its conversation state. Adapters translate them to
+ * and from the format of each provider.
+ */
+export interface CompletionRequest {
+  messages: AssistanceMessage[];
+  tools: OpenAITool[];
+  model: string | null;
+  user: string;
+  maxTokens?: number;
+  /** A JSON schema the reply must conform to, if structured output is on. */
+  responseSchema?: object;
+  stream: boolean;
+}
+
+/**
+ * The outcome of a completion request, as translated by an adapter.
+ *
+ * On success, `message` is an OpenAI-style assistant message, suitable for
+ * appending to the conversation state as is.
+ */
+export interface CompletionResult {
+  message?: CompletionMessage;
+  finishReason?: "stop" | "tool_calls" | "length" | null;
+  usage?: CompletionUsage;
+  error?: CompletionError;
+}
+
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionMessage {
+  role: "assistant";
+  content: string | null;
+  refusal: string | null;
+  tool_calls?: CompletionToolCall[];
+}
+
+export interface CompletionToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+export interface CompletionError {
+  /**
+   * Provider errors the assistant handles specially, using the OpenAI error
+   * codes. Adapters map equivalent errors from other providers to these.
+   */
+  code?: "context_length_exceeded" | "insufficient_quota";
+  message: string;
+}
+
+/**
+ * Translates between the assistant and the API of an LLM provider.
+ */
+export interface ProviderAdapter {
+  readonly name: AssistantProviderName;
+  /** Null if there's no usual endpoint, and one must be configured. */
+  readonly defaultEndpoint: string | null;
+  readonly defaultModel: string | null;
+  readonly supportsStructuredOutput: boolean;
+
+  getHeaders(apiKey: string | undefined): Record<string, string>;
+  getBody(request: CompletionRequest): object;
+  /**
+   * Translates a non-streamed response. `body` is the parsed JSON body, or
+   * null if it wasn't valid JSON.
+   */
+  parseResponse(status: number, body: any): CompletionResult;
+  /**
+   * Reads a streamed response, passing text to `onContent` as it arrives.
+   */
+  readStream(
+    body: NodeJS.ReadableStream,
+    onContent: (content: string) => void
+  ): Promise<CompletionResult>;
+}
+
+export function createProviderAdapter(
+  name: AssistantProviderName
+): ProviderAdapter {
+  switch (name) {
+    case "openai": {
+      return new OpenAIProviderAdapter();
+    }
+    case "anthropic": {
+      return new AnthropicProviderAdapter();
+    }
+    case "ollama": {
+      return new OllamaProviderAdapter();
+    }
+  }
+}
+
+/**
+ * The OpenAI chat completion API, and any endpoint compatible with it
+ * (e.g. llama-cpp-python, OpenRouter).
+ */
+export class OpenAIProviderAdapter implements ProviderAdapter {
+  public readonly name = "openai";
+  public readonly defaultEndpoint =
+    "https://api.openai.com/v1/chat/completions";
+  public readonly defaultModel = "gpt-4o-2024-08-06";
+  public readonly supportsStructuredOutput = true;
+
+  public getHeaders(apiKey: string | undefined): Record<string, string> {
+    return apiKey ? { Authorization: `Bearer ${apiKey}`, "api-key": apiKey } : {};
+  }
+
+  public getBody(request: CompletionRequest) {
+    const { messages, tools, model, user, maxTokens, responseSchema, stream } =
+      request;
+    return {
+      messages,
+      temperature: 0,
+      ...(model ? { model } : undefined),
+      response_format: responseSchema
+        ? {
+            type: "json_schema",
+            json_schema: {
+              name: "response",
+              strict: true,
+              schema: responseSchema,
+            },
+          }
+        : undefined,
+      // An empty list of tools is rejected (e.g. if a policy allows none).
+      tools: tools.length > 0 ? tools : undefined,
+      user,
+      ...(maxTokens ? { max_tokens: maxTokens } : undefined),
+      ...(stream
+        ? { stream: true, stream_options: { include_usage: true } }
+        : undefined),
+    };
+  }
+
+  public parseResponse(status: number, body: any): CompletionResult {
+    if (body?.error) {
+      return { error: body.error };
+    }
+    const choice = body?.choices?.[0];
+    if (status !== 200 || !choice) {
+      return { error: { message: JSON.stringify(body) } };
+    }
+    const { content, refusal, tool_calls } = choice.message;
+    return {
+      message: { role: "assistant", content, refusal, tool_calls },
+      finishReason: choice.finish_reason,
+      usage: getOpenAIUsage(body.usage),
+    };
+  }
+
+  public async readStream(
+    body: NodeJS.ReadableStream,
+    onContent: (content: string) => void
+  ): Promise<CompletionResult> {
+    const message: CompletionMessage = {
+      role: "assistant",
+      content: null,
+      refusal: null,
+    };
+    let finishReason: CompletionResult["finishReason"] = null;
+    let usage: CompletionUsage | undefined;
+    for await (const data of readServerSentEvents(body)) {
+      if (data === "[DONE]") {
+        break;
+      }
+
+      const chunk = JSON.parse(data);
+      if (chunk.error) {
+        return { error: chunk.error };
+      }
+
+      // Usage is sent in a final chunk with no choices.
+      usage = getOpenAIUsage(chunk.usage) ?? usage;
+      const choice = chunk.choices?.[0];
+      if (!choice) {
+        continue;
+      }
+
+      const { content, refusal, tool_calls } = choice.delta ?? {};
+      if (content) {
+        message.content = (message.content ?? "") + content;
+        onContent(content);
+      }
+      if (refusal) {
+        message.refusal = (message.refusal ?? "") + refusal;
+      }
+      // Tool calls arrive in fragments, which are joined by index.
+      for (const { index, id, function: fn } of tool_calls ?? []) {
+        message.tool_calls ??= [];
+        const call = (message.tool_calls[index] ??= {
+          id,
+          type: "function",
+          function: { name: "", arguments: "" },
+        });
+        call.function.name += fn?.name ?? "";
+        call.function.arguments += fn?.arguments ?? "";
+      }
+      finishReason = choice.finish_reason ?? finishReason;
+    }
+    return { message, finishReason, usage };
+  }
+}
+
+/**
+ * The Anthropic Messages API.
+ *
+ * System messages are sent as the top-level `system` prompt, tool calls as
+ * `tool_use` content blocks, and tool results as `tool_result` blocks in a
+ * user message. Structured output isn't supported.
+ */
+export class AnthropicProviderAdapter implements ProviderAdapter {
+  public readonly name = "anthropic";
+  public readonly defaultEndpoint = "https://api.anthropic.com/v1/messages";
+  public readonly defaultModel = "claude-sonnet-4-20250514";
+  public readonly supportsStructuredOutput = false;
+
+  // The Messages API requires max_tokens, unlike chat completions.
+  private static readonly _DEFAULT_MAX_TOKENS = 4096;
+
+  public getHeaders(apiKey: string | undefined): Record<string, string> {
+    return {
+      ...(apiKey ? { "x-api-key": apiKey } : undefined),
+      "anthropic-version": "2023-06-01",
+    };
+  }
+
+  public getBody(request: CompletionRequest) {
+    const { messages, tools, model, user, maxTokens, stream } = request;
+    const system = messages
+      .filter((m) => m.role === "system")
+      .map((m) => m.content)
+      .join("\n\n");
+    return {
+      ...(model ? { model } : undefined),
+      ...(system ? { system } : undefined),
+      messages: this._getMessages(messages),
+      tools: tools.map(({ function: fn }) => ({
+        name: fn.name,
+        description: fn.description,
+        input_schema: fn.parameters ?? { type: "object", properties: {} },
+      })),
+      temperature: 0,
+      max_tokens: maxTokens ?? AnthropicProviderAdapter._DEFAULT_MAX_TOKENS,
+      metadata: { user_id: user },
+      ...(stream ? { stream: true } : undefined),
+    };
+  }
+
+  public parseResponse(status: number, body: any): CompletionResult {
+    if (body?.type === "error" || status !== 200) {
+      return { error: this._getError(body) };
+    }
+    const message: CompletionMessage = {
+      role: "assistant",
+      content: null,
+      refusal: null,
+    };
+    for (const block of body.content ?? []) {
+      if (block.type === "text") {
+        message.content = (message.content ?? "") + block.text;
+      } else if (block.type === "tool_use") {
+        message.tool_calls ??= [];
+        message.tool_calls.push({
+          id: block.id,
+          type: "function",
+          function: { name: block.name, arguments: JSON.stringify(block.input) },
+        });
+      }
+    }
+    return {
+      message,
+      finishReason: this._getFinishReason(body.stop_reason),
+      usage: {
+        promptTokens: body.usage?.input_tokens ?? 0,
+        completionTokens: body.usage?.output_tokens ?? 0,
+      },
+    };
+  }
+
+  public async readStream(
+    body: NodeJS.ReadableStream,
+    onContent: (content: string) => void
+  ): Promise<CompletionResult> {
+    const message: CompletionMessage = {
+      role: "assistant",
+      content: null,
+      refusal: null,
+    };
+    // Content blocks by index. Tool input is streamed as partial JSON.
+    const toolCalls = new Map<number, CompletionToolCall>();
+    let stopReason: string | null = null;
+    const usage: CompletionUsage = { promptTokens: 0, completionTokens: 0 };
+    for await (const data of readServerSentEvents(body)) {
+      const event = JSON.parse(data);
+      switch (event.type) {
+        case "error": {
+          return { error: this._getError(event) };
+        }
+        case "message_start": {
+          usage.promptTokens = event.message?.usage?.input_tokens ?? 0;
+          break;
+        }
+        case "content_block_start": {
+          const block = event.content_block;
+          if (block.type === "tool_use") {
+            toolCalls.set(event.index, {
+              id: block.id,
+              type: "function",
+              function: { name: block.name, arguments: "" },
+            });
+          }
+          break;
+        }
+        case "content_block_delta": {
+          const { delta } = event;
+          if (delta.type === "text_delta") {
+            message.content = (message.content ?? "") + delta.text;
+            onContent(delta.text);
+          } else if (delta.type === "input_json_delta") {
+            const call = toolCalls.get(event.index);
+            if (call) {
+              call.function.arguments += delta.partial_json;
+            }
+          }
+          break;
+        }
+        case "message_delta": {
+          stopReason = event.delta?.stop_reason ?? stopReason;
+          usage.completionTokens =
+            event.usage?.output_tokens ?? usage.completionTokens;
+          break;
+        }
+      }
+    }
+    if (toolCalls.size > 0) {
+      message.tool_calls = [...toolCalls.values()].map((call) => {
+        // Tools without parameters stream no input at all.
+        call.function.arguments ||= "{}";
+        return call;
+      });
+    }
+    return {
+      message,
+      finishReason: this._getFinishReason(stopReason),
+      usage,
+    };
+  }
+
+  private _getMessages(messages: AssistanceMessage[]) {
+    const result: { role: "user" | "assistant"; content: any }[] = [];
+    for (const m of messages as OpenAIMessage[]) {
+      if (m.role === "system") {
+        continue;
+      } else if (m.role === "tool") {
+        const block = {
+          type: "tool_result",
+          tool_use_id: m.tool_call_id,
+          content: m.content ?? "",
+        };
+        // Results of parallel tool calls must all be in one user message.
+        const last = result[result.length - 1];
+        if (last?.role === "user" && Array.isArray(last.content)) {
+          last.content.push(block);
+        } else {
+          result.push({ role: "user", content: [block] });
+        }
+      } else if (m.role === "assistant" && m.tool_calls?.length) {
+        result.push({
+          role: "assistant",
+          content: [
+            ...(m.content ? [{ type: "text", text: m.content }] : []),
+            ...m.tool_calls.map((call) => ({
+              type: "tool_use",
+              id: call.id,
+              name: call.function.name,
+              input: safeJsonParse(call.function.arguments, {}),
+            })),
+          ],
+        });
+      } else {
+        result.push({
+          role: m.role === "assistant" ? "assistant" : "user",
+          content: m.content ?? "",
+        });
+      }
+    }
+    return result;
+  }
+
+  private _getFinishReason(
+    stopReason: string | null
+  ): CompletionResult["finishReason"] {
+    switch (stopReason) {
+      case "tool_use": {
+        return "tool_calls";
+      }
+      case "max_tokens": {
+        return "length";
+      }
+      default: {
+        return "stop";
+      }
+    }
+  }
+
+  private _getError(body: any): CompletionError {
+    const message: string = body?.error?.message ?? JSON.stringify(body);
+    if (/prompt is too long/i.test(message)) {
+      return { code: "context_length_exceeded", message };
+    } else if (/credit balance is too low/i.test(message)) {
+      return { code: "insufficient_quota", message };
+    } else {
+      return { message };
+    }
+  }
+}
+
+/**
+ * The native Ollama chat API (`/api/chat`).
+ *
+ * Ollama doesn't assign IDs to tool calls, so they are generated here, and
+ * streamed responses are newline-delimited JSON rather than server-sent
+ * events.
+ */
+export class OllamaProviderAdapter implements ProviderAdapter {
+  public readonly name = "ollama";
+  public readonly defaultEndpoint = null;
+  public readonly defaultModel = null;
+  public readonly supportsStructuredOutput = true;
+
+  public getHeaders(apiKey: string | undefined): Record<string, string> {
+    // Ollama itself is unauthenticated, but is often run behind a proxy.
+    return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+  }
+
+  public getBody(request: CompletionRequest) {
+    const { messages, tools, model, maxTokens, responseSchema, stream } =
+      request;
+    return {
+      ...(model ? { model } : undefined),
+      messages: this._getMessages(messages),
+      tools,
+      ...(responseSchema ? { format: responseSchema } : undefined),
+      options: {
+        temperature: 0,
+        ...(maxTokens ? { num_predict: maxTokens } : undefined),
+      },
+      stream,
+    };
+  }
+
+  public parseResponse(status: number, body: any): CompletionResult {
+    if (body?.error || status !== 200) {
+      return { error: this._getError(body) };
+    }
+    return {
+      ...this._getResult(body.message, body.done_reason),
+      usage: getOllamaUsage(body),
+    };
+  }
+
+  public async readStream(
+    body: NodeJS.ReadableStream,
+    onContent: (content: string) => void
+  ): Promise<CompletionResult> {
+    let content = "";
+    const toolCalls: any[] = [];
+    let doneReason: string | null = null;
+    let usage: CompletionUsage | undefined;
+    for await (const line of readJsonLines(body)) {
+      const chunk = JSON.parse(line);
+      if (chunk.error) {
+        return { error: this._getError(chunk) };
+      }
+
+      if (chunk.message?.content) {
+        content += chunk.message.content;
+        onContent(chunk.message.content);
+      }
+      toolCalls.push(...(chunk.message?.tool_calls ?? []));
+      if (chunk.done) {
+        doneReason = chunk.done_reason ?? null;
+        usage = getOllamaUsage(chunk);
+      }
+    }
+    return {
+      ...this._getResult({ content, tool_calls: toolCalls }, doneReason),
+      usage,
+    };
+  }
+
+  private _getMessages(messages: AssistanceMessage[]) {
+    const toolNames = new Map<string, string>();
+    return (messages as OpenAIMessage[]).map((m) => {
+      if (m.role === "assistant" && m.tool_calls?.length) {
+        return {
+          role: "assistant",
+          content: m.content ?? "",
+          tool_calls: m.tool_calls.map((call) => {
+            toolNames.set(call.id, call.function.name);
+            return {
+              function: {
+                name: call.function.name,
+                arguments: safeJsonParse(call.function.arguments, {}),
+              },
+            };
+          }),
+        };
+      } else if (m.role === "tool") {
+        return {
+          role: "tool",
+          content: m.content ?? "",
+          tool_name: toolNames.get(m.tool_call_id!),
+        };
+      } else {
+        return { role: m.role, content: m.content ?? "" };
+      }
+    });
+  }
+
+  private _getResult(
+    message: { content?: string; tool_calls?: any[] },
+    doneReason: string | null
+  ): CompletionResult {
+    const toolCalls: CompletionToolCall[] = (message.tool_calls ?? []).map(
+      (call) => ({
+        id: `call_${uuidv4()}`,
+        type: "function",
+        function: {
+          name: call.function.name,
+          arguments: JSON.stringify(call.function.arguments ?? {}),
+        },
+      })
+    );
+    return {
+      message: {
+        role: "assistant",
+        content: message.content || null,
+        refusal: null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : undefined),
+      },
+      finishReason:
+        toolCalls.length > 0
+          ? "tool_calls"
+          : doneReason === "length"
+          ? "length"
+          : "stop",
+    };
+  }
+
+  private _getError(body: any): CompletionError {
+    const message: string =
+      typeof body?.error === "string" ? body.error : JSON.stringify(body);
+    if (/context length|too long/i.test(message)) {
+      return { code: "context_length_exceeded", message };
+    } else {
+      return { message };
+    }
+  }
+}
+
+function getOpenAIUsage(usage: any): CompletionUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+
+  return {
+    promptTokens: usage.prompt_tokens ?? 0,
+    completionTokens: usage.completion_tokens ?? 0,
+  };
+}
+
+// Only the final response (or chunk) of a completion includes counts.
+function getOllamaUsage(body: any): CompletionUsage {
+  return {
+    promptTokens: body.prompt_eval_count ?? 0,
+    completionTokens: body.eval_count ?? 0,
+  };
+}
+
+interface OpenAIMessage {
+  role: string;
+  content: string | null;
+  tool_calls?: CompletionToolCall[];
+  tool_call_id?: string;
+}
+
+async function* readJsonLines(
+  body: NodeJS.ReadableStream
+): AsyncGenerator<string> {
+  const decoder = new StringDecoder("utf8");
+  let buffer = "";
+  for await (const chunk of body) {
+    buffer += typeof chunk === "string" ? chunk : decoder.write(chunk);
+    let end: number;
+    while ((end = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, end).trim();
+      buffer = buffer.slice(end + 1);
+      if (line) {
+        yield line;
+      }
+    }
+  }
+  if (buffer.trim()) {
+    yield buffer.trim();
+  }
+}
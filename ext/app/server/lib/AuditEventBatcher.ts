@@ -0,0 +1,174 @@
+import { appSettings } from "app/server/lib/AppSettings";
+import {
+  AuditLogBatchingOptions,
+  AuditLogDestination,
+  isBatchFormat,
+} from "app/server/lib/AuditLogDestination";
+import { EnterpriseAuditEvent } from "app/server/lib/EnterpriseAuditEvent";
+
+export const Deps = {
+  MAX_BATCH_SIZE: 1_000,
+  MAX_FLUSH_INTERVAL_MS: 60_000,
+};
+
+/** Batching settings of destinations that don't set their own. */
+export type AuditLogBatchingDefaults = Required<AuditLogBatchingOptions>;
+
+/**
+ * A streaming destination with all of its batching settings, including the
+ * defaults for those it doesn't set.
+ */
+export type BatchedAuditLogDestination = AuditLogDestination &
+  AuditLogBatchingDefaults;
+
+/**
+ * Returns the batching settings of destinations that don't set their own,
+ * from GRIST_AUDIT_LOG_BATCH_SIZE (default 100),
+ * GRIST_AUDIT_LOG_FLUSH_INTERVAL_MS (default 1000) and
+ * GRIST_AUDIT_LOG_BATCH_FORMAT (default "json").
+ */
+export function readAuditLogBatchingDefaults(): AuditLogBatchingDefaults {
+  const settings = appSettings.section("auditLogger");
+  const batchSize = settings.flag("batchSize").readInt({
+    envVar: "GRIST_AUDIT_LOG_BATCH_SIZE",
+    defaultValue: 100,
+    minValue: 1,
+    maxValue: Deps.MAX_BATCH_SIZE,
+  })!;
+  const flushIntervalMs = settings.flag("flushIntervalMs").readInt({
+    envVar: "GRIST_AUDIT_LOG_FLUSH_INTERVAL_MS",
+    defaultValue: 1_000,
+    minValue: 0,
+    maxValue: Deps.MAX_FLUSH_INTERVAL_MS,
+  })!;
+  const batchFormat = settings.flag("batchFormat").readString({
+    envVar: "GRIST_AUDIT_LOG_BATCH_FORMAT",
+    defaultValue: "json",
+  })!;
+  if (!isBatchFormat(batchFormat)) {
+    throw new Error(`Unsupported GRIST_AUDIT_LOG_BATCH_FORMAT: ${batchFormat}`);
+  }
+
+  return { batchSize, flushIntervalMs, batchFormat };
+}
+
+/**
+ * Returns `destination` with `defaults` for the batching settings it doesn't
+ * set, and those it does set limited to what's supported.
+ */
+export function withBatchingDefaults(
+  destination: AuditLogDestination,
+  defaults: AuditLogBatchingDefaults
+): BatchedAuditLogDestination {
+  const {
+    batchSize = defaults.batchSize,
+    flushIntervalMs = defaults.flushIntervalMs,
+    batchFormat,
+  } = destination;
+  return {
+    ...destination,
+    batchSize: clamp(batchSize, 1, Deps.MAX_BATCH_SIZE),
+    flushIntervalMs: clamp(flushIntervalMs, 0, Deps.MAX_FLUSH_INTERVAL_MS),
+    batchFormat: isBatchFormat(batchFormat)
+      ? batchFormat
+      : defaults.batchFormat,
+  };
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Number.isFinite(value)
+    ? Math.min(Math.max(Math.floor(value), min), max)
+    : min;
+}
+
+export type SendAuditEvents = (
+  events: EnterpriseAuditEvent[],
+  destination: BatchedAuditLogDestination
+) => Promise<void>;
+
+interface PendingEvent {
+  event: EnterpriseAuditEvent;
+  resolve(): void;
+  reject(error: Error): void;
+}
+
+interface PendingBatch {
+  destination: BatchedAuditLogDestination;
+  events: PendingEvent[];
+  timeout: NodeJS.Timeout;
+}
+
+/**
+ * Collects events for each streaming destination, and sends them together
+ * once its `batchSize` of them are waiting, or once the first of them has
+ * waited its `flushIntervalMs`.
+ *
+ * Each event added gets a promise that settles when its batch is sent: if
+ * sending fails, every event in the batch fails, so that the caller may
+ * retry them.
+ */
+export class AuditEventBatcher {
+  private _batches = new Map<string, PendingBatch>();
+  private _sending = new Set<Promise<void>>();
+
+  public constructor(private readonly _send: SendAuditEvents) {}
+
+  public add(
+    event: EnterpriseAuditEvent,
+    destination: BatchedAuditLogDestination
+  ): Promise<void> {
+    let batch = this._batches.get(destination.id);
+    if (!batch) {
+      batch = {
+        destination,
+        events: [],
+        timeout: setTimeout(
+          () => this._flush(destination.id),
+          destination.flushIntervalMs
+        ),
+      };
+      this._batches.set(destination.id, batch);
+    }
+
+    const { events } = batch;
+    const promise = new Promise<void>((resolve, reject) =>
+      events.push({ event, resolve, reject })
+    );
+    if (events.length >= destination.batchSize) {
+      this._flush(destination.id);
+    }
+    return promise;
+  }
+
+  /**
+   * Sends all waiting events, and waits for every batch being sent to
+   * settle.
+   */
+  public async flushAll() {
+    for (const id of [...this._batches.keys()]) {
+      this._flush(id);
+    }
+    await Promise.allSettled([...this._sending]);
+  }
+
+  private _flush(id: string) {
+    const batch = this._batches.get(id);
+    if (!batch) {
+      return;
+    }
+
+    this._batches.delete(id);
+    clearTimeout(batch.timeout);
+    const { destination, events } = batch;
+    const sending: Promise<void> = this._send(
+      events.map(({ event }) => event),
+      destination
+    )
+      .then(
+        () => events.forEach(({ resolve }) => resolve()),
+        (error) => events.forEach(({ reject }) => reject(error))
+      )
+      .finally(() => this._sending.delete(sending));
+    this._sending.add(sending);
+  }
+}
@@ -0,0 +1,425 @@
+import { appSettings } from "app/server/lib/AppSettings";
+import { EnterpriseAuditEvent } from "app/server/lib/EnterpriseAuditEvent";
+import * as crypto from "crypto";
+import * as fse from "fs-extra";
+import { isPlainObject } from "lodash";
+import { v4 as uuidv4 } from "uuid";
+
+export const Deps = {
+  CHECKPOINT_INTERVAL_EVENTS: 1_000,
+  CHECKPOINT_INTERVAL_MS: 60_000,
+  MAX_LINK_ATTEMPTS: 10,
+};
+
+// The previous hash of the first event in a chain.
+const GENESIS_HASH = "0".repeat(64);
+
+/**
+ * Where an event is in its chain. `hash` covers the whole event, including
+ * `id`, `seq` and `prev_hash`, but not itself or `checkpoint`.
+ */
+export interface AuditEventChainLink {
+  id: string;
+  seq: number;
+  prev_hash: string;
+  hash: string;
+  checkpoint?: AuditEventCheckpoint;
+}
+
+/**
+ * A signature of `${chain id}:${seq}:${hash}`, by the installation's audit
+ * log signing key, vouching for the event and every event before it.
+ */
+export interface AuditEventCheckpoint {
+  key_id: string;
+  signature: string;
+}
+
+export type ChainedAuditEvent = EnterpriseAuditEvent & {
+  chain: AuditEventChainLink;
+};
+
+/**
+ * The last event linked in a chain, and the last checkpoint before it (0 if
+ * there's none yet).
+ */
+export interface AuditEventChainHead {
+  id: string;
+  seq: number;
+  hash: string;
+  checkpointSeq: number;
+  checkpointAtMs: number;
+}
+
+/**
+ * Where the head of each chain is kept, so that chains carry on across
+ * restarts, and are shared by all servers.
+ */
+export interface AuditEventChainStore {
+  getHead(scope: string): Promise<AuditEventChainHead | null>;
+  /**
+   * Saves `head` as the head of the chain of `scope`, unless the saved head
+   * is no longer `prev` (e.g. because another server linked an event since).
+   * Returns whether `head` was saved.
+   */
+  setHead(
+    scope: string,
+    head: AuditEventChainHead,
+    prev: AuditEventChainHead | null
+  ): Promise<boolean>;
+}
+
+/**
+ * Links audit events into hash chains, so that changes to logged events, or
+ * events missing from a log, can be detected (see `verifyAuditEventChains`).
+ *
+ * Each event gets the next sequence number in its chain, and the hash of the
+ * event before it. If a signing key is given, an event is signed every so
+ * often (see `Deps`), as a checkpoint: events before a checkpoint can't be
+ * changed without the key, even if all hashes after them are recomputed.
+ *
+ * There is a chain for each org's events, and one for events outside any
+ * org, so that the events streamed or exported for an org form whole chains.
+ * Chains are kept in `store`, shared by all servers: they carry on across
+ * restarts, so that events removed from the end of a chain show up as
+ * missing once later events are logged.
+ */
+export class AuditEventChain {
+  private readonly _signer = this._signingKey
+    ? {
+        key: this._signingKey,
+        keyId: getKeyId(crypto.createPublicKey(this._signingKey)),
+      }
+    : undefined;
+  // Heads of chains, as last saved by this server, by scope.
+  private readonly _heads = new Map<string, AuditEventChainHead>();
+  // Events are linked one at a time in each chain.
+  private readonly _linking = new Map<string, Promise<unknown>>();
+
+  public constructor(
+    private readonly _store: AuditEventChainStore,
+    private readonly _signingKey?: crypto.KeyObject
+  ) {}
+
+  public link(event: EnterpriseAuditEvent): Promise<ChainedAuditEvent> {
+    const scope = getChainScope(event);
+    const linked = (this._linking.get(scope) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => this._link(scope, event));
+    this._linking.set(scope, linked);
+    const cleanup = () => {
+      if (this._linking.get(scope) === linked) {
+        this._linking.delete(scope);
+      }
+    };
+    linked.then(cleanup, cleanup);
+    return linked;
+  }
+
+  private async _link(
+    scope: string,
+    event: EnterpriseAuditEvent
+  ): Promise<ChainedAuditEvent> {
+    for (let attempt = 1; ; attempt++) {
+      const prev =
+        this._heads.get(scope) ?? (await this._store.getHead(scope));
+      const { head, chain } = this._makeLink(event, prev);
+      if (await this._store.setHead(scope, head, prev)) {
+        this._heads.set(scope, head);
+        return { ...event, chain };
+      }
+
+      // Another server linked an event since, so the saved head is newer.
+      this._heads.delete(scope);
+      if (attempt >= Deps.MAX_LINK_ATTEMPTS) {
+        throw new Error(
+          `failed to link audit event to chain (${scope}) after ${attempt} attempts`
+        );
+      }
+    }
+  }
+
+  private _makeLink(
+    event: EnterpriseAuditEvent,
+    prev: AuditEventChainHead | null
+  ) {
+    const id = prev?.id ?? uuidv4();
+    const seq = (prev?.seq ?? 0) + 1;
+    const prevHash = prev?.hash ?? GENESIS_HASH;
+    const hash = hashEvent(event, { id, seq, prev_hash: prevHash });
+    const chain: AuditEventChainLink = { id, seq, prev_hash: prevHash, hash };
+    const head: AuditEventChainHead = {
+      id,
+      seq,
+      hash,
+      checkpointSeq: prev?.checkpointSeq ?? 0,
+      checkpointAtMs: prev?.checkpointAtMs ?? 0,
+    };
+    if (this._signer && isCheckpointDue(head)) {
+      const { key, keyId } = this._signer;
+      chain.checkpoint = {
+        key_id: keyId,
+        signature: crypto
+          .sign(
+            getSignatureAlgorithm(key),
+            Buffer.from(getCheckpointData(chain)),
+            key
+          )
+          .toString("base64"),
+      };
+      head.checkpointSeq = seq;
+      head.checkpointAtMs = Date.now();
+    }
+    return { head, chain };
+  }
+}
+
+/**
+ * Returns the key that audit log checkpoints are signed with, from
+ * GRIST_AUDIT_LOG_SIGNING_KEY: a private key (e.g. Ed25519) in PEM format, or
+ * the path of a file with one. Returns undefined if no key is set.
+ */
+export function readAuditLogSigningKey(): crypto.KeyObject | undefined {
+  const key = appSettings.section("auditLogger").flag("signingKey").readString({
+    envVar: "GRIST_AUDIT_LOG_SIGNING_KEY",
+    censor: true,
+  });
+  if (!key) {
+    return undefined;
+  }
+
+  return crypto.createPrivateKey(
+    key.includes("-----BEGIN") ? key : fse.readFileSync(key, "utf8")
+  );
+}
+
+export interface AuditLogVerification {
+  ok: boolean;
+  chains: AuditLogChainSummary[];
+  problems: AuditLogProblem[];
+}
+
+export interface AuditLogChainSummary {
+  id: string;
+  firstSeq: number;
+  lastSeq: number;
+  events: number;
+  checkpoints: number;
+  /**
+   * How many events come after the last valid checkpoint. Those events could
+   * have been changed or removed by someone able to recompute their hashes.
+   */
+  unsignedEvents: number;
+}
+
+export interface AuditLogProblem {
+  chainId: string | null;
+  seq: number | null;
+  eventId: string | null;
+  problem: string;
+}
+
+/**
+ * Checks the hash chains of exported audit events, in any order, and returns
+ * what's wrong with them: events that were changed, events missing between
+ * others, and invalid checkpoints. Checkpoint signatures are only checked if
+ * `publicKey` is given.
+ *
+ * Logs exported for a range of time may start or end partway through a
+ * chain, so only events missing between the first and last ones of each
+ * chain can be detected. Logs of an org, or of the whole installation, hold
+ * whole chains; logs filtered in other ways (e.g. by document or user) don't,
+ * so events left out of them are reported missing.
+ */
+export function verifyAuditEventChains(
+  events: unknown[],
+  publicKey?: crypto.KeyObject
+): AuditLogVerification {
+  const problems: AuditLogProblem[] = [];
+  const chains = new Map<string, ChainedAuditEvent[]>();
+  for (const event of events) {
+    if (!isChainedEvent(event)) {
+      problems.push({
+        chainId: null,
+        seq: null,
+        eventId: (event as EnterpriseAuditEvent)?.id ?? null,
+        problem: "event is not part of a chain",
+      });
+      continue;
+    }
+
+    const chain = chains.get(event.chain.id) ?? [];
+    chain.push(event);
+    chains.set(event.chain.id, chain);
+  }
+
+  const keyId = publicKey ? getKeyId(publicKey) : undefined;
+  const summaries: AuditLogChainSummary[] = [];
+  for (const [chainId, chainEvents] of chains) {
+    chainEvents.sort((a, b) => a.chain.seq - b.chain.seq);
+    const report = (event: ChainedAuditEvent, problem: string) =>
+      problems.push({
+        chainId,
+        seq: event.chain.seq,
+        eventId: event.id,
+        problem,
+      });
+    let checkpoints = 0;
+    let lastCheckpointIndex = -1;
+    chainEvents.forEach((event, index) => {
+      const { chain } = event;
+      const { checkpoint, hash, ...link } = chain;
+      if (hashEvent(omitChain(event), link) !== hash) {
+        report(event, "event was modified");
+      }
+
+      const prev = chainEvents[index - 1];
+      if (prev) {
+        if (chain.seq === prev.chain.seq) {
+          report(event, "sequence number is repeated");
+        } else if (chain.seq > prev.chain.seq + 1) {
+          const missingFrom = prev.chain.seq + 1;
+          const missingTo = chain.seq - 1;
+          report(
+            event,
+            missingFrom === missingTo
+              ? `event ${missingFrom} is missing`
+              : `events ${missingFrom} to ${missingTo} are missing`
+          );
+        } else if (chain.prev_hash !== prev.chain.hash) {
+          report(event, "previous hash doesn't match the previous event");
+        }
+      } else if (chain.seq === 1 && chain.prev_hash !== GENESIS_HASH) {
+        report(event, "first event of chain has a previous hash");
+      }
+
+      if (!checkpoint || !publicKey) {
+        return;
+      }
+
+      if (checkpoint.key_id !== keyId) {
+        report(
+          event,
+          `checkpoint was signed by another key (${checkpoint.key_id})`
+        );
+      } else if (
+        !crypto.verify(
+          getSignatureAlgorithm(publicKey),
+          Buffer.from(getCheckpointData(chain)),
+          publicKey,
+          Buffer.from(checkpoint.signature, "base64")
+        )
+      ) {
+        report(event, "checkpoint signature is invalid");
+      } else {
+        checkpoints += 1;
+        lastCheckpointIndex = index;
+      }
+    });
+
+    summaries.push({
+      id: chainId,
+      firstSeq: chainEvents[0].chain.seq,
+      lastSeq: chainEvents[chainEvents.length - 1].chain.seq,
+      events: chainEvents.length,
+      checkpoints,
+      unsignedEvents: chainEvents.length - lastCheckpointIndex - 1,
+    });
+  }
+
+  return { ok: problems.length === 0, chains: summaries, problems };
+}
+
+// Events are chained by the org they happened in, if any.
+function getChainScope(event: EnterpriseAuditEvent) {
+  const orgId = event.context.site?.id;
+  return orgId !== undefined ? `org:${orgId}` : "install";
+}
+
+// The first event of a chain is always signed, so that chains can't be
+// made up without the key.
+function isCheckpointDue({
+  seq,
+  checkpointSeq,
+  checkpointAtMs,
+}: AuditEventChainHead) {
+  return (
+    checkpointSeq === 0 ||
+    seq - checkpointSeq >= Deps.CHECKPOINT_INTERVAL_EVENTS ||
+    Date.now() - checkpointAtMs >= Deps.CHECKPOINT_INTERVAL_MS
+  );
+}
+
+function hashEvent(
+  event: Omit<ChainedAuditEvent, "chain">,
+  link: Omit<AuditEventChainLink, "hash" | "checkpoint">
+) {
+  return crypto
+    .createHash("sha256")
+    .update(canonicalJson({ ...event, chain: link }))
+    .digest("hex");
+}
+
+function omitChain({
+  chain,
+  ...event
+}: ChainedAuditEvent): Omit<ChainedAuditEvent, "chain"> {
+  return event;
+}
+
+function getCheckpointData({ id, seq, hash }: AuditEventChainLink) {
+  return `${id}:${seq}:${hash}`;
+}
+
+/**
+ * Returns a short, stable ID for a key, so that checkpoints name the key
+ * they're signed with.
+ */
+function getKeyId(publicKey: crypto.KeyObject) {
+  return crypto
+    .createHash("sha256")
+    .update(publicKey.export({ type: "spki", format: "der" }))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+// Ed25519 and Ed448 keys imply their own digest.
+function getSignatureAlgorithm(key: crypto.KeyObject) {
+  return key.asymmetricKeyType === "ed25519" ||
+    key.asymmetricKeyType === "ed448"
+    ? null
+    : "sha256";
+}
+
+/**
+ * Returns `value` as JSON, with object keys sorted, so that the same event
+ * always hashes the same way, however its keys were ordered when exported.
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(sortKeys(JSON.parse(JSON.stringify(value))));
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  } else if (isPlainObject(value)) {
+    const object = value as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.keys(object)
+        .sort()
+        .map((key) => [key, sortKeys(object[key])])
+    );
+  } else {
+    return value;
+  }
+}
+
+function isChainedEvent(event: unknown): event is ChainedAuditEvent {
+  const chain = (event as ChainedAuditEvent | undefined)?.chain;
+  return (
+    typeof chain?.id === "string" &&
+    typeof chain.seq === "number" &&
+    typeof chain.prev_hash === "string" &&
+    typeof chain.hash === "string"
+  );
+}
@@ -1,16 +1,43 @@
-import { AuditLogStreamingDestinationName } from "app/common/Config";
-import { AuditEvent } from "app/server/lib/AuditEvent";
+import {
+  AuditLogDestination,
+  AuditLogDestinationName,
+} from "app/server/lib/AuditLogDestination";
+import { EnterpriseAuditEvent } from "app/server/lib/EnterpriseAuditEvent";
 import moment from "moment-timezone";
+import * as os from "os";
 
 export interface AuditEventFormatter {
-  streamingDestinations: AuditLogStreamingDestinationName[];
-  formatEvent(event: AuditEvent): any;
+  streamingDestinations: AuditLogDestinationName[];
+  formatEvent(event: EnterpriseAuditEvent): any;
+  /**
+   * Returns the request body for delivering `events` (at most the
+   * destination's `batchSize` of them) in one request.
+   */
+  formatBatch(
+    events: EnterpriseAuditEvent[],
+    destination: AuditLogDestination
+  ): AuditEventPayload;
+}
+
+export interface AuditEventPayload {
+  body: string;
+  contentType: string;
+  /**
+   * Headers to send with the request. If unset, the destination's token, if
+   * any, is sent as the Authorization header.
+   */
+  headers?: Record<string, string>;
+  /**
+   * Throws if the destination's response reports that events weren't
+   * accepted, despite its status.
+   */
+  validateResponse?(responseText: string): void;
 }
 
 export class HECEventFormatter implements AuditEventFormatter {
-  public streamingDestinations: AuditLogStreamingDestinationName[] = ["splunk"];
+  public streamingDestinations: AuditLogDestinationName[] = ["splunk"];
 
-  public formatEvent(event: AuditEvent) {
+  public formatEvent(event: EnterpriseAuditEvent) {
     // The expected format of the `time` metadata is `[seconds].[milliseconds]`,
     // as documented [here](https://docs.splunk.com/Documentation/SplunkCloud/latest/Data/FormateventsforHTTPEventCollector#Event_metadata).
     const timestampMs = moment(event.timestamp).format("x");
@@ -21,12 +48,258 @@ export class HECEventFormatter implements AuditEventFormatter {
       event,
     };
   }
+
+  // HEC accepts several events in one request, one after the other.
+  public formatBatch(events: EnterpriseAuditEvent[]) {
+    return {
+      body: events.map((e) => JSON.stringify(this.formatEvent(e))).join("\n"),
+      contentType: "application/json",
+    };
+  }
 }
 
 export class GenericEventFormatter implements AuditEventFormatter {
-  public streamingDestinations: AuditLogStreamingDestinationName[] = ["other"];
+  public streamingDestinations: AuditLogDestinationName[] = ["other"];
 
-  public formatEvent(event: AuditEvent) {
+  public formatEvent(event: EnterpriseAuditEvent) {
     return event;
   }
+
+  // Batches are sent as a JSON array, unless the destination asks for NDJSON.
+  public formatBatch(
+    events: EnterpriseAuditEvent[],
+    { batchFormat }: AuditLogDestination
+  ) {
+    if (batchFormat === "ndjson") {
+      return {
+        body: events
+          .map((e) => JSON.stringify(this.formatEvent(e)) + "\n")
+          .join(""),
+        contentType: "application/x-ndjson",
+      };
+    }
+
+    return {
+      body: JSON.stringify(events.map((e) => this.formatEvent(e))),
+      contentType: "application/json",
+    };
+  }
+}
+
+// RFC 5424 facility 13 ("log audit") and severity 6 ("informational").
+const SYSLOG_PRI = 13 * 8 + 6;
+
+// Fields of RFC 5424 headers are limited to printable ASCII.
+const SYSLOG_MAX_APP_NAME_LENGTH = 48;
+const SYSLOG_MAX_MSGID_LENGTH = 32;
+
+/**
+ * Formats events as RFC 5424 syslog messages, framed by octet counting
+ * (RFC 6587) for sending over TCP or TLS. The message is the event as JSON.
+ */
+export class SyslogEventFormatter implements AuditEventFormatter {
+  public streamingDestinations: AuditLogDestinationName[] = ["syslog"];
+
+  public formatEvent(event: EnterpriseAuditEvent) {
+    const header = [
+      `<${SYSLOG_PRI}>1`,
+      event.timestamp,
+      toSyslogField(os.hostname(), 255),
+      toSyslogField("grist", SYSLOG_MAX_APP_NAME_LENGTH),
+      String(process.pid),
+      toSyslogField(event.action, SYSLOG_MAX_MSGID_LENGTH),
+      "-",
+    ].join(" ");
+    // RFC 5424 marks UTF-8 messages with a byte order mark.
+    return `${header} \uFEFF${JSON.stringify(event)}`;
+  }
+
+  public formatBatch(events: EnterpriseAuditEvent[]) {
+    return {
+      body: events
+        .map((e) => {
+          const message = this.formatEvent(e);
+          return `${Buffer.byteLength(message)} ${message}`;
+        })
+        .join(""),
+      contentType: "text/plain",
+    };
+  }
+}
+
+/**
+ * Formats events for the Elasticsearch bulk API. The destination's URL names
+ * the index or data stream (e.g. "https://es.example.com/grist-audit/_bulk"),
+ * and its token is sent as the Authorization header (e.g. "ApiKey ...").
+ */
+export class ElasticsearchEventFormatter implements AuditEventFormatter {
+  public streamingDestinations: AuditLogDestinationName[] = [
+    "elasticsearch",
+  ];
+
+  public formatEvent(event: EnterpriseAuditEvent) {
+    return {
+      "@timestamp": event.timestamp,
+      ...event,
+    };
+  }
+
+  // Data streams only accept "create" actions, so events are always created.
+  public formatBatch(events: EnterpriseAuditEvent[]) {
+    return {
+      body: events
+        .map(
+          (e) =>
+            JSON.stringify({ create: { _id: e.id } }) +
+            "\n" +
+            JSON.stringify(this.formatEvent(e)) +
+            "\n"
+        )
+        .join(""),
+      contentType: "application/x-ndjson",
+      validateResponse: validateBulkResponse,
+    };
+  }
+}
+
+/**
+ * Formats events for the Datadog logs intake API (e.g.
+ * "https://http-intake.logs.datadoghq.com/api/v2/logs"). The destination's
+ * token is sent as the DD-API-KEY header.
+ */
+export class DatadogEventFormatter implements AuditEventFormatter {
+  public streamingDestinations: AuditLogDestinationName[] = [
+    "datadog",
+  ];
+
+  public formatEvent(event: EnterpriseAuditEvent) {
+    return {
+      ddsource: "grist",
+      service: "grist",
+      hostname: os.hostname(),
+      date: event.timestamp,
+      message: event.action,
+      evt: { id: event.id, name: event.action },
+      grist: event,
+    };
+  }
+
+  public formatBatch(
+    events: EnterpriseAuditEvent[],
+    { token }: AuditLogDestination
+  ): AuditEventPayload {
+    return {
+      body: JSON.stringify(events.map((e) => this.formatEvent(e))),
+      contentType: "application/json",
+      headers: token ? { "DD-API-KEY": token } : {},
+    };
+  }
+}
+
+/**
+ * Formats events as OpenTelemetry logs, for sending with OTLP/HTTP in its
+ * JSON encoding (e.g. to "http://collector:4318/v1/logs"). The body of each
+ * log record is the event as JSON.
+ */
+export class OTLPEventFormatter implements AuditEventFormatter {
+  public streamingDestinations: AuditLogDestinationName[] = ["otlp"];
+
+  public formatEvent(event: EnterpriseAuditEvent) {
+    const timeUnixNano = `${moment(event.timestamp).valueOf()}000000`;
+    return {
+      timeUnixNano,
+      observedTimeUnixNano: timeUnixNano,
+      // OpenTelemetry's severity number for INFO.
+      severityNumber: 9,
+      severityText: "INFO",
+      body: { stringValue: JSON.stringify(event) },
+      attributes: [
+        toOTLPAttribute("event.name", event.action),
+        toOTLPAttribute("event.id", event.id),
+      ],
+    };
+  }
+
+  public formatBatch(events: EnterpriseAuditEvent[]) {
+    return {
+      body: JSON.stringify({
+        resourceLogs: [
+          {
+            resource: {
+              attributes: [
+                toOTLPAttribute("service.name", "grist"),
+                toOTLPAttribute("host.name", os.hostname()),
+              ],
+            },
+            scopeLogs: [
+              {
+                scope: { name: "grist.audit" },
+                logRecords: events.map((e) => this.formatEvent(e)),
+              },
+            ],
+          },
+        ],
+      }),
+      contentType: "application/json",
+    };
+  }
+}
+
+/**
+ * Returns `value` with characters that aren't printable ASCII removed, and
+ * truncated to `maxLength`, or "-" (the syslog "nil value") if nothing's left.
+ */
+function toSyslogField(value: string, maxLength: number) {
+  return value.replace(/[^\x21-\x7e]/g, "").slice(0, maxLength) || "-";
+}
+
+function toOTLPAttribute(key: string, value: string) {
+  return { key, value: { stringValue: value } };
+}
+
+/**
+ * The parts of a response from the Elasticsearch bulk API that are checked.
+ * Items are in the order of the actions sent.
+ */
+interface BulkResponse {
+  errors: boolean;
+  items: Array<{
+    create?: {
+      status: number;
+      error?: { type: string; reason: string };
+    };
+  }>;
+}
+
+/**
+ * Throws if a response from the Elasticsearch bulk API reports that any
+ * events failed; the API responds with 200 even then.
+ */
+function validateBulkResponse(responseText: string) {
+  let response: BulkResponse;
+  try {
+    response = JSON.parse(responseText);
+  } catch (e) {
+    throw new Error(
+      "received a response from the Elasticsearch bulk API that isn't JSON: " +
+        `${e.message} (${responseText.slice(0, 200)})`
+    );
+  }
+
+  const { errors, items } = response;
+  if (!errors) {
+    return;
+  }
+
+  // Conflicts mean the event was indexed before (e.g. by a retry whose
+  // response was lost), so they don't count as failures.
+  const rejected = items.flatMap(({ create }) =>
+    create?.error && create.status !== 409 ? [create.error] : []
+  );
+  if (rejected.length > 0) {
+    const { type, reason } = rejected[0];
+    throw new Error(
+      `${rejected.length} events were rejected: ${type} ${reason}`
+    );
+  }
 }
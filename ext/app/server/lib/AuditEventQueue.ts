@@ -0,0 +1,483 @@
+import { appSettings } from "app/server/lib/AppSettings";
+import { AuditLogDestination } from "app/server/lib/AuditLogDestination";
+import { EnterpriseAuditEvent } from "app/server/lib/EnterpriseAuditEvent";
+import {
+  GristBullMQJobs,
+  GristBullMQQueueScope,
+  GristJob,
+} from "app/server/lib/GristJobs";
+import { GristServer } from "app/server/lib/GristServer";
+import log from "app/server/lib/log";
+import { getInstanceRoot } from "app/server/lib/places";
+import * as fse from "fs-extra";
+import { Redis } from "ioredis";
+import { omit } from "lodash";
+import * as path from "path";
+import { v4 as uuidv4 } from "uuid";
+
+export const Deps = {
+  MAX_ATTEMPTS: 10,
+  RETRY_BASE_DELAY_MS: 5_000,
+  RETRY_MAX_DELAY_MS: 60 * 60_000,
+  SPOOL_POLL_INTERVAL_MS: 5_000,
+  MAX_DEAD_LETTERS: 10_000,
+  // Deliveries attempted at once. They're batched by destination, so this
+  // should be at least the largest batch size.
+  DELIVERY_CONCURRENCY: 1_000,
+};
+
+const DELIVERY_QUEUE = "audit-log-delivery";
+const DELIVER_JOB = "deliver";
+const DEAD_LETTERS_KEY = "audit-log-delivery:dead-letters";
+
+/**
+ * An audit event waiting to be streamed to a destination. Only the
+ * destination's ID is needed to deliver it; the rest is kept to help admins
+ * recognize dead letters. Tokens aren't kept: they're looked up when
+ * delivering, so that a rotated token applies to pending events too.
+ */
+export interface AuditEventDelivery {
+  id: string;
+  event: EnterpriseAuditEvent;
+  destination: Pick<AuditLogDestination, "id" | "name" | "url">;
+  /** How many attempts to deliver the event have failed so far. */
+  attempts: number;
+  lastError?: string;
+}
+
+/**
+ * A delivery that was given up on after `Deps.MAX_ATTEMPTS` attempts.
+ */
+export interface AuditEventDeadLetter extends AuditEventDelivery {
+  lastError: string;
+  failedAtMs: number;
+}
+
+export type DeliverAuditEvent = (delivery: AuditEventDelivery) => Promise<void>;
+
+/**
+ * A durable queue of audit events to stream to destinations, for at-least-once
+ * delivery.
+ *
+ * Each event is queued once per destination, before any attempt to deliver
+ * it. Failed attempts are retried with exponential backoff, up to
+ * `Deps.MAX_ATTEMPTS` times in all. After that, the event is kept as a dead
+ * letter, until an admin replays it.
+ */
+export abstract class AuditEventQueue {
+  private _deliver?: DeliverAuditEvent;
+
+  /**
+   * Starts delivering queued events with `deliver`, which should throw if
+   * an attempt fails.
+   */
+  public start(deliver: DeliverAuditEvent) {
+    this._deliver = deliver;
+    this._startWorker();
+  }
+
+  public async enqueue(
+    event: EnterpriseAuditEvent,
+    { id, name, url }: AuditLogDestination
+  ) {
+    await this._schedule(
+      { id: uuidv4(), event, destination: { id, name, url }, attempts: 0 },
+      0
+    );
+  }
+
+  /**
+   * Returns dead letters, oldest first.
+   */
+  public abstract listDeadLetters(): Promise<AuditEventDeadLetter[]>;
+
+  /**
+   * Queues dead letters for delivery again, with a fresh set of attempts.
+   * If `ids` is set, only those dead letters are replayed. Returns the number
+   * replayed.
+   */
+  public async replayDeadLetters(ids?: string[]): Promise<number> {
+    const letters = await this._takeDeadLetters(ids);
+    for (const letter of letters) {
+      await this._schedule(
+        { ...omit(letter, "failedAtMs", "lastError"), attempts: 0 },
+        0
+      );
+    }
+    return letters.length;
+  }
+
+  public abstract close(): Promise<void>;
+
+  protected async _attempt(delivery: AuditEventDelivery) {
+    if (!this._deliver) {
+      throw new Error("audit event queue isn't started");
+    }
+
+    const meta = {
+      deliveryId: delivery.id,
+      eventId: delivery.event.id,
+      destination: delivery.destination.name,
+    };
+    try {
+      await this._deliver(delivery);
+    } catch (e) {
+      const attempts = delivery.attempts + 1;
+      const lastError = String(e?.message ?? e);
+      if (attempts >= Deps.MAX_ATTEMPTS) {
+        log.rawError("AuditEventQueue: giving up on audit event", {
+          ...meta,
+          attempts,
+          error: lastError,
+        });
+        await this._addDeadLetter({
+          ...delivery,
+          attempts,
+          lastError,
+          failedAtMs: Date.now(),
+        });
+      } else {
+        const delayMs = getRetryDelay(attempts);
+        log.rawWarn("AuditEventQueue: will retry audit event", {
+          ...meta,
+          attempts,
+          delayMs,
+          error: lastError,
+        });
+        await this._schedule({ ...delivery, attempts, lastError }, delayMs);
+      }
+      return;
+    }
+
+    await this._complete(delivery);
+  }
+
+  protected abstract _startWorker(): void;
+
+  /**
+   * Queues an attempt to deliver `delivery` after `delayMs`, replacing any
+   * earlier attempt that was queued for it.
+   */
+  protected abstract _schedule(
+    delivery: AuditEventDelivery,
+    delayMs: number
+  ): Promise<void>;
+
+  protected abstract _complete(delivery: AuditEventDelivery): Promise<void>;
+
+  protected abstract _addDeadLetter(letter: AuditEventDeadLetter): Promise<void>;
+
+  protected abstract _takeDeadLetters(
+    ids?: string[]
+  ): Promise<AuditEventDeadLetter[]>;
+}
+
+/**
+ * Keeps queued events in Redis, as GristJobs jobs, so that any server can
+ * deliver them. Dead letters are kept in a Redis list, up to
+ * `Deps.MAX_DEAD_LETTERS` of them.
+ */
+export class RedisAuditEventQueue extends AuditEventQueue {
+  private _queue: GristBullMQQueueScope;
+  private _redis: Redis;
+
+  public constructor(jobs: GristBullMQJobs) {
+    super();
+    this._queue = jobs.queue(DELIVERY_QUEUE);
+    this._redis = jobs.getQueueOptions().connection!;
+  }
+
+  public async listDeadLetters(): Promise<AuditEventDeadLetter[]> {
+    const raw = await this._redis.lrange(DEAD_LETTERS_KEY, 0, -1);
+    return raw.map((item) => JSON.parse(item));
+  }
+
+  public async close() {
+    // FlexServer stops GristJobs on exit, which takes care of the worker.
+  }
+
+  protected _startWorker() {
+    this._queue.handleDefault(async (job: GristJob) => {
+      log.warn("RedisAuditEventQueue: UNHANDLED JOB", job);
+    });
+    this._queue.handleName(DELIVER_JOB, (job: GristJob) =>
+      this._attempt(job.data)
+    );
+    const worker = this._queue.getWorker();
+    if (worker) {
+      worker.concurrency = Deps.DELIVERY_CONCURRENCY;
+    }
+  }
+
+  protected async _schedule(delivery: AuditEventDelivery, delayMs: number) {
+    await this._queue.add(DELIVER_JOB, delivery, {
+      jobId: `${delivery.id}:${delivery.attempts}`,
+      delay: delayMs,
+      removeOnComplete: true,
+      removeOnFail: true,
+    });
+  }
+
+  protected async _complete() {
+    // Completed jobs are removed by GristJobs.
+  }
+
+  protected async _addDeadLetter(letter: AuditEventDeadLetter) {
+    await this._redis
+      .multi()
+      .rpush(DEAD_LETTERS_KEY, JSON.stringify(letter))
+      .ltrim(DEAD_LETTERS_KEY, -Deps.MAX_DEAD_LETTERS, -1)
+      .exec();
+  }
+
+  protected async _takeDeadLetters(ids?: string[]) {
+    const raw = await this._redis.lrange(DEAD_LETTERS_KEY, 0, -1);
+    const taken: AuditEventDeadLetter[] = [];
+    for (const item of raw) {
+      const letter: AuditEventDeadLetter = JSON.parse(item);
+      if (ids && !ids.includes(letter.id)) {
+        continue;
+      }
+
+      // Another server may have replayed the same letter in the meantime;
+      // only the one that removes it replays it.
+      if (await this._redis.lrem(DEAD_LETTERS_KEY, 1, item)) {
+        taken.push(letter);
+      }
+    }
+    return taken;
+  }
+}
+
+/**
+ * Keeps queued events as files in a local directory, for installations
+ * without Redis. Events left over when the server stops are delivered when it
+ * starts again. The directory shouldn't be shared by several servers.
+ *
+ * Each queued event is a file in `pending/`, holding the delivery and the
+ * time of its next attempt. Dead letters are files in `dead/`.
+ *
+ * The times of next attempts are also kept in memory, so that only files of
+ * events that are due are read. They're loaded from `pending/` when the
+ * worker starts.
+ */
+export class SpoolAuditEventQueue extends AuditEventQueue {
+  private _pendingDir = path.join(this._dir, "pending");
+  private _deadDir = path.join(this._dir, "dead");
+  private _inFlight = new Set<string>();
+  private _nextAttemptTimes = new Map<string, number>();
+  private _interval?: NodeJS.Timeout;
+  private _ready?: Promise<void>;
+  private _loaded?: Promise<void>;
+
+  public constructor(private readonly _dir: string) {
+    super();
+  }
+
+  public async listDeadLetters(): Promise<AuditEventDeadLetter[]> {
+    await this._prepare();
+    const letters: AuditEventDeadLetter[] = [];
+    for (const file of await fse.readdir(this._deadDir)) {
+      const letter = await readJsonFile(path.join(this._deadDir, file));
+      if (letter) {
+        letters.push(letter);
+      }
+    }
+    return letters.sort((a, b) => a.failedAtMs - b.failedAtMs);
+  }
+
+  public async close() {
+    // Attempts still in flight are left in the spool, and retried on the
+    // next start.
+    clearInterval(this._interval);
+    this._interval = undefined;
+  }
+
+  protected _startWorker() {
+    this._interval = setInterval(
+      () =>
+        this._processDue().catch((e) =>
+          log.error("SpoolAuditEventQueue: failed to process spool", e)
+        ),
+      Deps.SPOOL_POLL_INTERVAL_MS
+    );
+    this._interval.unref();
+  }
+
+  protected async _schedule(delivery: AuditEventDelivery, delayMs: number) {
+    await this._prepare();
+    const nextAttemptAtMs = Date.now() + delayMs;
+    await writeJsonFile(this._getPendingPath(delivery.id), {
+      delivery,
+      nextAttemptAtMs,
+    });
+    this._nextAttemptTimes.set(delivery.id, nextAttemptAtMs);
+    if (delayMs === 0 && this._interval) {
+      this._run(delivery).catch((e) =>
+        log.error("SpoolAuditEventQueue: failed to deliver audit event", e)
+      );
+    }
+  }
+
+  protected async _complete(delivery: AuditEventDelivery) {
+    await fse.remove(this._getPendingPath(delivery.id));
+    this._nextAttemptTimes.delete(delivery.id);
+  }
+
+  protected async _addDeadLetter(letter: AuditEventDeadLetter) {
+    await writeJsonFile(path.join(this._deadDir, `${letter.id}.json`), letter);
+    await fse.remove(this._getPendingPath(letter.id));
+    this._nextAttemptTimes.delete(letter.id);
+    const letters = await fse.readdir(this._deadDir);
+    if (letters.length > Deps.MAX_DEAD_LETTERS) {
+      const oldest = (await this.listDeadLetters()).slice(
+        0,
+        letters.length - Deps.MAX_DEAD_LETTERS
+      );
+      for (const { id } of oldest) {
+        await fse.remove(path.join(this._deadDir, `${id}.json`));
+      }
+    }
+  }
+
+  protected async _takeDeadLetters(ids?: string[]) {
+    const letters = (await this.listDeadLetters()).filter(
+      ({ id }) => !ids || ids.includes(id)
+    );
+    for (const { id } of letters) {
+      await fse.remove(path.join(this._deadDir, `${id}.json`));
+    }
+    return letters;
+  }
+
+  private async _processDue() {
+    await this._load();
+    const now = Date.now();
+    const runs: Promise<void>[] = [];
+    for (const [id, nextAttemptAtMs] of this._nextAttemptTimes) {
+      if (this._inFlight.size >= Deps.DELIVERY_CONCURRENCY) {
+        break;
+      }
+
+      if (nextAttemptAtMs > now || this._inFlight.has(id)) {
+        continue;
+      }
+
+      const pending = await readJsonFile(this._getPendingPath(id));
+      if (pending) {
+        runs.push(this._run(pending.delivery));
+      } else {
+        // The event was delivered while the spool was being loaded.
+        this._nextAttemptTimes.delete(id);
+      }
+    }
+    await Promise.all(runs);
+  }
+
+  private _load() {
+    return (this._loaded ??= this._loadPending().catch((e) => {
+      this._loaded = undefined;
+      throw e;
+    }));
+  }
+
+  private async _loadPending() {
+    await this._prepare();
+    for (const file of await fse.readdir(this._pendingDir)) {
+      const pending = await readJsonFile(path.join(this._pendingDir, file));
+      // Events scheduled while loading are already known, with times at
+      // least as recent as those in their files.
+      if (pending && !this._nextAttemptTimes.has(pending.delivery.id)) {
+        this._nextAttemptTimes.set(
+          pending.delivery.id,
+          pending.nextAttemptAtMs
+        );
+      }
+    }
+  }
+
+  private async _run(delivery: AuditEventDelivery) {
+    if (this._inFlight.has(delivery.id)) {
+      return;
+    }
+
+    this._inFlight.add(delivery.id);
+    try {
+      await this._attempt(delivery);
+    } finally {
+      this._inFlight.delete(delivery.id);
+    }
+  }
+
+  private _getPendingPath(id: string) {
+    return path.join(this._pendingDir, `${id}.json`);
+  }
+
+  private _prepare() {
+    return (this._ready ??= Promise.all([
+      fse.mkdirp(this._pendingDir),
+      fse.mkdirp(this._deadDir),
+    ])
+      .then(() => undefined)
+      .catch((e) => {
+        this._ready = undefined;
+        throw e;
+      }));
+  }
+}
+
+/**
+ * Returns a queue kept in Redis if GristJobs uses it, and otherwise one
+ * spooled to disk, under GRIST_AUDIT_LOG_SPOOL_DIR (by default,
+ * "audit-log-spool" in the instance directory).
+ */
+export function createAuditEventQueue(
+  gristServer: GristServer
+): AuditEventQueue {
+  const jobs = gristServer.getJobs();
+  if (jobs instanceof GristBullMQJobs) {
+    return new RedisAuditEventQueue(jobs);
+  }
+
+  const dir = appSettings
+    .section("auditLogger")
+    .flag("spoolDir")
+    .requireString({
+      envVar: "GRIST_AUDIT_LOG_SPOOL_DIR",
+      defaultValue: path.join(getInstanceRoot(), "audit-log-spool"),
+    });
+  return new SpoolAuditEventQueue(dir);
+}
+
+/**
+ * Returns how long to wait before the next attempt, after `attempts` failed
+ * ones: the delay doubles after each failure, up to a maximum.
+ */
+function getRetryDelay(attempts: number) {
+  return Math.min(
+    Deps.RETRY_BASE_DELAY_MS * 2 ** (attempts - 1),
+    Deps.RETRY_MAX_DELAY_MS
+  );
+}
+
+// Writes to a temporary file first, so that a crash never leaves a partial
+// file behind. Each write has its own temporary file, since a retry may be
+// scheduled while an earlier write of the same file is still in progress.
+async function writeJsonFile(filePath: string, value: unknown) {
+  const tmpPath = `${filePath}.${uuidv4()}.tmp`;
+  await fse.writeFile(tmpPath, JSON.stringify(value));
+  await fse.rename(tmpPath, filePath);
+}
+
+async function readJsonFile(filePath: string): Promise<any> {
+  if (!filePath.endsWith(".json")) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(await fse.readFile(filePath, "utf8"));
+  } catch (e) {
+    // The file may have been removed since the directory was listed.
+    return null;
+  }
+}
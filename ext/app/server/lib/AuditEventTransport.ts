@@ -0,0 +1,129 @@
+import { AuditEventPayload } from "app/server/lib/AuditEventFormatter";
+import {
+  AuditLogDestination,
+  AuditLogDestinationName,
+} from "app/server/lib/AuditLogDestination";
+import { fetchUntrustedWithAgent } from "app/server/lib/ProxyAgent";
+import * as net from "net";
+import { AbortSignal as FetchAbortSignal } from "node-fetch/externals";
+import * as tls from "tls";
+
+export interface AuditEventTransportOptions {
+  signal: AbortSignal;
+  timeoutMs: number;
+}
+
+/**
+ * Sends formatted audit events to streaming destinations. Throws if
+ * sending fails.
+ */
+export interface AuditEventTransport {
+  streamingDestinations: AuditLogDestinationName[];
+  /**
+   * Whether destinations saved in the home DB, e.g. by org owners, may use
+   * this transport. Only transports that go through the proxy for untrusted
+   * URLs allow them; others are limited to destinations set for the whole
+   * installation.
+   */
+  allowsUntrustedDestinations: boolean;
+  send(
+    destination: AuditLogDestination,
+    payload: AuditEventPayload,
+    options: AuditEventTransportOptions
+  ): Promise<void>;
+}
+
+/**
+ * POSTs events to the destination's URL. The destination's token, if any, is
+ * sent as the Authorization header, unless the payload has headers of its
+ * own.
+ */
+export class HttpTransport implements AuditEventTransport {
+  public streamingDestinations: AuditLogDestinationName[] = [
+    "splunk",
+    "other",
+    "elasticsearch",
+    "datadog",
+    "otlp",
+  ];
+  public allowsUntrustedDestinations = true;
+
+  public async send(
+    { url, token }: AuditLogDestination,
+    { body, contentType, headers, validateResponse }: AuditEventPayload,
+    { signal, timeoutMs }: AuditEventTransportOptions
+  ) {
+    const resp = await fetchUntrustedWithAgent(url, {
+      method: "POST",
+      headers: {
+        ...(headers ?? (token ? { Authorization: token } : undefined)),
+        "Content-Type": contentType,
+      },
+      body,
+      timeout: timeoutMs,
+      signal: signal as FetchAbortSignal,
+    });
+    const text = await resp.text();
+    if (!resp.ok) {
+      throw new Error(
+        `received a non-2XX response from ${resp.url}: ${resp.status} ${text}`
+      );
+    }
+
+    validateResponse?.(text);
+  }
+}
+
+/**
+ * Sends events to a syslog server over TCP or TLS, as given by the scheme of
+ * the destination's URL (e.g. "tls://logs.example.com:6514"). Messages are
+ * framed by octet counting (RFC 6587), so the payload's body must be framed
+ * already. A connection is made for each batch of events.
+ */
+export class SyslogTransport implements AuditEventTransport {
+  public streamingDestinations: AuditLogDestinationName[] = ["syslog"];
+  // Connections are made directly, without the proxy for untrusted URLs.
+  public allowsUntrustedDestinations = false;
+
+  public async send(
+    { url }: AuditLogDestination,
+    { body }: AuditEventPayload,
+    { signal, timeoutMs }: AuditEventTransportOptions
+  ) {
+    const { protocol, hostname, port } = new URL(url);
+    if (protocol !== "tcp:" && protocol !== "tls:") {
+      throw new Error(
+        `unsupported syslog URL (${url}); use tcp:// or tls://`
+      );
+    }
+
+    const isTls = protocol === "tls:";
+    const host = hostname.replace(/^\[(.*)\]$/, "$1");
+    const options = {
+      host,
+      port: port ? Number(port) : isTls ? 6514 : 601,
+    };
+    await new Promise<void>((resolve, reject) => {
+      const socket = isTls
+        ? tls.connect({ ...options, servername: host })
+        : net.connect(options);
+      const onAbort = () => fail(new Error(`aborted sending to ${url}`));
+      const fail = (error: Error) => {
+        signal.removeEventListener("abort", onAbort);
+        socket.destroy();
+        reject(error);
+      };
+      signal.addEventListener("abort", onAbort);
+      socket.setTimeout(timeoutMs, () =>
+        fail(new Error(`timed out sending to ${url}`))
+      );
+      socket.once("error", fail);
+      socket.once(isTls ? "secureConnect" : "connect", () => {
+        socket.end(body, () => {
+          signal.removeEventListener("abort", onAbort);
+          resolve();
+        });
+      });
+    });
+  }
+}
@@ -0,0 +1,147 @@
+import {
+  AuditLogStreamingDestination,
+  AuditLogStreamingDestinationName,
+} from "app/common/Config";
+import { appSettings } from "app/server/lib/AppSettings";
+
+/**
+ * Names of destinations that can only be set for the whole installation, in
+ * GRIST_AUDIT_LOG_DESTINATIONS. Streaming destinations saved in the home DB
+ * are limited to AuditLogStreamingDestinationName.
+ */
+export const INSTALL_DESTINATION_NAMES = [
+  "syslog",
+  "elasticsearch",
+  "datadog",
+  "otlp",
+] as const;
+
+export type AuditLogDestinationName =
+  | AuditLogStreamingDestinationName
+  | (typeof INSTALL_DESTINATION_NAMES)[number];
+
+/**
+ * Optional settings of a streaming destination, for sending several events
+ * in one request. Those a destination doesn't set default to the ones set for
+ * the installation (see readAuditLogBatchingDefaults).
+ */
+export interface AuditLogBatchingOptions {
+  /** The most events sent in one request. At most 1000. */
+  batchSize?: number;
+  /** The longest an event waits for others to be sent with it. */
+  flushIntervalMs?: number;
+  /**
+   * How "other" destinations receive a batch: as a JSON array, or as
+   * newline-delimited JSON.
+   */
+  batchFormat?: "json" | "ndjson";
+}
+
+/**
+ * A destination that audit events are streamed to: either a streaming
+ * destination saved in the home DB, or one set for the whole installation.
+ */
+export interface AuditLogDestination
+  extends Omit<AuditLogStreamingDestination, "name">,
+    AuditLogBatchingOptions {
+  name: AuditLogDestinationName;
+}
+
+const BATCH_FORMATS: readonly string[] = ["json", "ndjson"];
+
+export function isBatchFormat(
+  value: unknown
+): value is NonNullable<AuditLogBatchingOptions["batchFormat"]> {
+  return typeof value === "string" && BATCH_FORMATS.includes(value);
+}
+
+const DESTINATION_NAMES: readonly string[] = [
+  "splunk",
+  "other",
+  ...INSTALL_DESTINATION_NAMES,
+];
+
+/**
+ * Returns the destinations set for the whole installation, from
+ * GRIST_AUDIT_LOG_DESTINATIONS: a JSON array of objects with a `name` (e.g.
+ * "syslog"), a `url`, and optionally a `token`, an `id` and batching settings
+ * (see AuditLogBatchingOptions). The `id` defaults to the URL, and must stay
+ * the same for events already queued to reach the destination.
+ *
+ * Unlike streaming destinations saved in the home DB, these are set by
+ * whoever runs the installation, so they may be reached without going
+ * through the proxy for untrusted URLs (see AuditEventTransport).
+ */
+export function readInstallAuditLogDestinations(): AuditLogDestination[] {
+  const value = appSettings
+    .section("auditLogger")
+    .flag("destinations")
+    .readString({
+      envVar: "GRIST_AUDIT_LOG_DESTINATIONS",
+      censor: true,
+    });
+  if (!value) {
+    return [];
+  }
+
+  let destinations: unknown;
+  try {
+    destinations = JSON.parse(value);
+  } catch (e) {
+    throw new Error(
+      `GRIST_AUDIT_LOG_DESTINATIONS is not valid JSON: ${e.message}`
+    );
+  }
+  if (!Array.isArray(destinations)) {
+    throw new Error("GRIST_AUDIT_LOG_DESTINATIONS must be a JSON array");
+  }
+
+  return destinations.map((destination, index) => {
+    const { id, name, url, token, batchSize, flushIntervalMs, batchFormat } =
+      destination ?? {};
+    if (!DESTINATION_NAMES.includes(name)) {
+      throw new Error(
+        `GRIST_AUDIT_LOG_DESTINATIONS[${index}] has an unsupported name ` +
+          `(${name}); use one of ${DESTINATION_NAMES.join(", ")}`
+      );
+    }
+    if (typeof url !== "string" || !url) {
+      throw new Error(`GRIST_AUDIT_LOG_DESTINATIONS[${index}] has no url`);
+    }
+    if (
+      (id !== undefined && typeof id !== "string") ||
+      (token !== undefined && typeof token !== "string")
+    ) {
+      throw new Error(
+        `GRIST_AUDIT_LOG_DESTINATIONS[${index}] has an id or token that ` +
+          "isn't a string"
+      );
+    }
+
+    if (
+      (batchSize !== undefined && typeof batchSize !== "number") ||
+      (flushIntervalMs !== undefined && typeof flushIntervalMs !== "number")
+    ) {
+      throw new Error(
+        `GRIST_AUDIT_LOG_DESTINATIONS[${index}] has a batchSize or ` +
+          "flushIntervalMs that isn't a number"
+      );
+    }
+    if (batchFormat !== undefined && !isBatchFormat(batchFormat)) {
+      throw new Error(
+        `GRIST_AUDIT_LOG_DESTINATIONS[${index}] has an unsupported ` +
+          `batchFormat (${batchFormat}); use one of ${BATCH_FORMATS.join(", ")}`
+      );
+    }
+
+    return {
+      id: id ?? url,
+      name,
+      url,
+      token,
+      batchSize,
+      flushIntervalMs,
+      batchFormat,
+    };
+  });
+}
@@ -1,20 +1,36 @@
 import { mapGetOrSet, MapWithTTL } from "app/common/AsyncCreate";
-import {
-  AuditLogStreamingDestination,
-  AuditLogStreamingDestinationName,
-} from "app/common/Config";
+import { AuditLogStreamingDestination } from "app/common/Config";
 import { Organization } from "app/gen-server/entity/Organization";
+import { AuditLogStore } from "app/gen-server/lib/AuditLogStore";
 import { HomeDBManager } from "app/gen-server/lib/homedb/HomeDBManager";
+import { AuditEventActor, AuditEventContext } from "app/server/lib/AuditEvent";
+import {
+  AuditEventBatcher,
+  AuditLogBatchingDefaults,
+  withBatchingDefaults,
+} from "app/server/lib/AuditEventBatcher";
 import {
-  AuditEvent,
-  AuditEventActor,
-  AuditEventContext,
-} from "app/server/lib/AuditEvent";
+  AuditEventChain,
+  AuditEventChainStore,
+} from "app/server/lib/AuditEventChain";
 import { AuditEventFormatter } from "app/server/lib/AuditEventFormatter";
+import {
+  AuditEventDelivery,
+  AuditEventQueue,
+} from "app/server/lib/AuditEventQueue";
+import { AuditEventTransport } from "app/server/lib/AuditEventTransport";
+import {
+  AuditLogDestination,
+  AuditLogDestinationName,
+} from "app/server/lib/AuditLogDestination";
+import {
+  AssistantAuditEventProperties,
+  EnterpriseAuditEvent,
+  EnterpriseAuditEventProperties,
+} from "app/server/lib/EnterpriseAuditEvent";
 import { GristServer } from "app/server/lib/GristServer";
-import { AuditEventProperties, IAuditLogger } from "app/server/lib/IAuditLogger";
+import { IAuditLogger } from "app/server/lib/IAuditLogger";
 import { LogMethods } from "app/server/lib/LogMethods";
-import { fetchUntrustedWithAgent } from "app/server/lib/ProxyAgent";
 import { getOriginIpAddress } from "app/server/lib/requestUtils";
 import {
   getAuthSession,
@@ -22,8 +38,8 @@ import {
   getRequest,
   RequestOrSession,
 } from "app/server/lib/sessionUtils";
+import { KeyObject } from "crypto";
 import moment from "moment-timezone";
-import { AbortSignal } from "node-fetch/externals";
 import { inspect } from "util";
 import { v4 as uuidv4 } from "uuid";
 
@@ -35,8 +51,24 @@ export const Deps = {
 interface AuditLoggerOptions {
   gristServer: GristServer;
   formatters: AuditEventFormatter[];
+  transports: AuditEventTransport[];
+  /** Where events wait to be streamed to each destination. */
+  queue: AuditEventQueue;
+  /** If set, where a copy of every event is kept, for install admins to search. */
+  store?: AuditLogStore;
+  /** How events are batched for destinations that don't set their own. */
+  batchingDefaults: AuditLogBatchingDefaults;
+  /**
+   * Destinations for the whole installation, set in app settings rather than
+   * the home DB (see readInstallAuditLogDestinations).
+   */
+  installDestinations?: AuditLogDestination[];
+  /** Where the chains that events are linked in are kept. */
+  chainStore: AuditEventChainStore;
+  /** If set, what checkpoints in the chains of events are signed with. */
+  signingKey?: KeyObject;
   allowDestination(
-    destination: AuditLogStreamingDestination,
+    destination: AuditLogDestination,
     org: Organization | null
   ): boolean;
 }
@@ -45,9 +77,13 @@ export class AuditLogger implements IAuditLogger {
   private _numPendingRequests = 0;
   private readonly _abortController = new AbortController();
   private readonly _formatters: Map<
-    AuditLogStreamingDestinationName,
+    AuditLogDestinationName,
     AuditEventFormatter
   > = new Map();
+  private readonly _transports: Map<
+    AuditLogDestinationName,
+    AuditEventTransport
+  > = new Map();
   private readonly _installStreamingDestinations = new MapWithTTL<
     true,
     Promise<AuditLogStreamingDestination[]>
@@ -64,9 +100,21 @@ export class AuditLogger implements IAuditLogger {
   private _createdPromises: Set<Promise<any>>|null = new Set();
   private _closed = false;
   private _allowDestination = this._options.allowDestination;
+  private _installDestinations = this._options.installDestinations ?? [];
+  private _queue = this._options.queue;
+  private _chain = new AuditEventChain(
+    this._options.chainStore,
+    this._options.signingKey
+  );
+  private _batchingDefaults = this._options.batchingDefaults;
+  private _batcher = new AuditEventBatcher((events, destination) =>
+    this._streamEventsToDestination(events, destination)
+  );
 
   constructor(private _db: HomeDBManager, private _options: AuditLoggerOptions) {
     this._initializeFormatters();
+    this._initializeTransports();
+    this._queue.start((delivery) => this._deliver(delivery));
 
     // Each server may get an instruction to change streaming destinations, which it will publish
     // via pubsub to all servers. They all listen, and invalidate streaming destinations on receipt.
@@ -104,6 +152,9 @@ export class AuditLogger implements IAuditLogger {
       });
     }
 
+    // Send events waiting to be batched with others. Those that fail stay in the queue.
+    await this._batcher.flushAll();
+
     // Remove the set, it will prevent from adding new promises. This is just sanity check, as
     // code already tests for this._closed before adding new promises.
     this._createdPromises = null;
@@ -115,6 +166,9 @@ export class AuditLogger implements IAuditLogger {
     // Clean up the subscription to the pubsub event for changing streaming destinations.
     this._pubSubUnsubscribe();
 
+    // Events still in the queue are delivered once a server starts again.
+    await this._queue.close();
+
     // Abort all pending requests.
     this._abortController.abort();
   }
@@ -124,7 +178,7 @@ export class AuditLogger implements IAuditLogger {
    */
   public logEvent(
     requestOrSession: RequestOrSession,
-    properties: AuditEventProperties
+    properties: EnterpriseAuditEventProperties
   ): void {
     if (this._closed) {
       throw new Error("audit logger is closed");
@@ -142,23 +196,53 @@ export class AuditLogger implements IAuditLogger {
     });
   }
 
+  /**
+   * Logs an audit event about the assistant. It's streamed and stored like
+   * any other event.
+   */
+  public logAssistantEvent(
+    requestOrSession: RequestOrSession,
+    properties: AssistantAuditEventProperties
+  ): void {
+    this.logEvent(requestOrSession, properties);
+  }
+
   /**
    * Logs an audit event or throws an error on failure.
+   *
+   * The event is queued for each streaming destination, and delivered in the
+   * background, with retries (see AuditEventQueue). This only fails if the
+   * event couldn't be queued, or kept in the local store, if there is one.
+   *
+   * Events are only linked in their chain if they go somewhere, since that
+   * takes a write to the home DB. If linking fails, the event is still logged,
+   * without its place in the chain, which verification reports.
    */
   public async logEventOrThrow(
     requestOrSession: RequestOrSession,
-    properties: AuditEventProperties
+    properties: EnterpriseAuditEventProperties
   ) {
     if (this._closed) {
       throw new Error("audit logger is closed");
     }
-    const event = this._buildEventFromProperties(requestOrSession, properties);
-    const destinations = await this._getOrSetStreamingDestinations(event);
-    const requests = await Promise.allSettled(
-      destinations.map((destination: AuditLogStreamingDestination) =>
-        this._streamEventToDestination(event, destination)
-      )
+    const unlinkedEvent = this._buildEventFromProperties(
+      requestOrSession,
+      properties
+    );
+    const destinations = await this._getOrSetStreamingDestinations(
+      unlinkedEvent
     );
+    if (destinations.length === 0 && !this._options.store) {
+      return;
+    }
+
+    const event = await this._linkEvent(requestOrSession, unlinkedEvent);
+    const requests = await Promise.allSettled([
+      ...destinations.map((destination: AuditLogDestination) =>
+        this._queue.enqueue(event, destination)
+      ),
+      ...(this._options.store ? [this._options.store.appendEvent(event)] : []),
+    ]);
     const errors = requests
       .filter(
         (request): request is PromiseRejectedResult =>
@@ -167,7 +251,7 @@ export class AuditLogger implements IAuditLogger {
       .map(({ reason }) => reason);
     if (errors.length > 0) {
       throw new LogAuditEventError(
-        "encountered errors while streaming audit event",
+        "encountered errors while queueing audit event",
         { event, errors }
       );
     }
@@ -177,25 +261,65 @@ export class AuditLogger implements IAuditLogger {
     return this._createdPromises?.size ?? 0;
   }
 
+  /**
+   * Returns the queue of events waiting to be streamed, e.g. for admins to
+   * inspect and replay events that couldn't be delivered.
+   */
+  public getQueue(): AuditEventQueue {
+    return this._queue;
+  }
+
+  /**
+   * Returns the local store of events, or undefined if events aren't kept
+   * locally.
+   */
+  public getStore(): AuditLogStore | undefined {
+    return this._options.store;
+  }
+
   private _buildEventFromProperties(
     requestOrSession: RequestOrSession,
-    properties: AuditEventProperties
-  ): AuditEvent {
-    const { action, context = {}, details } = properties;
+    properties: EnterpriseAuditEventProperties
+  ): EnterpriseAuditEvent {
+    const { context = {} } = properties;
     return {
+      ...properties,
       id: uuidv4(),
-      action,
       actor: this._getEventActor(requestOrSession),
       context: {
         ...getEventContext(requestOrSession),
         ...context,
       },
       timestamp: moment().toISOString(),
-      details,
     };
   }
 
-  private async _getOrSetStreamingDestinations(event: AuditEvent) {
+  /**
+   * Returns `event`, linked to the events before it by its place in its chain
+   * of events (see AuditEventChain), or as it is if it couldn't be linked.
+   */
+  private async _linkEvent(
+    requestOrSession: RequestOrSession,
+    event: EnterpriseAuditEvent
+  ): Promise<EnterpriseAuditEvent> {
+    try {
+      return await this._chain.link(event);
+    } catch (error) {
+      this._logger.error(
+        requestOrSession,
+        "failed to link audit event to its chain; logging it without",
+        { eventId: event.id, error }
+      );
+      return event;
+    }
+  }
+
+  private async _getOrSetStreamingDestinations(
+    event: EnterpriseAuditEvent
+  ): Promise<AuditLogDestination[]> {
+    const installDestinations = this._installDestinations.filter(
+      (destination) => this._allowDestination(destination, null)
+    );
     const destinations = await Promise.all([
       mapGetOrSet(this._installStreamingDestinations, true, () =>
         this._track(this._fetchStreamingDestinations()),
@@ -205,9 +329,12 @@ export class AuditLogger implements IAuditLogger {
       //   this._track(this._fetchStreamingDestinations(event.context.site.id))
       // ),
     ]);
-    return destinations
-      .filter((d): d is AuditLogStreamingDestination[] => d !== null)
-      .flat();
+    return [
+      ...installDestinations,
+      ...destinations
+        .filter((d): d is AuditLogStreamingDestination[] => d !== null)
+        .flat(),
+    ];
   }
 
   private async _fetchStreamingDestinations(
@@ -225,14 +352,60 @@ export class AuditLogger implements IAuditLogger {
       return [];
     }
 
-    return config.value.filter((destination) =>
-      this._allowDestination(destination, config.org)
+    return config.value.filter(
+      (destination) =>
+        this._allowDestination(destination, config.org) &&
+        this._allowUntrustedDestination(destination)
     );
   }
 
-  private async _streamEventToDestination(
-    event: AuditEvent,
+  /**
+   * Returns whether a destination saved in the home DB may be streamed to.
+   * Only transports that go through the proxy for untrusted URLs may be
+   * used; e.g. syslog destinations must be set for the whole installation.
+   */
+  private _allowUntrustedDestination(
     destination: AuditLogStreamingDestination
+  ) {
+    const { id, name } = destination;
+    if (this._transports.get(name)?.allowsUntrustedDestinations === false) {
+      this._logger.warn(
+        null,
+        "skipping streaming destination only allowed for the installation",
+        { destinationId: id, destinationName: name }
+      );
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Streams a queued event to its destination, as currently configured, in a
+   * batch with other events for the same destination. If the destination has
+   * since been removed, the event is dropped.
+   */
+  private async _deliver({ event, destination: { id } }: AuditEventDelivery) {
+    const destinations = await this._getOrSetStreamingDestinations(event);
+    const destination = destinations.find((d) => d.id === id);
+    if (!destination) {
+      this._logger.warn(
+        null,
+        "skipping audit event for removed streaming destination",
+        { eventId: event.id, destinationId: id }
+      );
+      return;
+    }
+
+    await this._batcher.add(
+      event,
+      withBatchingDefaults(destination, this._batchingDefaults)
+    );
+  }
+
+  private async _streamEventsToDestination(
+    events: EnterpriseAuditEvent[],
+    destination: AuditLogDestination
   ) {
     if (this._numPendingRequests === Deps.MAX_CONCURRENT_REQUESTS) {
       throw new Error(
@@ -240,28 +413,20 @@ export class AuditLogger implements IAuditLogger {
       );
     }
 
-    const { url, token } = destination;
+    const { url } = destination;
+    const payload = this._getFormatter(destination).formatBatch(
+      events,
+      destination
+    );
+    const transport = this._getTransport(destination);
     try {
       this._numPendingRequests += 1;
-      const resp = await fetchUntrustedWithAgent(url, {
-        method: "POST",
-        headers: {
-          ...(token ? { Authorization: token } : undefined),
-          "Content-Type": "application/json",
-        },
-        body: this._buildStreamingDestinationPayload(event, destination),
-        timeout: 10_000,
-        signal: this._abortController.signal as AbortSignal,
+      await transport.send(destination, payload, {
+        signal: this._abortController.signal,
+        timeoutMs: 10_000,
       });
-      if (!resp.ok) {
-        throw new Error(
-          `received a non-2XX response from ${resp.url}: ${
-            resp.status
-          } ${await resp.text()}`
-        );
-      }
     } catch (e) {
-      throw new Error(e?.message ?? `failed to stream audit event to ${url}`, {
+      throw new Error(e?.message ?? `failed to stream audit events to ${url}`, {
         cause: e,
       });
     } finally {
@@ -269,10 +434,7 @@ export class AuditLogger implements IAuditLogger {
     }
   }
 
-  private _buildStreamingDestinationPayload(
-    event: AuditEvent,
-    { name }: AuditLogStreamingDestination
-  ): string {
+  private _getFormatter({ name }: AuditLogDestination): AuditEventFormatter {
     const formatter = this._formatters.get(name);
     if (!formatter) {
       throw new Error(
@@ -280,7 +442,18 @@ export class AuditLogger implements IAuditLogger {
       );
     }
 
-    return JSON.stringify(formatter.formatEvent(event));
+    return formatter;
+  }
+
+  private _getTransport({ name }: AuditLogDestination): AuditEventTransport {
+    const transport = this._transports.get(name);
+    if (!transport) {
+      throw new Error(
+        `no audit event transport found for destination (${name})`
+      );
+    }
+
+    return transport;
   }
 
   private _getEventActor(requestOrSession: RequestOrSession): AuditEventActor {
@@ -312,6 +485,15 @@ export class AuditLogger implements IAuditLogger {
     }
   }
 
+  private _initializeTransports() {
+    for (const transport of this._options.transports) {
+      const { streamingDestinations } = transport;
+      for (const destination of streamingDestinations) {
+        this._transports.set(destination, transport);
+      }
+    }
+  }
+
   private _track(prom: Promise<any>) {
     if (!this._createdPromises) {
       throw new Error("audit logger is closed");
@@ -325,12 +507,15 @@ export class AuditLogger implements IAuditLogger {
 
 export class LogAuditEventError extends Error {
   public name = "LogAuditEventError";
-  public event?: AuditEvent;
+  public event?: EnterpriseAuditEvent;
   public errors?: Error[];
 
   constructor(
     message: string,
-    { event, errors }: { event?: AuditEvent; errors?: Error[] } = {},
+    {
+      event,
+      errors,
+    }: { event?: EnterpriseAuditEvent; errors?: Error[] } = {},
     ...params: any[]
   ) {
     super(message, ...params);
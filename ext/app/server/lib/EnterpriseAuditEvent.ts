@@ -0,0 +1,58 @@
+import { ToolCallAuditDetails } from "app/server/lib/assistantAudit";
+import { RedactionSummary } from "app/server/lib/assistantRedaction";
+import { AuditEvent } from "app/server/lib/AuditEvent";
+import { AuditEventProperties } from "app/server/lib/IAuditLogger";
+
+/**
+ * Details of audit events about the assistant, by action, besides the
+ * document and conversation they happened in. Core's audit event types don't
+ * include them, so only the enterprise audit logger records them (see
+ * `AuditLogger.logAssistantEvent`).
+ */
+export interface AssistantAuditEventDetails {
+  "assistant.send_message": {
+    /** Only the length is logged: messages may include cell values. */
+    message: { length: number };
+  };
+  "assistant.call_tool": ToolCallAuditDetails & {
+    /** If set, the call's changes were only proposed to the user. */
+    preview: boolean;
+  };
+  "assistant.redact": {
+    redactions: RedactionSummary;
+  };
+}
+
+export type AssistantAuditEventAction = keyof AssistantAuditEventDetails;
+
+export interface AssistantConversationAuditDetails {
+  document: { id: string };
+  conversation: { id: string };
+}
+
+export interface AssistantAuditEventProperties<
+  Action extends AssistantAuditEventAction = AssistantAuditEventAction
+> {
+  action: Action;
+  context?: AuditEventProperties["context"];
+  details: AssistantConversationAuditDetails &
+    AssistantAuditEventDetails[Action];
+}
+
+export interface AssistantAuditEvent<
+  Action extends AssistantAuditEventAction = AssistantAuditEventAction
+> extends Omit<AuditEvent, "action" | "details"> {
+  action: Action;
+  details: AssistantConversationAuditDetails &
+    AssistantAuditEventDetails[Action];
+}
+
+/**
+ * An event recorded by the enterprise audit logger: any of core's, or one
+ * about the assistant.
+ */
+export type EnterpriseAuditEvent = AuditEvent | AssistantAuditEvent;
+
+export type EnterpriseAuditEventProperties =
+  | AuditEventProperties
+  | AssistantAuditEventProperties;
@@ -1,10 +1,21 @@
 import { ApplyUAOptions, ApplyUAResult } from "app/common/ActiveDocAPI";
+import { ApiError } from "app/common/ApiError";
 import {
   AssistanceMessage,
   AssistanceRequestV2,
   AssistanceResponseV2,
 } from "app/common/Assistance";
 import { AssistantProvider } from "app/common/Assistant";
+import {
+  AssistanceActionRef,
+  AssistanceProposedChange,
+  AssistanceResponseWithPreview,
+  AssistanceStreamEvent,
+  AssistanceStreamListener,
+  AssistantPolicy,
+  AssistantReport,
+} from "app/common/AssistantAPI";
+import { MapWithTTL } from "app/common/AsyncCreate";
 import {
   AccessLevel,
   ICustomWidget,
@@ -17,7 +28,16 @@ import {
   getReferencedTableId,
   RecalcWhen,
 } from "app/common/gristTypes";
+import { parseUrlId } from "app/common/gristUrls";
 import { safeJsonParse } from "app/common/gutil";
+import {
+  AssistantPolicies,
+  isToolAllowedByPolicy,
+} from "app/gen-server/lib/AssistantPolicies";
+import {
+  AssistantUsage,
+  AssistantUsageLimits,
+} from "app/gen-server/lib/AssistantUsage";
 import { RecordWithStringId } from "app/plugin/DocApiTypes";
 import { arrayRepeat } from "app/plugin/gutil";
 import {
@@ -31,6 +51,30 @@ import {
   getWidgetById,
   getWidgetsByPageId,
 } from "app/server/lib/ActiveDocUtils";
+import { getAssistanceDocForRequest } from "app/server/lib/assistanceRequests";
+import {
+  getToolCallAuditDetails,
+  trackUserActions,
+} from "app/server/lib/assistantAudit";
+import {
+  AccessChange,
+  addAccessRule,
+  listAccessRules,
+  removeAccessRule,
+  runAccessRuleChange,
+  updateAccessRule,
+} from "app/server/lib/assistantAccessRules";
+import { addAssistantConversationEndpoints } from "app/server/lib/assistantConversations";
+import {
+  createRedactor,
+  isRedactionEnabled,
+  Redactor,
+} from "app/server/lib/assistantRedaction";
+import {
+  addAssistantReportEndpoints,
+  AssistantReportScheduler,
+  createAssistantReportScheduler,
+} from "app/server/lib/assistantReports";
 import {
   getProviderFromHostname,
   getUserHash,
@@ -41,14 +85,46 @@ import {
   TokensExceededFirstMessageError,
   TokensExceededLaterMessageError,
 } from "app/server/lib/Assistant";
+import {
+  buildProposedChange,
+  recordUserActions,
+} from "app/server/lib/assistantPreview";
+import {
+  AssistantProviderName,
+  CompletionResult,
+  CompletionUsage,
+  createProviderAdapter,
+} from "app/server/lib/AssistantProviders";
 import {
   getAndRemoveAssistantStatePermit,
   setAssistantStatePermit,
 } from "app/server/lib/AssistantStatePermit";
+import { undoAssistantActions } from "app/server/lib/assistantUndo";
+import { readAttachmentContent } from "app/server/lib/attachmentContent";
+import { AuditLogger } from "app/server/lib/AuditLogger";
 import { isAnonymousUser, RequestWithLogin } from "app/server/lib/Authorizer";
+import {
+  buildUpdateChartWidgetActions,
+  getChartWidgetOptions,
+} from "app/server/lib/chartWidgets";
+import {
+  compactMessages,
+  MAX_COMPACTION_LEVEL,
+} from "app/server/lib/compactMessages";
+import {
+  buildAddRuleActions,
+  buildAddRuleColumnAction,
+  buildRemoveRuleActions,
+  buildReorderRulesActions,
+  getConditionalStyleRules,
+} from "app/server/lib/conditionalStyles";
 import { getAndClearSignupStateCookie } from "app/server/lib/cookieUtils";
 import { createSavedDoc } from "app/server/lib/createSavedDoc";
-import { OptDocSession } from "app/server/lib/DocSession";
+import { getDocSessionUser, OptDocSession } from "app/server/lib/DocSession";
+import {
+  AssistantAuditEventAction,
+  AssistantAuditEventDetails,
+} from "app/server/lib/EnterpriseAuditEvent";
 import { expressWrap } from "app/server/lib/expressWrap";
 import { GristServer } from "app/server/lib/GristServer";
 import {
@@ -59,30 +135,55 @@ import {
   OpenAIChatCompletion,
   OpenAITool,
 } from "app/server/lib/IAssistant";
+import { importData } from "app/server/lib/importData";
 import { LogMethods } from "app/server/lib/LogMethods";
 import { OPENAI_TOOLS } from "app/server/lib/OpenAITools";
 import {
+  AddAccessRuleParams,
+  AddAccessRuleParamsChecker,
+  AddChartWidgetParams,
+  AddChartWidgetParamsChecker,
+  AddConditionalStyleRuleParams,
+  AddConditionalStyleRuleParamsChecker,
   AddPageWidgetParams,
   AddPageWidgetParamsChecker,
   AddRecordsParams,
   AddRecordsParamsChecker,
+  AddSummaryTableParams,
+  AddSummaryTableParamsChecker,
   AddTableColumnOptions,
   AddTableColumnParams,
   AddTableColumnParamsChecker,
   AddTableParams,
   AddTableParamsChecker,
+  GetChartWidgetOptionsParams,
+  GetChartWidgetOptionsParamsChecker,
+  GetConditionalStyleRulesParams,
+  GetConditionalStyleRulesParamsChecker,
   GetPageWidgetSelectByOptionsParams,
   GetPageWidgetSelectByOptionsParamsChecker,
   GetPageWidgetsParams,
   GetPageWidgetsParamsChecker,
   GetTableColumnsParams,
   GetTableColumnsParamsChecker,
+  GetTablesParams,
+  GetTablesParamsChecker,
+  ImportDataParams,
+  ImportDataParamsChecker,
   QueryDocumentParams,
   QueryDocumentParamsChecker,
+  ReadAttachmentParams,
+  ReadAttachmentParamsChecker,
+  RemoveAccessRuleParams,
+  RemoveAccessRuleParamsChecker,
+  RemoveConditionalStyleRuleParams,
+  RemoveConditionalStyleRuleParamsChecker,
   RemovePageParams,
   RemovePageParamsChecker,
   RemovePageWidgetParams,
   RemovePageWidgetParamsChecker,
+  RemoveScheduledReportParams,
+  RemoveScheduledReportParamsChecker,
   RemoveRecordsParams,
   RemoveRecordsParamsChecker,
   RemoveTableColumnParams,
@@ -91,32 +192,55 @@ import {
   RemoveTableParamsChecker,
   RenameTableParams,
   RenameTableParamsChecker,
+  ReorderConditionalStyleRulesParams,
+  ReorderConditionalStyleRulesParamsChecker,
+  ScheduleReportParams,
+  ScheduleReportParamsChecker,
   SetPageWidgetSelectByParams,
   SetPageWidgetSelectByParamsChecker,
+  TestFormulaParamsChecker,
+  UpdateAccessRuleParams,
+  UpdateAccessRuleParamsChecker,
+  UpdateChartWidgetParams,
+  UpdateChartWidgetParamsChecker,
   UpdatePageParams,
   UpdatePageParamsChecker,
   UpdatePageWidgetParams,
   UpdatePageWidgetParamsChecker,
   UpdateRecordsParams,
   UpdateRecordsParamsChecker,
+  UpdateSummaryTableParams,
+  UpdateSummaryTableParamsChecker,
   UpdateTableColumnOptions,
   UpdateTableColumnParams,
   UpdateTableColumnParamsChecker,
+  WidgetSelectBy,
 } from "app/server/lib/OpenAIToolTypes";
+import { formatRunTime } from "app/server/lib/reportSchedule";
 import {
   getScope,
   optStringParam,
   stringParam,
 } from "app/server/lib/requestUtils";
-import { runSQLQuery } from "app/server/lib/runSQLQuery";
+import { runRestrictedSQLQuery } from "app/server/lib/restrictedSQLQuery";
 import { getSelectByOptions } from "app/server/lib/selectBy";
+import {
+  sendServerSentEvent,
+  startServerSentEvents,
+} from "app/server/lib/serverSentEvents";
 import { shortDesc } from "app/server/lib/shortDesc";
+import {
+  getVisibleDoc,
+  getVisibleDocData,
+  listWorkspaceDocuments,
+  openWorkspaceDocument,
+} from "app/server/lib/workspaceDocuments";
 import * as express from "express";
 import { isEmpty, omit, pick } from "lodash";
 import moment from "moment";
 import fetch from "node-fetch";
 
-export const DEPS = { fetch, delayTime: 1000 };
+export const DEPS = { fetch, delayTime: 1000, policyCacheTtlMs: 60 * 1000 };
 
 // TODO: move this to a common location.
 // Perhaps merge it with the one in DocData.ts?
@@ -134,11 +258,47 @@ interface ColInfo {
   widgetOptions: string;
 }
 
+export interface OpenAIAssistantV2Options extends AssistantV2Options {
+  /**
+   * The API spoken by the completion endpoint. Defaults to "openai".
+   */
+  provider?: AssistantProviderName;
+  /**
+   * If true, `POST /api/docs/:docId/assistant/stream` is available, and
+   * completions requested through it are streamed from the endpoint.
+   */
+  streaming?: boolean;
+  /**
+   * If true, modifications made by tools aren't applied. They are returned
+   * as `proposedChanges` instead, for the user to apply or discard.
+   */
+  previewChanges?: boolean;
+  /**
+   * Limits on the tokens each org may use. Checked before every request to
+   * the endpoint.
+   */
+  usageLimits?: AssistantUsageLimits;
+}
+
+/**
+ * Who a completion is for, for usage accounting.
+ */
+interface UsageKey {
+  orgId: number | null;
+  userId: number | null;
+  docId: string;
+}
+
 /**
  * A flavor of assistant for use with the OpenAI chat completion endpoint
  * and tools with a compatible endpoint (e.g. llama-cpp-python).
  * Tested primarily with gpt-4o.
  *
+ * Other APIs are supported through provider adapters (see
+ * AssistantProviders.ts), selected with ASSISTANT_PROVIDER. Conversation
+ * state is always kept in the OpenAI format, and translated by the adapter
+ * for each request.
+ *
  * In addition to everything supported by OpenAIAssistantV1, this assistant
  * supports basic table data operations (add/update/delete), SQL analysis of
  * document structure and data, and expanded formula assistance support
@@ -146,23 +306,58 @@ interface ColInfo {
  * the model to make tool/function calls. An optional ASSISTANT_MAX_TOOL_CALLS
  * can be specified.
  *
- * Uses the ASSISTANT_CHAT_COMPLETION_ENDPOINT endpoint if set, else an
- * OpenAI endpoint. Passes ASSISTANT_API_KEY or OPENAI_API_KEY in a
- * header if set. An api key is required for the default OpenAI endpoint.
+ * Uses the ASSISTANT_CHAT_COMPLETION_ENDPOINT endpoint if set, else the
+ * provider's default endpoint. Passes ASSISTANT_API_KEY or OPENAI_API_KEY in a
+ * header if set. An api key is required for the default OpenAI and
+ * Anthropic endpoints. Ollama has no default endpoint, so one must be set.
  *
  * If a model string is set in ASSISTANT_MODEL, this will be passed
- * along. For the default OpenAI endpoint, a gpt-4o variant will be
- * set by default.
+ * along. For the default OpenAI and Anthropic endpoints, a default
+ * model will be set.
  *
  * If a request fails because of context length limitation, and
  * ASSISTANT_LONGER_CONTEXT_MODEL is set, the request will be retried
- * with that model.
+ * with that model. If it still fails, older parts of the conversation are
+ * truncated or dropped (see compactMessages.ts) and the request retried.
  *
  * An optional ASSISTANT_MAX_TOKENS can be specified.
+ *
+ * Clients request assistance through a server-sent event endpoint. If
+ * ASSISTANT_STREAMING is set, it reports partial replies, tool calls and
+ * applied actions as they happen, and the completion endpoint must support
+ * `stream: true`.
+ *
+ * If ASSISTANT_PREVIEW_CHANGES is set, tools never modify the document.
+ * The user actions they would have applied are returned with the response,
+ * and applied by the client only if the user accepts them.
+ *
+ * Tokens used by each completion are recorded in the home DB, per org, user
+ * and document. ASSISTANT_DAILY_TOKEN_LIMIT and ASSISTANT_MONTHLY_TOKEN_LIMIT
+ * cap the tokens each org may use.
+ *
+ * Clients save conversations in the home DB, so they can be reopened later
+ * (see assistantConversations.ts).
+ *
+ * Install admins may restrict the assistant with policies, for the whole
+ * installation or per org (see AssistantPolicies.ts). A policy limits which
+ * tools are offered to the model and may be called, and adds instructions to
+ * the prompt. Policies are cached per document for a minute.
+ *
+ * A policy may also ask for values like email addresses to be masked before
+ * anything is sent to the model (see assistantRedaction.ts). Masked values
+ * are restored in the model's replies and tool calls, and what was masked is
+ * recorded in the audit log.
+ *
+ * Messages from users and the tools the model calls are recorded in the audit
+ * log too, so that changes made by the assistant can be traced to the user
+ * it acted for. Cell values in tool parameters are left out.
+ *
+ * If Redis is configured, users can ask for the answer to a question to be
+ * emailed to them on a schedule. The assistant saves the query it used as a
+ * report, which GristJobs runs on its schedule (see assistantReports.ts).
  */
 export class OpenAIAssistantV2 implements AssistantV2 {
   public static readonly VERSION = 2;
-  public static readonly DEFAULT_MODEL = "gpt-4o-2024-08-06";
   public static readonly DEFAULT_LONGER_CONTEXT_MODEL = undefined;
 
   private readonly _log = new LogMethods(
@@ -171,19 +366,27 @@ export class OpenAIAssistantV2 implements AssistantV2 {
       info ? info.doc.getLogMeta(info.docSession) : {}
   );
 
+  private _adapter = createProviderAdapter(this._options.provider ?? "openai");
   private _apiKey = this._options.apiKey;
-  private _endpoint =
-    this._options.completionEndpoint ??
-    "https://api.openai.com/v1/chat/completions";
+  private _endpoint: string;
   private _model = this._options.model ?? null;
   private _longerContextModel = this._options.longerContextModel;
   private _maxTokens = this._options.maxTokens;
   private _maxToolCalls = this._options.maxToolCalls ?? 10;
   private _structuredOutput = this._options.structuredOutput ?? false;
+  private _streaming = this._options.streaming ?? false;
+  private _previewChanges = this._options.previewChanges ?? false;
+  private _usageLimits = this._options.usageLimits ?? {};
+  private _usage?: AssistantUsage;
+  private _policies?: AssistantPolicies;
+  private _docPolicies = new MapWithTTL<string, Promise<AssistantPolicy>>(
+    DEPS.policyCacheTtlMs
+  );
+  private _reports?: AssistantReportScheduler | null;
 
   public constructor(
     private _gristServer: GristServer,
-    private _options: AssistantV2Options
+    private _options: OpenAIAssistantV2Options
   ) {
     if (!this._apiKey && !_options.completionEndpoint) {
       throw new Error(
@@ -191,8 +394,23 @@ export class OpenAIAssistantV2 implements AssistantV2 {
       );
     }
 
+    const endpoint =
+      _options.completionEndpoint ?? this._adapter.defaultEndpoint;
+    if (!endpoint) {
+      throw new Error(
+        `Please set ASSISTANT_CHAT_COMPLETION_ENDPOINT for the ${this._adapter.name} provider`
+      );
+    }
+    this._endpoint = endpoint;
+
+    if (this._structuredOutput && !this._adapter.supportsStructuredOutput) {
+      throw new Error(
+        `Structured output is not supported by the ${this._adapter.name} provider`
+      );
+    }
+
     if (!_options.completionEndpoint) {
-      this._model ||= OpenAIAssistantV2.DEFAULT_MODEL;
+      this._model ||= this._adapter.defaultModel;
       this._longerContextModel ||=
         OpenAIAssistantV2.DEFAULT_LONGER_CONTEXT_MODEL;
     }
@@ -203,47 +421,20 @@ export class OpenAIAssistantV2 implements AssistantV2 {
     doc: AssistanceDoc,
     request: AssistanceRequestV2
   ): Promise<AssistanceResponseV2> {
-    let completion = await this._getCompletion(docSession, doc, request);
-    let calls = 0;
-    const appliedActions: ApplyUAResult[] = [];
-    while (completion.choice.finish_reason === "tool_calls") {
-      if (calls > this._maxToolCalls) {
-        this._log.error(
-          { docSession, doc },
-          `exceeded max tool calls (${this._maxToolCalls})`
-        );
-        throw new Error(
-          "There was a problem fulfilling your request. Please try again."
-        );
-      }
-      const result = await this._handleToolCalls(
-        docSession,
-        doc,
-        request,
-        completion
-      );
-      if (result.appliedActions) {
-        appliedActions.push(...result.appliedActions);
-      }
-      completion = result.completion;
-      calls++;
-    }
-    const response = this._buildResponse(completion, appliedActions);
-    doc.logTelemetryEvent(docSession, "assistantReceive", {
-      full: {
-        version: 2,
-        conversationId: request.conversationId,
-        context: request.context,
-        response: {
-          index: response.state?.messages
-            ? response.state.messages.length - 1
-            : -1,
-          content: response.reply,
-        },
-        developerPromptVersion: request.developerPromptVersion,
-      },
-    });
-    return response;
+    return this._getAssistance(docSession, doc, request);
+  }
+
+  /**
+   * Like `getAssistance`, but streams completions from the endpoint and
+   * reports progress to `listener` as it happens.
+   */
+  public async streamAssistance(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    request: AssistanceRequestV2,
+    listener: AssistanceStreamListener
+  ): Promise<AssistanceResponseV2> {
+    return this._getAssistance(docSession, doc, request, listener);
   }
 
   public get version(): AssistantV2["version"] {
@@ -251,10 +442,17 @@ export class OpenAIAssistantV2 implements AssistantV2 {
   }
 
   public get provider(): AssistantProvider {
-    return getProviderFromHostname(this._endpoint);
+    return this._adapter.name === "openai"
+      ? getProviderFromHostname(this._endpoint)
+      : null;
   }
 
   public addEndpoints(app: express.Application) {
+    this._addStreamEndpoint(app);
+    this._addUndoEndpoint(app);
+    addAssistantConversationEndpoints(app, this._gristServer);
+    addAssistantReportEndpoints(app, this._gristServer);
+    this._getReports()?.startWorker();
     app.post(
       "/api/assistant/start",
       expressWrap(async (req, res) => {
@@ -304,6 +502,167 @@ export class OpenAIAssistantV2 implements AssistantV2 {
     await this._maybeRedirectToNewDocWithPrompt(req, res);
   }
 
+  private async _getAssistance(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    request: AssistanceRequestV2,
+    listener?: AssistanceStreamListener
+  ): Promise<AssistanceResponseV2> {
+    // Only the length of messages is logged: they may include cell values.
+    if (request.text) {
+      this._logAuditEvent(docSession, doc, request, "assistant.send_message", {
+        message: { length: request.text.length },
+      });
+    }
+    // The redactor is shared by all completions of the request, so that values
+    // are only looked up once, and masked the same way throughout.
+    const redactor = await createRedactor(
+      docSession,
+      doc,
+      await this._getPolicy(doc)
+    );
+    try {
+      let completion = await this._getCompletion(
+        docSession,
+        doc,
+        request,
+        redactor,
+        listener
+      );
+      let calls = 0;
+      const appliedActions: ApplyUAResult[] = [];
+      const proposedChanges: AssistanceProposedChange[] | undefined = this
+        ._previewChanges
+        ? []
+        : undefined;
+      while (completion.choice.finish_reason === "tool_calls") {
+        if (calls > this._maxToolCalls) {
+          this._log.error(
+            { docSession, doc },
+            `exceeded max tool calls (${this._maxToolCalls})`
+          );
+          throw new Error(
+            "There was a problem fulfilling your request. Please try again."
+          );
+        }
+        const result = await this._handleToolCalls(
+          docSession,
+          doc,
+          request,
+          completion,
+          redactor,
+          listener,
+          proposedChanges
+        );
+        if (result.appliedActions) {
+          appliedActions.push(...result.appliedActions);
+        }
+        completion = result.completion;
+        calls++;
+      }
+      const response = this._buildResponse(
+        completion,
+        appliedActions,
+        proposedChanges
+      );
+      doc.logTelemetryEvent(docSession, "assistantReceive", {
+        full: {
+          version: 2,
+          conversationId: request.conversationId,
+          context: request.context,
+          response: {
+            index: response.state?.messages
+              ? response.state.messages.length - 1
+              : -1,
+            content: response.reply,
+          },
+          developerPromptVersion: request.developerPromptVersion,
+        },
+      });
+      return response;
+    } finally {
+      // Redacted messages were sent even if a completion then failed.
+      if (redactor?.hasRedactions()) {
+        this._logAuditEvent(docSession, doc, request, "assistant.redact", {
+          redactions: redactor.getSummary(),
+        });
+      }
+    }
+  }
+
+  // The assistant popup sends all requests here, rather than through the
+  // document's websocket, so that viewers may use it too. If streaming isn't
+  // enabled, the stream only has the final response.
+  private _addStreamEndpoint(app: express.Application) {
+    app.post(
+      "/api/docs/:docId/assistant/stream",
+      expressWrap(async (req, res) => {
+        // Any error, e.g. for a missing document or conversation, is
+        // sent as an event, so that clients can tell it apart from the
+        // endpoint itself being missing (e.g. on an older server).
+        startServerSentEvents(res);
+        const send = (event: AssistanceStreamEvent) =>
+          sendServerSentEvent(res, event);
+        try {
+          const { docSession, doc } = await getAssistanceDocForRequest(
+            this._gristServer,
+            req
+          );
+          const request: AssistanceRequestV2 = {
+            ...req.body,
+            conversationId: stringParam(
+              req.body.conversationId,
+              "conversationId"
+            ),
+          };
+          const response = this._streaming
+            ? await this.streamAssistance(docSession, doc, request, send)
+            : await this.getAssistance(docSession, doc, request);
+          send({ type: "response", response });
+        } catch (e) {
+          this._log.warn(null, "streamAssistance error", e);
+          send({
+            type: "error",
+            message: e?.message ?? String(e),
+            status: e?.status,
+          });
+        } finally {
+          res.end();
+        }
+      })
+    );
+  }
+
+  private _addUndoEndpoint(app: express.Application) {
+    app.post(
+      "/api/docs/:docId/assistant/undo",
+      expressWrap(async (req, res) => {
+        const actions: AssistanceActionRef[] = req.body.actions;
+        if (
+          !Array.isArray(actions) ||
+          !actions.every(
+            (a) =>
+              typeof a?.actionNum === "number" &&
+              typeof a?.actionHash === "string"
+          )
+        ) {
+          throw new ApiError(
+            "actions must be a list of { actionNum, actionHash }",
+            400
+          );
+        }
+
+        const { docSession, doc } = await getAssistanceDocForRequest(
+          this._gristServer,
+          req,
+          "editors"
+        );
+        await undoAssistantActions(docSession, doc, actions);
+        res.json(null);
+      })
+    );
+  }
+
   private async _maybeRedirectToNewDocWithPrompt(
     req: express.Request,
     res: express.Response
@@ -355,17 +714,99 @@ export class OpenAIAssistantV2 implements AssistantV2 {
   private async _getCompletion(
     docSession: OptDocSession,
     doc: AssistanceDoc,
-    request: AssistanceRequestV2
+    request: AssistanceRequestV2,
+    redactor: Redactor | null,
+    listener?: AssistanceStreamListener
   ): Promise<OpenAIChatCompletion> {
-    const messages = await this._buildMessages(doc, request);
+    const policy = await this._getPolicy(doc);
+    let messages = await this._buildMessages(
+      await getVisibleDoc(docSession, doc),
+      request,
+      policy
+    );
     this._logSendCompletionTelemetry({
       docSession,
       doc,
       request,
-      messages,
+      messages: redactor?.redactMessages(messages) ?? messages,
     });
 
     const user = getUserHash(docSession);
+    const usageKey = await this._getUsageKey(docSession, doc);
+    if (usageKey.orgId !== null) {
+      await this._getUsage().checkLimits(usageKey.orgId, this._usageLimits);
+    }
+
+    // If the conversation no longer fits in the context window, compact it
+    // progressively until it does. The compacted messages become part of the
+    // returned state, so later requests start out smaller too.
+    let level = 0;
+    for (;;) {
+      try {
+        return await this._fetchCompletionWithModels(messages, {
+          user,
+          listener,
+          usageKey,
+          policy,
+          redactor,
+        });
+      } catch (e) {
+        if (
+          !(e instanceof TokensExceededLaterMessageError) ||
+          level >= MAX_COMPACTION_LEVEL
+        ) {
+          throw e;
+        }
+
+        level += 1;
+        const compacted = compactMessages(messages, level);
+        this._log.info(
+          { docSession, doc },
+          `compacted conversation from ${messages.length} to ` +
+            `${compacted.length} messages (level ${level})`
+        );
+        messages = compacted;
+      }
+    }
+  }
+
+  /**
+   * Records an event in the audit log, with details of the document and
+   * conversation it happened in. Only the enterprise audit logger records
+   * assistant events.
+   */
+  private _logAuditEvent<Action extends AssistantAuditEventAction>(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    request: AssistanceRequestV2,
+    action: Action,
+    details: AssistantAuditEventDetails[Action]
+  ) {
+    const auditLogger = this._gristServer.getAuditLogger();
+    if (!(auditLogger instanceof AuditLogger)) {
+      return;
+    }
+
+    auditLogger.logAssistantEvent(docSession, {
+      action,
+      details: {
+        document: { id: doc.docName },
+        conversation: { id: request.conversationId },
+        ...details,
+      },
+    });
+  }
+
+  private async _fetchCompletionWithModels(
+    messages: AssistanceMessage[],
+    params: {
+      user: string;
+      listener?: AssistanceStreamListener;
+      usageKey: UsageKey;
+      policy: AssistantPolicy;
+      redactor: Redactor | null;
+    }
+  ): Promise<OpenAIChatCompletion> {
     let lastError: Error | undefined;
 
     // First try fetching the completion with the default model. If we hit the
@@ -378,7 +819,7 @@ export class OpenAIAssistantV2 implements AssistantV2 {
 
       try {
         return await this._fetchCompletionWithRetries(messages, {
-          user,
+          ...params,
           model,
         });
       } catch (e) {
@@ -395,10 +836,11 @@ export class OpenAIAssistantV2 implements AssistantV2 {
 
   private async _buildMessages(
     doc: AssistanceDoc,
-    request: AssistanceRequestV2
+    request: AssistanceRequestV2,
+    policy: AssistantPolicy
   ) {
     const messages = request.state?.messages || [];
-    messages[0] = await this._getDeveloperPrompt(doc, request);
+    messages[0] = await this._getDeveloperPrompt(doc, request, policy);
     if (request.text) {
       messages.push({
         role: "user",
@@ -441,41 +883,59 @@ export class OpenAIAssistantV2 implements AssistantV2 {
     params: {
       user: string;
       model: string | null;
+      listener?: AssistanceStreamListener;
+      usageKey: UsageKey;
+      policy: AssistantPolicy;
+      redactor: Redactor | null;
     }
   ): Promise<OpenAIChatCompletion> {
-    const { user, model } = params;
+    const { user, model, listener, usageKey, policy, redactor } = params;
+    listener?.({ type: "message_start" });
+    const stream =
+      listener && redactor ? redactor.restoreStream(listener) : undefined;
     const apiResponse = await DEPS.fetch(this._endpoint, {
       method: "POST",
       headers: {
-        ...(this._apiKey
-          ? {
-              Authorization: `Bearer ${this._apiKey}`,
-              "api-key": this._apiKey,
-            }
-          : undefined),
+        ...this._adapter.getHeaders(this._apiKey),
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({
-        messages,
-        temperature: 0,
-        ...(model ? { model } : undefined),
-        response_format: this._getResponseFormat(),
-        tools: this._getTools(),
-        user,
-        ...(this._maxTokens
-          ? {
-              max_tokens: this._maxTokens,
-            }
-          : undefined),
-      }),
+      body: JSON.stringify(
+        this._adapter.getBody({
+          messages: redactor?.redactMessages(messages) ?? messages,
+          tools: this._getTools(policy),
+          model,
+          user,
+          maxTokens: this._maxTokens,
+          responseSchema: this._getResponseSchema(),
+          stream: Boolean(listener),
+        })
+      ),
     });
-    const resultText = await apiResponse.text();
-    const result = JSON.parse(resultText);
+    let resultText: string;
+    let result: CompletionResult;
+    if (listener && apiResponse.status === 200) {
+      result = await this._adapter.readStream(apiResponse.body, (content) => {
+        if (!this._structuredOutput) {
+          (stream?.listener ?? listener)({ type: "delta", content });
+        }
+      });
+      stream?.flush();
+      resultText = JSON.stringify(result);
+    } else {
+      resultText = await apiResponse.text();
+      result = this._adapter.parseResponse(
+        apiResponse.status,
+        safeJsonParse(resultText, null)
+      );
+    }
+    if (result.usage) {
+      await this._recordUsage(usageKey, model, result.usage);
+    }
     const errorCode = result.error?.code;
     const errorMessage = result.error?.message;
     if (
       errorCode === "context_length_exceeded" ||
-      result.choices?.[0].finish_reason === "length"
+      result.finishReason === "length"
     ) {
       this._log.warn(null, "AI context length exceeded: ", errorMessage);
       if (messages.length <= 2) {
@@ -488,15 +948,19 @@ export class OpenAIAssistantV2 implements AssistantV2 {
       this._log.error(null, "AI service provider billing quota exceeded!!!");
       throw new QuotaExceededError();
     }
-    if (apiResponse.status !== 200) {
+    if (apiResponse.status !== 200 || result.error || !result.message) {
       const message = `AI service provider API returned status ${apiResponse.status}: ${resultText}`;
       this._log.error(null, message);
       throw new Error(message);
     }
-    const {
-      message: { content, refusal, tool_calls },
-      finish_reason,
-    } = result.choices[0];
+    // Conversation state is kept as the user sees it, so masked values are
+    // restored before the reply is stored or acted on.
+    const message = redactor
+      ? redactor.restoreMessage(result.message, {
+          isJsonContent: this._structuredOutput,
+        })
+      : result.message;
+    const { content, refusal, tool_calls } = message;
     return {
       choice: {
         message: {
@@ -504,19 +968,81 @@ export class OpenAIAssistantV2 implements AssistantV2 {
           refusal,
           tool_calls,
         },
-        finish_reason,
+        finish_reason: result.finishReason,
       },
       state: {
-        messages: [...messages, result.choices[0].message],
+        messages: [...messages, message],
       },
     };
   }
 
+  private _getPolicy(doc: AssistanceDoc): Promise<AssistantPolicy> {
+    const docId = doc.docName;
+    let policy = this._docPolicies.get(docId);
+    if (!policy) {
+      policy = this._fetchPolicy(doc);
+      this._docPolicies.set(docId, policy);
+      // Don't keep failures around; the next request should try again.
+      policy.catch(() => this._docPolicies.delete(docId));
+    }
+    return policy;
+  }
+
+  private async _fetchPolicy(doc: AssistanceDoc): Promise<AssistantPolicy> {
+    const orgId = await this._getOrgId(doc);
+    this._policies ??= new AssistantPolicies(
+      this._gristServer.getHomeDBManager()
+    );
+    return this._policies.getEffectivePolicy(orgId);
+  }
+
+  private _getUsage() {
+    return (this._usage ??= new AssistantUsage(
+      this._gristServer.getHomeDBManager()
+    ));
+  }
+
+  private async _getUsageKey(
+    docSession: OptDocSession,
+    doc: AssistanceDoc
+  ): Promise<UsageKey> {
+    const docId = doc.docName;
+    const userId = getDocSessionUser(docSession)?.id ?? null;
+    return { orgId: await this._getOrgId(doc), userId, docId };
+  }
+
+  // The org of the document, or of its trunk if it's a fork. Throws if the
+  // document can't be found, rather than skip its org's limits and policy.
+  private async _getOrgId(doc: AssistanceDoc): Promise<number> {
+    const { trunkId } = parseUrlId(doc.docName);
+    const docRecord = await this._gristServer
+      .getHomeDBManager()
+      .getRawDocById(trunkId);
+    return docRecord.workspace.org.id;
+  }
+
+  // Failing to record usage shouldn't fail the request it's for.
+  private async _recordUsage(
+    usageKey: UsageKey,
+    model: string | null,
+    usage: CompletionUsage
+  ) {
+    try {
+      await this._getUsage().recordUsage({ ...usageKey, model, ...usage });
+    } catch (e) {
+      this._log.error(null, "failed to record usage", e);
+    }
+  }
+
   private async _fetchCompletionWithRetries(
     messages: AssistanceMessage[],
     params: {
       user: string;
       model: string | null;
+      listener?: AssistanceStreamListener;
+      usageKey: UsageKey;
+      policy: AssistantPolicy;
+      redactor: Redactor | null;
     }
   ): Promise<OpenAIChatCompletion> {
     let lastError: Error;
@@ -561,7 +1087,8 @@ export class OpenAIAssistantV2 implements AssistantV2 {
    */
   private async _getDeveloperPrompt(
     doc: AssistanceDoc,
-    request: AssistanceRequestV2
+    request: AssistanceRequestV2,
+    policy: AssistantPolicy
   ): Promise<AssistanceMessage> {
     const {
       context: { viewId },
@@ -596,20 +1123,61 @@ After adding tables, ALWAYS ask the user if they'd like to add a few example rec
 Follow idiomatic Grist conventions, like using Reference columns to link records from
 related tables.
 Always explain proposed changes in plain language.
-DO NOT call modification APIs (e.g. add_records, update_records) until users confirm explicitly.
+${
+  this._previewChanges
+    ? "Calls to modification APIs (e.g. add_records, update_records) are not applied right away. " +
+      "They are shown to the user after your reply, and applied together only if the user accepts them. " +
+      "Don't ask for confirmation first; summarize the changes you proposed instead. " +
+      "Changes can't depend on other changes proposed in the same reply (e.g. adding records to a new table). " +
+      "Propose those after the user has applied the earlier changes."
+    : "DO NOT call modification APIs (e.g. add_records, update_records) until users confirm explicitly."
+}
+${
+  policy.readOnly
+    ? "You can't modify the document on this site. If users ask for changes, " +
+      "explain how they can make them themselves."
+    : ""
+}
 </instructions>
-
+${
+  policy.instructions
+    ? `
+<site_instructions>
+The administrator of this site has given these additional instructions:
+${policy.instructions}
+</site_instructions>
+`
+    : ""
+}${
+  isRedactionEnabled(policy)
+    ? `
+<redaction_instructions>
+Some values, like email addresses, are replaced with placeholders such as [EMAIL_1], [PHONE_1] or [REDACTED_1] before you see them.
+Each placeholder always stands for the same value. Use placeholders as if they were the values, including in tool calls and formulas; they are replaced with the real values before being used or shown to the user.
+Don't try to guess masked values, and don't ask the user for them.
+</redaction_instructions>
+`
+    : ""
+}
 <tool_instructions>
 Use get_tables and get_table_columns to discover valid IDs.
 When the user refers to a column label, match it to the ID using get_table_columns.
 If a table or column doesn't exist, check it hasn't been removed since you last queried the schema.
-If a call fails due to insufficient access, tell the user they need full access to the document.
 Use get_grist_access_rules_reference to learn how to answer questions about document access.
+Before changing access rules, call the tool with dry_run set to true, tell the user which users
+would gain or lose access, and only make the change once they confirm.
 </tool_instructions>
 
 <query_document_instructions>
 Generate a single SQL SELECT query and call query_document.
 Only SQLite-compatible SQL is supported.
+Users without full access to the document can still query it: results only
+include the rows and columns they can see.
+To answer questions that span documents (e.g. comparing budgets across
+quarters), call get_workspace_documents, then get_tables and query_document
+with the other document's doc_id. Other documents can only be read.
+When the user wants an answer regularly (e.g. "every Monday, send me..."),
+check the query with query_document, then save it with schedule_report.
 </query_document_instructions>
 
 <modification_instructions>
@@ -620,7 +1188,7 @@ Always use column IDs, not labels, when calling add_records or update_records.
 Every table has an "id" column. NEVER set or modify it - only use it to
 specify which records to update or remove.
 Don't add ID columns when creating tables unless explicitly asked.
-Only records, columns, pages, widgets, and tables can be modified.
+Only records, columns, pages, widgets, tables, and access rules can be modified.
 When adding reference columns, try to set reference_show_column_id to a
 sensible column instead of leaving it unset, which defaults to showing
 the row ID.
@@ -629,8 +1197,18 @@ a user asks you to create new tables, remove it.
 When setting choice_styles, only use values like:
 \`{"Choice 1": {"textColor": "#FFFFFF", "fillColor": "#16B378",
 "fontUnderline": false, "fontItalic": false, "fontStrikethrough": false}}\`
-conditional_formatting_rules is not yet supported. Tell users to
-configure it manually from the creator panel, below "Cell Style".
+To style cells or records based on their values, use conditional style
+rules (add_conditional_style_rule), with a condition formula and a style
+like \`{"textColor": "#FFFFFF", "fillColor": "#E00A17", "fontBold": true}\`.
+Set column_id to style a column's cells, or null to style whole records
+in the widget widget_id (or in the table's raw data, if null).
+Call get_conditional_style_rules before reordering or removing rules.
+To build dashboards, use add_summary_table for totals and other aggregates
+grouped by some columns, and add_chart_widget to chart them. Pass the same
+group_by_column_ids to add_chart_widget to chart a summary table, and refer
+to the summary table's columns in chart_options. Then link widgets with
+widget_select_by or set_page_widget_select_by, so that selecting a group
+filters the other widgets on the page.
 Use values appropriate for each column's type (see table below).
 Prefix lists with an "L" element (e.g., \`["L", 1, 2, 3]\`).
 
@@ -648,6 +1226,14 @@ Prefix lists with an "L" element (e.g., \`["L", 1, 2, 3]\`).
 | Ref         | number       | ID of a record in the referenced table               | \`25\`                         |
 | RefList     | array        | List of record IDs from the referenced table         | \`["L", 11, 12, 13]\`          |
 | Attachments | array        | List of record IDs from the _grist_Attachments table | \`["L", 98, 99]\`              |
+
+To read the content of an attachment (e.g. to add records from a CSV, XLSX
+or PDF file the user uploaded), call read_attachment with its record ID.
+Confirm with the user how the content maps to tables and columns before
+adding records from it.
+To add more than a few records, call import_data instead of add_records,
+with CSV or JSON text, or a CSV or XLSX attachment. Tell the user about any
+values it reports as invalid.
 </modification_instructions>
 
 <formula_instructions>
@@ -715,42 +1301,55 @@ ${view ? `The user is currently on page ${view.name} (id: ${viewId}).` : ""}
     };
   }
 
-  private _getResponseFormat() {
+  private _getResponseSchema() {
     if (this._structuredOutput) {
       return {
-        type: "json_schema",
-        json_schema: {
-          name: "response",
-          strict: true,
-          schema: {
-            type: "object",
-            properties: {
-              response_text: {
-                type: "string",
-              },
-              confirmation_required: {
-                type: "boolean",
-              },
-            },
-            required: ["response_text", "confirmation_required"],
-            additionalProperties: false,
+        type: "object",
+        properties: {
+          response_text: {
+            type: "string",
+          },
+          confirmation_required: {
+            type: "boolean",
           },
         },
+        required: ["response_text", "confirmation_required"],
+        additionalProperties: false,
       };
     } else {
       return undefined;
     }
   }
 
-  private _getTools(): OpenAITool[] {
-    return OPENAI_TOOLS;
+  private _getTools(policy: AssistantPolicy): OpenAITool[] {
+    return OPENAI_TOOLS.filter(
+      (tool) =>
+        isToolAllowedByPolicy(policy, tool.function.name) &&
+        !UNAVAILABLE_TOOLS.includes(tool.function.name) &&
+        (!REPORT_TOOLS.includes(tool.function.name) || this._getReports()) &&
+        !(
+          this._previewChanges &&
+          UNPREVIEWABLE_TOOLS.includes(tool.function.name)
+        )
+    );
+  }
+
+  // Reports are only available if Redis is configured.
+  private _getReports(): AssistantReportScheduler | null {
+    if (this._reports === undefined) {
+      this._reports = createAssistantReportScheduler(this._gristServer) ?? null;
+    }
+    return this._reports;
   }
 
   private async _handleToolCalls(
     docSession: OptDocSession,
     doc: AssistanceDoc,
     request: AssistanceRequestV2,
-    completion: OpenAIChatCompletion
+    completion: OpenAIChatCompletion,
+    redactor: Redactor | null,
+    listener?: AssistanceStreamListener,
+    proposedChanges?: AssistanceProposedChange[]
   ) {
     const {
       choice: { message },
@@ -762,12 +1361,28 @@ ${view ? `The user is currently on page ${view.name} (id: ${viewId}).` : ""}
         id,
         function: { name, arguments: args },
       } = call;
+      listener?.({ type: "tool_call_start", id, name });
+      const params = safeJsonParse(args, {});
+      const userActions: UserAction[] = [];
       const result = await this._callFunction(
         docSession,
         doc,
         name,
-        safeJsonParse(args, {})
+        params,
+        userActions,
+        proposedChanges
+      );
+      this._logAuditEvent(docSession, doc, request, "assistant.call_tool", {
+        ...getToolCallAuditDetails(name, id, params, result, userActions),
+        preview: Boolean(proposedChanges),
+      });
+      listener?.({ type: "tool_call_finish", id, name, ok: result.ok });
+      const modifications = result.appliedActions.filter(
+        (a) => a.isModification
       );
+      if (modifications.length > 0) {
+        listener?.({ type: "applied_actions", appliedActions: modifications });
+      }
       toolCallIdsAndResults.push([id, result]);
     }
     request = {
@@ -791,19 +1406,35 @@ ${view ? `The user is currently on page ${view.name} (id: ${viewId}).` : ""}
       .filter((actions) => actions.filter((a) => a.isModification))
       .flat(1);
     return {
-      completion: await this._getCompletion(docSession, doc, request),
+      completion: await this._getCompletion(
+        docSession,
+        doc,
+        request,
+        redactor,
+        listener
+      ),
       appliedActions,
     };
   }
 
+  /**
+   * Calls a tool. User actions it applies, or would apply if changes are
+   * previewed, are appended to `userActions`.
+   */
   private async _callFunction(
     docSession: OptDocSession,
     doc: AssistanceDoc,
     name: string,
-    params: unknown
+    params: unknown,
+    userActions: UserAction[],
+    proposedChanges?: AssistanceProposedChange[]
   ): Promise<FunctionCallResult> {
     let result: any;
     let appliedActions: ApplyUAResult[] = [];
+    const originalDoc = doc;
+    doc = proposedChanges
+      ? recordUserActions(doc, userActions)
+      : trackUserActions(doc, userActions);
     this._log.debug(
       { docSession, doc },
       "_callFunction(%s, %s)",
@@ -811,9 +1442,30 @@ ${view ? `The user is currently on page ${view.name} (id: ${viewId}).` : ""}
       shortDesc(params)
     );
     try {
+      // Only allowed tools are offered to the model, but that alone doesn't
+      // stop it from calling others.
+      if (!isToolAllowedByPolicy(await this._getPolicy(originalDoc), name)) {
+        throw new Error(`${name} is not allowed on this site`);
+      } else if (proposedChanges && UNPREVIEWABLE_TOOLS.includes(name)) {
+        throw new Error(`${name} can't be used while changes are previewed`);
+      }
+
+      // Tables and columns the user can't see aren't described to the model.
+      if (METADATA_TOOLS.includes(name)) {
+        doc = await getVisibleDoc(docSession, doc);
+      }
+
       switch (name) {
         case "get_tables": {
-          result = this._getTables(doc);
+          result = await this._getTables(docSession, doc, params);
+          break;
+        }
+        case "get_workspace_documents": {
+          result = await listWorkspaceDocuments(
+            this._gristServer,
+            docSession,
+            doc
+          );
           break;
         }
         case "add_table": {
@@ -868,6 +1520,31 @@ ${view ? `The user is currently on page ${view.name} (id: ${viewId}).` : ""}
           ));
           break;
         }
+        case "get_conditional_style_rules": {
+          result = this._getConditionalStyleRules(doc, params);
+          break;
+        }
+        case "add_conditional_style_rule": {
+          ({ result, appliedActions } = await this._addConditionalStyleRule(
+            docSession,
+            doc,
+            params
+          ));
+          break;
+        }
+        case "reorder_conditional_style_rules": {
+          ({ result, appliedActions } =
+            await this._reorderConditionalStyleRules(docSession, doc, params));
+          break;
+        }
+        case "remove_conditional_style_rule": {
+          ({ result, appliedActions } = await this._removeConditionalStyleRule(
+            docSession,
+            doc,
+            params
+          ));
+          break;
+        }
         case "get_pages": {
           result = this._getPages(doc);
           break;
@@ -934,6 +1611,42 @@ ${view ? `The user is currently on page ${view.name} (id: ${viewId}).` : ""}
           ));
           break;
         }
+        case "add_summary_table": {
+          ({ result, appliedActions } = await this._addSummaryTable(
+            docSession,
+            doc,
+            params
+          ));
+          break;
+        }
+        case "update_summary_table": {
+          ({ result, appliedActions } = await this._updateSummaryTable(
+            docSession,
+            doc,
+            params
+          ));
+          break;
+        }
+        case "get_chart_widget_options": {
+          result = this._getChartWidgetOptions(doc, params);
+          break;
+        }
+        case "add_chart_widget": {
+          ({ result, appliedActions } = await this._addChartWidget(
+            docSession,
+            doc,
+            params
+          ));
+          break;
+        }
+        case "update_chart_widget": {
+          ({ result, appliedActions } = await this._updateChartWidget(
+            docSession,
+            doc,
+            params
+          ));
+          break;
+        }
         case "get_available_custom_widgets": {
           result = await this._getAvailableCustomWidgets();
           break;
@@ -942,6 +1655,26 @@ ${view ? `The user is currently on page ${view.name} (id: ${viewId}).` : ""}
           result = await this._queryDocument(docSession, doc, params);
           break;
         }
+        case "schedule_report": {
+          result = await this._scheduleReport(docSession, doc, params);
+          break;
+        }
+        case "get_scheduled_reports": {
+          result = await this._getScheduledReports(docSession, doc);
+          break;
+        }
+        case "remove_scheduled_report": {
+          result = await this._removeScheduledReport(docSession, doc, params);
+          break;
+        }
+        case "test_formula": {
+          result = await this._testFormula(params);
+          break;
+        }
+        case "read_attachment": {
+          result = await this._readAttachment(docSession, doc, params);
+          break;
+        }
         case "add_records": {
           ({ result, appliedActions } = await this._addRecords(
             docSession,
@@ -966,6 +1699,42 @@ ${view ? `The user is currently on page ${view.name} (id: ${viewId}).` : ""}
           ));
           break;
         }
+        case "import_data": {
+          ({ result, appliedActions } = await this._importData(
+            docSession,
+            doc,
+            params
+          ));
+          break;
+        }
+        case "get_access_rules": {
+          result = listAccessRules(doc);
+          break;
+        }
+        case "add_access_rule": {
+          ({ result, appliedActions } = await this._addAccessRule(
+            docSession,
+            doc,
+            params
+          ));
+          break;
+        }
+        case "update_access_rule": {
+          ({ result, appliedActions } = await this._updateAccessRule(
+            docSession,
+            doc,
+            params
+          ));
+          break;
+        }
+        case "remove_access_rule": {
+          ({ result, appliedActions } = await this._removeAccessRule(
+            docSession,
+            doc,
+            params
+          ));
+          break;
+        }
         case "get_grist_access_rules_reference": {
           result = this._helpAccessRules();
           break;
@@ -974,6 +1743,14 @@ ${view ? `The user is currently on page ${view.name} (id: ${viewId}).` : ""}
           throw new Error(`Unrecognized function: ${name}`);
         }
       }
+      if (proposedChanges && userActions.length > 0) {
+        proposedChanges.push(
+          await buildProposedChange(docSession, originalDoc, name, userActions)
+        );
+        result =
+          "Not applied yet. The change was added to the proposed changes " +
+          "that the user will apply or discard after your reply.";
+      }
       this._log.debug(
         { docSession, doc },
         "_callFunction returning %s",
@@ -994,11 +1771,92 @@ ${view ? `The user is currently on page ${view.name} (id: ${viewId}).` : ""}
     }
   }
 
+  private async _addAccessRule(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    params: any
+  ) {
+    AddAccessRuleParamsChecker.strictCheck(params);
+    const { dry_run, memo, ...rule } = params as AddAccessRuleParams;
+    let ruleId: number | undefined;
+    const { accessChanges, appliedActions } = await runAccessRuleChange(
+      docSession,
+      doc,
+      async (apply) => {
+        ruleId = await addAccessRule(docSession, doc, apply, {
+          ...rule,
+          memo: memo ?? "",
+        });
+      },
+      {
+        dryRun: dry_run,
+        desc: "Called by OpenAIAssistantV2 (tool: add_access_rule)",
+      }
+    );
+    return {
+      result: {
+        ...(dry_run ? {} : { rule_id: ruleId }),
+        ...describeAccessChanges(accessChanges, dry_run),
+      },
+      appliedActions,
+    };
+  }
+
+  private async _updateAccessRule(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    params: any
+  ) {
+    UpdateAccessRuleParamsChecker.strictCheck(params);
+    const { rule_id, condition, permissions, memo, dry_run } =
+      params as UpdateAccessRuleParams;
+    const { accessChanges, appliedActions } = await runAccessRuleChange(
+      docSession,
+      doc,
+      (apply) =>
+        updateAccessRule(docSession, doc, apply, rule_id, {
+          condition: condition ?? undefined,
+          permissions: permissions ?? undefined,
+          memo: memo ?? undefined,
+        }),
+      {
+        dryRun: dry_run,
+        desc: "Called by OpenAIAssistantV2 (tool: update_access_rule)",
+      }
+    );
+    return {
+      result: describeAccessChanges(accessChanges, dry_run),
+      appliedActions,
+    };
+  }
+
+  private async _removeAccessRule(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    params: any
+  ) {
+    RemoveAccessRuleParamsChecker.strictCheck(params);
+    const { rule_id, dry_run } = params as RemoveAccessRuleParams;
+    const { accessChanges, appliedActions } = await runAccessRuleChange(
+      docSession,
+      doc,
+      (apply) => removeAccessRule(doc, apply, rule_id),
+      {
+        dryRun: dry_run,
+        desc: "Called by OpenAIAssistantV2 (tool: remove_access_rule)",
+      }
+    );
+    return {
+      result: describeAccessChanges(accessChanges, dry_run),
+      appliedActions,
+    };
+  }
+
   private _helpAccessRules() {
     return `<access_rules_help>
 <intro>
 This is background material for the Grist Assistant. Use it to learn how
-to query and read access rules. If the user has a question about access rules,
+to read and change access rules. If the user has a question about access rules,
 answer specifically, explaining the access rules in the document, and not just
 talking in generalities.
 </intro>
@@ -1010,6 +1868,8 @@ Access rules are stored in special tables:
 Join _grist_ACLRules.resource to _grist_ACLResources for context.
 Ignore resources not referenced by a rule.
 Group rules by resource when describing them.
+get_access_rules returns rules in order, with their resources joined.
+Change rules with add_access_rule, update_access_rule, and remove_access_rule.
 </overview>
 
 <schema>
@@ -1056,7 +1916,7 @@ When answering access-rule questions:
 3. For each rule, explain who (formula) and what (permissions).
 4. Highlight row-level conditions (rec, newRec) if present.
 5. First match for each permission wins.
-6. When creating rules, always add a memo starting with [PROPOSED].
+6. When creating rules, add a memo explaining them to users they deny.
 </guidance>
 
 <examples>
@@ -1078,8 +1938,19 @@ Notes:
 </access_rules_help>`;
   }
 
-  private _getTables(doc: AssistanceDoc) {
-    const docData = getDocDataOrThrow(doc);
+  private async _getTables(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    params: any
+  ) {
+    GetTablesParamsChecker.strictCheck(params);
+    const { doc_id } = params as GetTablesParams;
+    let docData = getDocDataOrThrow(doc);
+    if (doc_id) {
+      // Other documents may have tables the user can't see.
+      const other = await this._openWorkspaceDocument(docSession, doc, doc_id);
+      docData = await getVisibleDocData(other.docSession, other.doc);
+    }
     const getTitle = docData
       .getMetaTable("_grist_Views_section")
       .getRowPropFunc("title");
@@ -1320,27 +2191,148 @@ Notes:
       throw new Error(`Column ${columnId} not found`);
     }
 
-    return column;
+    return column;
+  }
+
+  private async _removeTableColumn(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    params: any
+  ) {
+    RemoveTableColumnParamsChecker.strictCheck(params);
+    const { table_id, column_id } = params as RemoveTableColumnParams;
+    const appliedActions = [
+      await handleSandboxError(
+        table_id,
+        [column_id],
+        doc.applyUserActions(
+          docSession,
+          [["RemoveColumn", table_id, column_id]],
+          {
+            desc: "Called by OpenAIAssistantV2 (tool: remove_table_column)",
+          }
+        )
+      ),
+    ];
+    return {
+      result: null,
+      appliedActions,
+    };
+  }
+
+  private _getConditionalStyleRules(doc: AssistanceDoc, params: any) {
+    GetConditionalStyleRulesParamsChecker.strictCheck(params);
+    const { table_id, column_id, widget_id } =
+      params as GetConditionalStyleRulesParams;
+    return getConditionalStyleRules(doc, {
+      tableId: table_id,
+      colId: column_id,
+      sectionId: widget_id,
+    });
+  }
+
+  private async _addConditionalStyleRule(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    params: any
+  ) {
+    AddConditionalStyleRuleParamsChecker.strictCheck(params);
+    const { table_id, column_id, widget_id, condition, style } =
+      params as AddConditionalStyleRuleParams;
+    const target = {
+      tableId: table_id,
+      colId: column_id,
+      sectionId: widget_id,
+    };
+    const count = getConditionalStyleRules(doc, target).length;
+    const options = {
+      desc: "Called by OpenAIAssistantV2 (tool: add_conditional_style_rule)",
+    };
+    // The new rule's helper column is only known once it's added, so the
+    // column is added and made a rule in separate bundles. If the second
+    // fails, the column is removed again.
+    const appliedActions = [
+      await doc.applyUserActions(
+        docSession,
+        [buildAddRuleColumnAction(doc, target)],
+        options
+      ),
+    ];
+    const { colId, colRef } = appliedActions[0].retValues[0];
+    try {
+      appliedActions.push(
+        await handleSandboxError(
+          table_id,
+          [],
+          doc.applyUserActions(
+            docSession,
+            buildAddRuleActions(doc, target, colRef, { condition, style }),
+            options
+          )
+        )
+      );
+    } catch (e) {
+      await doc.applyUserActions(
+        docSession,
+        [["RemoveColumn", table_id, colId]],
+        options
+      );
+      throw e;
+    }
+    return {
+      result: { index: count },
+      appliedActions,
+    };
+  }
+
+  private async _reorderConditionalStyleRules(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    params: any
+  ) {
+    ReorderConditionalStyleRulesParamsChecker.strictCheck(params);
+    const { table_id, column_id, widget_id, rule_order } =
+      params as ReorderConditionalStyleRulesParams;
+    const target = {
+      tableId: table_id,
+      colId: column_id,
+      sectionId: widget_id,
+    };
+    const appliedActions = [
+      await doc.applyUserActions(
+        docSession,
+        buildReorderRulesActions(doc, target, rule_order),
+        {
+          desc: "Called by OpenAIAssistantV2 (tool: reorder_conditional_style_rules)",
+        }
+      ),
+    ];
+    return {
+      result: null,
+      appliedActions,
+    };
   }
 
-  private async _removeTableColumn(
+  private async _removeConditionalStyleRule(
     docSession: OptDocSession,
     doc: AssistanceDoc,
     params: any
   ) {
-    RemoveTableColumnParamsChecker.strictCheck(params);
-    const { table_id, column_id } = params as RemoveTableColumnParams;
+    RemoveConditionalStyleRuleParamsChecker.strictCheck(params);
+    const { table_id, column_id, widget_id, rule_index } =
+      params as RemoveConditionalStyleRuleParams;
+    const target = {
+      tableId: table_id,
+      colId: column_id,
+      sectionId: widget_id,
+    };
     const appliedActions = [
-      await handleSandboxError(
-        table_id,
-        [column_id],
-        doc.applyUserActions(
-          docSession,
-          [["RemoveColumn", table_id, column_id]],
-          {
-            desc: "Called by OpenAIAssistantV2 (tool: remove_table_column)",
-          }
-        )
+      await doc.applyUserActions(
+        docSession,
+        buildRemoveRuleActions(doc, target, rule_index),
+        {
+          desc: "Called by OpenAIAssistantV2 (tool: remove_conditional_style_rule)",
+        }
       ),
     ];
     return {
@@ -1689,6 +2681,272 @@ Notes:
     };
   }
 
+  private async _addSummaryTable(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    params: any
+  ) {
+    AddSummaryTableParamsChecker.strictCheck(params);
+    const {
+      page_id,
+      table_id,
+      group_by_column_ids,
+      summary_columns,
+      widget_select_by,
+    } = params as AddSummaryTableParams;
+    const desc = "Called by OpenAIAssistantV2 (tool: add_summary_table)";
+    const appliedActions: ApplyUAResult[] = [];
+    const { tableRef, viewRef, sectionRef } = await this._createViewSection(
+      docSession,
+      doc,
+      {
+        tableId: table_id,
+        pageId: page_id,
+        type: "record",
+        groupByColIds: group_by_column_ids,
+      },
+      { desc },
+      appliedActions
+    );
+    const tableId = tableRefToId(doc, tableRef);
+    const columnIds = await this._addSummaryColumns(
+      docSession,
+      doc,
+      tableId,
+      summary_columns ?? [],
+      { desc },
+      appliedActions
+    );
+    await this._setNewWidgetSelectBy(
+      docSession,
+      doc,
+      sectionRef,
+      widget_select_by,
+      appliedActions
+    );
+    const result = {
+      table_id: tableId,
+      page_id: viewRef,
+      widget_id: sectionRef,
+      column_ids: columnIds,
+    };
+    return {
+      result,
+      appliedActions,
+    };
+  }
+
+  private async _updateSummaryTable(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    params: any
+  ) {
+    UpdateSummaryTableParamsChecker.strictCheck(params);
+    const { widget_id, group_by_column_ids, summary_columns } =
+      params as UpdateSummaryTableParams;
+    const desc = "Called by OpenAIAssistantV2 (tool: update_summary_table)";
+    const appliedActions: ApplyUAResult[] = [];
+    const sourceTableRef = getTableById(
+      doc,
+      getWidgetById(doc, widget_id).tableRef
+    ).summarySourceTable;
+    if (!sourceTableRef) {
+      throw new Error(`Widget ${widget_id} is not a summary table`);
+    }
+
+    if (group_by_column_ids) {
+      const groupByColRefs = getColRefsOrThrow(
+        doc,
+        sourceTableRef,
+        group_by_column_ids
+      );
+      appliedActions.push(
+        await doc.applyUserActions(
+          docSession,
+          [["UpdateSummaryViewSection", widget_id, groupByColRefs]],
+          { desc }
+        )
+      );
+    }
+    const tableId = tableRefToId(doc, getWidgetById(doc, widget_id).tableRef);
+    const columnIds = await this._addSummaryColumns(
+      docSession,
+      doc,
+      tableId,
+      summary_columns ?? [],
+      { desc },
+      appliedActions
+    );
+    return {
+      result: { table_id: tableId, column_ids: columnIds },
+      appliedActions,
+    };
+  }
+
+  private _getChartWidgetOptions(doc: AssistanceDoc, params: any) {
+    GetChartWidgetOptionsParamsChecker.strictCheck(params);
+    const { widget_id } = params as GetChartWidgetOptionsParams;
+    return getChartWidgetOptions(doc, widget_id);
+  }
+
+  private async _addChartWidget(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    params: any
+  ) {
+    AddChartWidgetParamsChecker.strictCheck(params);
+    const {
+      page_id,
+      table_id,
+      group_by_column_ids,
+      chart_options,
+      widget_select_by,
+    } = params as AddChartWidgetParams;
+    const desc = "Called by OpenAIAssistantV2 (tool: add_chart_widget)";
+    const appliedActions: ApplyUAResult[] = [];
+    const { tableRef, viewRef, sectionRef } = await this._createViewSection(
+      docSession,
+      doc,
+      {
+        tableId: table_id,
+        pageId: page_id,
+        type: "chart",
+        groupByColIds: group_by_column_ids,
+      },
+      { desc },
+      appliedActions
+    );
+    appliedActions.push(
+      await doc.applyUserActions(
+        docSession,
+        buildUpdateChartWidgetActions(doc, sectionRef, chart_options),
+        { desc }
+      )
+    );
+    await this._setNewWidgetSelectBy(
+      docSession,
+      doc,
+      sectionRef,
+      widget_select_by,
+      appliedActions
+    );
+    const result = {
+      table_id: tableRefToId(doc, tableRef),
+      page_id: viewRef,
+      widget_id: sectionRef,
+    };
+    return {
+      result,
+      appliedActions,
+    };
+  }
+
+  private async _updateChartWidget(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    params: any
+  ) {
+    UpdateChartWidgetParamsChecker.strictCheck(params);
+    const { widget_id, chart_options } = params as UpdateChartWidgetParams;
+    const appliedActions = [
+      await doc.applyUserActions(
+        docSession,
+        buildUpdateChartWidgetActions(doc, widget_id, chart_options),
+        {
+          desc: "Called by OpenAIAssistantV2 (tool: update_chart_widget)",
+        }
+      ),
+    ];
+    return {
+      result: null,
+      appliedActions,
+    };
+  }
+
+  /**
+   * Adds a widget of a table to a page, or to a new page if `pageId` is null.
+   * If `groupByColIds` is set, the widget shows a summary table of the table,
+   * which is created if it doesn't exist yet.
+   */
+  private async _createViewSection(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    options: {
+      tableId: string;
+      pageId: number | null;
+      type: string;
+      groupByColIds: string[] | null;
+    },
+    applyUAOptions: ApplyUAOptions,
+    appliedActions: ApplyUAResult[]
+  ): Promise<{ tableRef: number; viewRef: number; sectionRef: number }> {
+    const { tableId, pageId, type, groupByColIds } = options;
+    const tableRef = tableIdToRef(doc, tableId);
+    const groupByColRefs = groupByColIds
+      ? getColRefsOrThrow(doc, tableRef, groupByColIds)
+      : null;
+    const result = await doc.applyUserActions(
+      docSession,
+      [["CreateViewSection", tableRef, pageId ?? 0, type, groupByColRefs, null]],
+      applyUAOptions
+    );
+    appliedActions.push(result);
+    return result.retValues[0];
+  }
+
+  /**
+   * Adds formula columns to a summary table, and returns their IDs, which may
+   * differ from the requested ones if they're already taken.
+   */
+  private async _addSummaryColumns(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    tableId: string,
+    columns: { column_id: string; formula: string }[],
+    applyUAOptions: ApplyUAOptions,
+    appliedActions: ApplyUAResult[]
+  ): Promise<string[]> {
+    if (columns.length === 0) {
+      return [];
+    }
+
+    const result = await handleSandboxError(
+      tableId,
+      columns.map(({ column_id }) => column_id),
+      doc.applyUserActions(
+        docSession,
+        columns.map(({ column_id, formula }) => [
+          "AddVisibleColumn",
+          tableId,
+          column_id,
+          { isFormula: true, formula },
+        ]),
+        applyUAOptions
+      )
+    );
+    appliedActions.push(result);
+    return result.retValues.map(({ colId }: { colId: string }) => colId);
+  }
+
+  private async _setNewWidgetSelectBy(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    widgetId: number,
+    widgetSelectBy: WidgetSelectBy | null,
+    appliedActions: ApplyUAResult[]
+  ) {
+    if (!widgetSelectBy) {
+      return;
+    }
+
+    const { appliedActions: actions } = await this._setPageWidgetSelectBy(
+      docSession,
+      doc,
+      { widget_id: widgetId, widget_select_by: widgetSelectBy }
+    );
+    appliedActions.push(...actions);
+  }
+
   private async _getAvailableCustomWidgets() {
     return this._gristServer.getWidgetRepository().getWidgets();
   }
@@ -1699,13 +2957,126 @@ Notes:
     params: any
   ) {
     QueryDocumentParamsChecker.strictCheck(params);
-    const { query: sql, args } = params as QueryDocumentParams;
-    return await runSQLQuery(docSession, doc, {
+    const { query: sql, args, doc_id } = params as QueryDocumentParams;
+    if (doc_id) {
+      ({ docSession, doc } = await this._openWorkspaceDocument(
+        docSession,
+        doc,
+        doc_id
+      ));
+    }
+    return await runRestrictedSQLQuery(docSession, doc, {
       sql,
       args,
     });
   }
 
+  // The redactor only masks values of sensitive columns in `doc`, so other
+  // documents, whose sensitive columns would be sent to the AI provider as
+  // is, can't be read when sensitive columns must be masked.
+  private async _openWorkspaceDocument(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    otherDocId: string
+  ) {
+    if ((await this._getPolicy(doc)).redactSensitiveColumns) {
+      throw new ApiError(
+        "Other documents can't be read while values of sensitive columns " +
+          "are masked",
+        403
+      );
+    }
+
+    return openWorkspaceDocument(
+      this._gristServer,
+      docSession,
+      doc,
+      otherDocId
+    );
+  }
+
+  private async _scheduleReport(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    params: any
+  ) {
+    ScheduleReportParamsChecker.strictCheck(params);
+    const { title, prompt, query, schedule, timezone } =
+      params as ScheduleReportParams;
+    const report = await this._getReportsOrThrow().createReport(
+      docSession,
+      doc,
+      {
+        title,
+        prompt,
+        sql: query,
+        schedule,
+        timezone:
+          timezone ?? doc.docData?.docInfo().timezone ?? DEFAULT_TIMEZONE,
+      }
+    );
+    return formatReport(report);
+  }
+
+  private async _getScheduledReports(
+    docSession: OptDocSession,
+    doc: AssistanceDoc
+  ) {
+    const reports = await this._getReportsOrThrow().listReports(
+      docSession,
+      doc
+    );
+    return reports.map(formatReport);
+  }
+
+  private async _removeScheduledReport(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    params: any
+  ) {
+    RemoveScheduledReportParamsChecker.strictCheck(params);
+    const { report_id } = params as RemoveScheduledReportParams;
+    await this._getReportsOrThrow().removeReport(docSession, doc, report_id);
+    return null;
+  }
+
+  private _getReportsOrThrow(): AssistantReportScheduler {
+    const reports = this._getReports();
+    if (!reports) {
+      throw new Error("Scheduled reports are not available");
+    }
+
+    return reports;
+  }
+
+  // The data engine can only evaluate a formula once it's in a column, and
+  // adding one is stored in the document's history, broadcast to every
+  // client, and recalculates the whole table. Until formulas can be evaluated
+  // and rolled back within the action queue, this fails rather than change
+  // the document.
+  private async _testFormula(params: any): Promise<never> {
+    TestFormulaParamsChecker.strictCheck(params);
+    throw new Error(
+      "Formulas can't be tested without changing the document; " +
+        "check the formula by reading the values of the column once it's set"
+    );
+  }
+
+  private async _readAttachment(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    params: any
+  ) {
+    ReadAttachmentParamsChecker.strictCheck(params);
+    const { attachment_id, sheet_name, offset } =
+      params as ReadAttachmentParams;
+    return await readAttachmentContent(docSession, doc, {
+      attachmentId: attachment_id,
+      sheetName: sheet_name ?? undefined,
+      offset: offset ?? undefined,
+    });
+  }
+
   private async _addRecords(
     docSession: OptDocSession,
     doc: AssistanceDoc,
@@ -1795,11 +3166,39 @@ Notes:
       appliedActions,
     };
   }
+  private async _importData(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    params: any
+  ) {
+    ImportDataParamsChecker.strictCheck(params);
+    const { table_id, source, column_mapping, add_missing_columns } =
+      params as ImportDataParams;
+    const appliedActions: ApplyUAResult[] = [];
+    const result = await importData(
+      docSession,
+      doc,
+      {
+        tableId: table_id,
+        source,
+        columnMapping: column_mapping ?? undefined,
+        addMissingColumns: add_missing_columns ?? false,
+      },
+      { desc: "Called by OpenAIAssistantV2 (tool: import_data)" },
+      appliedActions
+    );
+    return {
+      result,
+      appliedActions,
+    };
+  }
+
 
   private _buildResponse(
     completion: OpenAIChatCompletion,
-    appliedActions?: ApplyUAResult[]
-  ): AssistanceResponseV2 {
+    appliedActions?: ApplyUAResult[],
+    proposedChanges?: AssistanceProposedChange[]
+  ): AssistanceResponseWithPreview {
     const { choice: { message }, state } = completion;
     const { refusal } = message;
     if (refusal) {
@@ -1807,6 +3206,7 @@ Notes:
         reply: refusal,
         state,
         appliedActions,
+        proposedChanges,
       };
     }
 
@@ -1846,6 +3246,7 @@ Notes:
       reply,
       state,
       appliedActions,
+      proposedChanges,
       confirmationRequired,
     };
   }
@@ -2242,6 +3643,74 @@ function buildColInfo(
   return colInfo;
 }
 
+// Changes beyond this many are summarized, to keep tool results short.
+const MAX_ACCESS_CHANGES = 100;
+
+// Tools that are only offered if reports can be scheduled.
+const REPORT_TOOLS = [
+  "schedule_report",
+  "get_scheduled_reports",
+  "remove_scheduled_report",
+];
+
+// Tools that aren't offered yet (see `_testFormula`).
+const UNAVAILABLE_TOOLS = ["test_formula"];
+
+// Tools that describe the document's structure, from metadata in which what
+// the user can't see is censored.
+const METADATA_TOOLS = [
+  "get_tables",
+  "get_table_columns",
+  "get_pages",
+  "get_page_widgets",
+  "get_page_widget_select_by_options",
+  "get_conditional_style_rules",
+  "get_chart_widget_options",
+  "get_access_rules",
+];
+
+// Tools that aren't offered in preview mode, because the actions they apply
+// depend on the results of actions they applied before (e.g. the helper
+// column of a new rule, or the section of a new widget), which aren't known
+// until those are applied.
+const UNPREVIEWABLE_TOOLS = [
+  "add_conditional_style_rule",
+  "add_access_rule",
+  "add_page_widget",
+  "add_summary_table",
+  "update_summary_table",
+  "add_chart_widget",
+  "import_data",
+];
+
+// For reports in documents without a timezone.
+const DEFAULT_TIMEZONE = "UTC";
+
+function describeAccessChanges(changes: AccessChange[], dryRun: boolean) {
+  return {
+    dry_run: dryRun,
+    access_changes: changes.slice(0, MAX_ACCESS_CHANGES),
+    ...(changes.length > MAX_ACCESS_CHANGES
+      ? { more_access_changes: changes.length - MAX_ACCESS_CHANGES }
+      : {}),
+  };
+}
+
+function formatReport(report: AssistantReport) {
+  const formatTime = (ms: number | null) =>
+    ms !== null ? formatRunTime(ms, report.timezone) : null;
+  return {
+    id: report.id,
+    title: report.title,
+    prompt: report.prompt,
+    query: report.sql,
+    schedule: report.schedule,
+    timezone: report.timezone,
+    last_run_at: formatTime(report.lastRunAtMs),
+    next_run_at: formatTime(report.nextRunAtMs),
+  };
+}
+
 async function handleSandboxError<T>(
   tableId: string,
   colNames: string[],
@@ -2319,3 +3788,25 @@ function colIdsToRefs(
     .map((r) => r.id);
   return colRefs;
 }
+
+/**
+ * Like `colIdsToRefs`, but keeps the order of `colIds`, and throws if any
+ * column isn't found.
+ */
+function getColRefsOrThrow(
+  doc: AssistanceDoc,
+  tableRef: number,
+  colIds: string[]
+) {
+  const columns = getDocDataOrThrow(doc)
+    .getMetaTable("_grist_Tables_column")
+    .filterRecords({ parentId: tableRef });
+  return colIds.map((colId) => {
+    const column = columns.find((c) => c.colId === colId);
+    if (!column) {
+      throw new Error(`Column ${colId} not found`);
+    }
+
+    return column.id;
+  });
+}
@@ -8,6 +8,10 @@ export const Column = t.iface([], {
   "id": "string",
 });
 
+export const GetTablesParams = t.iface([], {
+  "doc_id": t.opt(t.union("string", "null")),
+});
+
 export const AddTableParams = t.iface([], {
   "table_id": "string",
   "columns": t.union(t.tuple("Column", t.rest(t.array("Column"))), "null"),
@@ -109,6 +113,10 @@ export const ChoiceStyle = t.iface([], {
   "fontStrikethrough": t.opt("boolean"),
 });
 
+export const ConditionalStyle = t.iface(["ChoiceStyle"], {
+  "fontBold": t.opt("boolean"),
+});
+
 export const AddChoiceOrChoiceListColumnOptions = t.iface(["BaseAddColumnOptions"], {
   "choices": t.opt(t.array("string")),
   "choice_styles": t.opt(t.iface([], {
@@ -207,6 +215,34 @@ export const RemoveTableColumnParams = t.iface([], {
   "column_id": "string",
 });
 
+export const GetConditionalStyleRulesParams = t.iface([], {
+  "table_id": "string",
+  "column_id": t.union("string", "null"),
+  "widget_id": t.union("number", "null"),
+});
+
+export const AddConditionalStyleRuleParams = t.iface([], {
+  "table_id": "string",
+  "column_id": t.union("string", "null"),
+  "widget_id": t.union("number", "null"),
+  "condition": "string",
+  "style": "ConditionalStyle",
+});
+
+export const ReorderConditionalStyleRulesParams = t.iface([], {
+  "table_id": "string",
+  "column_id": t.union("string", "null"),
+  "widget_id": t.union("number", "null"),
+  "rule_order": t.array("number"),
+});
+
+export const RemoveConditionalStyleRuleParams = t.iface([], {
+  "table_id": "string",
+  "column_id": t.union("string", "null"),
+  "widget_id": t.union("number", "null"),
+  "rule_index": "number",
+});
+
 export const UpdatePageOptions = t.iface([], {
   "name": t.opt("string"),
 });
@@ -301,9 +337,85 @@ export const SetPageWidgetSelectByParams = t.iface([], {
   "widget_select_by": t.union("WidgetSelectBy", "null"),
 });
 
+export const SummaryColumn = t.iface([], {
+  "column_id": "string",
+  "formula": "string",
+});
+
+export const AddSummaryTableParams = t.iface([], {
+  "page_id": t.union("number", "null"),
+  "table_id": "string",
+  "group_by_column_ids": t.array("string"),
+  "summary_columns": t.union(t.array("SummaryColumn"), "null"),
+  "widget_select_by": t.union("WidgetSelectBy", "null"),
+});
+
+export const UpdateSummaryTableParams = t.iface([], {
+  "widget_id": "number",
+  "group_by_column_ids": t.union(t.array("string"), "null"),
+  "summary_columns": t.union(t.array("SummaryColumn"), "null"),
+});
+
+export const GetChartWidgetOptionsParams = t.iface([], {
+  "widget_id": "number",
+});
+
+export const ChartWidgetOptions = t.iface([], {
+  "chart_type": t.opt(t.union(t.lit("bar"), t.lit("line"), t.lit("area"), t.lit("pie"), t.lit("donut"), t.lit("scatter"), t.lit("kaplan_meier"))),
+  "x_axis_column_id": t.opt(t.union("string", "null")),
+  "series_column_ids": t.opt(t.array("string")),
+  "split_series_column_id": t.opt(t.union("string", "null")),
+  "orientation": t.opt(t.union(t.lit("horizontal"), t.lit("vertical"))),
+  "stacked": t.opt("boolean"),
+  "line_connect_gaps": t.opt("boolean"),
+  "line_markers": t.opt("boolean"),
+  "log_y_axis": t.opt("boolean"),
+  "invert_y_axis": t.opt("boolean"),
+  "title": t.opt("string"),
+  "description": t.opt("string"),
+});
+
+export const AddChartWidgetParams = t.iface([], {
+  "page_id": t.union("number", "null"),
+  "table_id": "string",
+  "group_by_column_ids": t.union(t.array("string"), "null"),
+  "chart_options": "ChartWidgetOptions",
+  "widget_select_by": t.union("WidgetSelectBy", "null"),
+});
+
+export const UpdateChartWidgetParams = t.iface([], {
+  "widget_id": "number",
+  "chart_options": "ChartWidgetOptions",
+});
+
 export const QueryDocumentParams = t.iface([], {
   "query": "string",
   "args": t.union(t.array("any"), "null"),
+  "doc_id": t.opt(t.union("string", "null")),
+});
+
+export const ScheduleReportParams = t.iface([], {
+  "title": "string",
+  "prompt": "string",
+  "query": "string",
+  "schedule": "string",
+  "timezone": t.union("string", "null"),
+});
+
+export const RemoveScheduledReportParams = t.iface([], {
+  "report_id": "string",
+});
+
+export const TestFormulaParams = t.iface([], {
+  "table_id": "string",
+  "formula": "string",
+  "row_ids": t.union(t.array("number"), "null"),
+});
+
+export const ReadAttachmentParams = t.iface([], {
+  "attachment_id": "number",
+  "sheet_name": t.union("string", "null"),
+  "offset": t.union("number", "null"),
 });
 
 export const Record = t.iface([], {
@@ -328,6 +440,27 @@ export const GristObjCode = t.enumtype({
 
 export const CellValue = t.union("number", "string", "boolean", "null", t.tuple("GristObjCode", t.rest(t.array("unknown"))));
 
+export const ImportTextSource = t.iface([], {
+  "format": t.union(t.lit("csv"), t.lit("tsv"), t.lit("json")),
+  "text": "string",
+});
+
+export const ImportAttachmentSource = t.iface([], {
+  "attachment_id": "number",
+  "sheet_name": t.opt(t.union("string", "null")),
+});
+
+export const ImportDataSource = t.union("ImportTextSource", "ImportAttachmentSource");
+
+export const ImportDataParams = t.iface([], {
+  "table_id": "string",
+  "source": "ImportDataSource",
+  "column_mapping": t.opt(t.union(t.iface([], {
+    [t.indexKey]: t.union("string", "null"),
+  }), "null")),
+  "add_missing_columns": t.opt("boolean"),
+});
+
 export const AddRecordsParams = t.iface([], {
   "table_id": "string",
   "records": t.tuple("Record", t.rest(t.array("Record"))),
@@ -344,8 +477,31 @@ export const RemoveRecordsParams = t.iface([], {
   "record_ids": t.tuple("number", t.rest(t.array("number"))),
 });
 
+export const AddAccessRuleParams = t.iface([], {
+  "table_id": "string",
+  "column_ids": t.union(t.array("string"), "null"),
+  "condition": "string",
+  "permissions": "string",
+  "memo": t.union("string", "null"),
+  "dry_run": "boolean",
+});
+
+export const UpdateAccessRuleParams = t.iface([], {
+  "rule_id": "number",
+  "condition": t.union("string", "null"),
+  "permissions": t.union("string", "null"),
+  "memo": t.union("string", "null"),
+  "dry_run": "boolean",
+});
+
+export const RemoveAccessRuleParams = t.iface([], {
+  "rule_id": "number",
+  "dry_run": "boolean",
+});
+
 const exportedTypeSuite: t.ITypeSuite = {
   Column,
+  GetTablesParams,
   AddTableParams,
   RenameTableParams,
   RemoveTableParams,
@@ -361,6 +517,7 @@ const exportedTypeSuite: t.ITypeSuite = {
   AddDateColumnOptions,
   AddDateTimeColumnOptions,
   ChoiceStyle,
+  ConditionalStyle,
   AddChoiceOrChoiceListColumnOptions,
   AddChoiceColumnOptions,
   AddChoiceListColumnOptions,
@@ -387,6 +544,10 @@ const exportedTypeSuite: t.ITypeSuite = {
   UpdateTableColumnOptions,
   UpdateTableColumnParams,
   RemoveTableColumnParams,
+  GetConditionalStyleRulesParams,
+  AddConditionalStyleRuleParams,
+  ReorderConditionalStyleRulesParams,
+  RemoveConditionalStyleRuleParams,
   UpdatePageOptions,
   UpdatePageParams,
   RemovePageParams,
@@ -412,12 +573,30 @@ const exportedTypeSuite: t.ITypeSuite = {
   GetPageWidgetSelectByOptionsParams,
   WidgetSelectBy,
   SetPageWidgetSelectByParams,
+  SummaryColumn,
+  AddSummaryTableParams,
+  UpdateSummaryTableParams,
+  GetChartWidgetOptionsParams,
+  ChartWidgetOptions,
+  AddChartWidgetParams,
+  UpdateChartWidgetParams,
   QueryDocumentParams,
+  ScheduleReportParams,
+  RemoveScheduledReportParams,
+  TestFormulaParams,
+  ReadAttachmentParams,
   Record,
   GristObjCode,
   CellValue,
+  ImportTextSource,
+  ImportAttachmentSource,
+  ImportDataSource,
+  ImportDataParams,
   AddRecordsParams,
   UpdateRecordsParams,
   RemoveRecordsParams,
+  AddAccessRuleParams,
+  UpdateAccessRuleParams,
+  RemoveAccessRuleParams,
 };
 export default exportedTypeSuite;
@@ -5,6 +5,11 @@ interface Column {
   id: string;
 }
 
+export interface GetTablesParams {
+  /** Another document in the workspace, or null for the current one. */
+  doc_id?: string | null;
+}
+
 export interface AddTableParams {
   table_id: string;
   columns: [Column, ...Column[]] | null;
@@ -122,6 +127,10 @@ interface ChoiceStyle {
   fontStrikethrough?: boolean;
 }
 
+export interface ConditionalStyle extends ChoiceStyle {
+  fontBold?: boolean;
+}
+
 interface AddChoiceOrChoiceListColumnOptions extends BaseAddColumnOptions {
   choices?: string[];
   choice_styles?: { [choice: string]: ChoiceStyle };
@@ -252,6 +261,34 @@ export interface RemoveTableColumnParams {
   column_id: string;
 }
 
+export interface GetConditionalStyleRulesParams {
+  table_id: string;
+  column_id: string | null;
+  widget_id: number | null;
+}
+
+export interface AddConditionalStyleRuleParams {
+  table_id: string;
+  column_id: string | null;
+  widget_id: number | null;
+  condition: string;
+  style: ConditionalStyle;
+}
+
+export interface ReorderConditionalStyleRulesParams {
+  table_id: string;
+  column_id: string | null;
+  widget_id: number | null;
+  rule_order: number[];
+}
+
+export interface RemoveConditionalStyleRuleParams {
+  table_id: string;
+  column_id: string | null;
+  widget_id: number | null;
+  rule_index: number;
+}
+
 interface UpdatePageOptions {
   name?: string;
 }
@@ -347,7 +384,7 @@ export interface GetPageWidgetSelectByOptionsParams {
   widget_id: number;
 }
 
-interface WidgetSelectBy {
+export interface WidgetSelectBy {
   link_from_widget_id: number;
   link_from_column_id: string | null;
   link_to_column_id: string | null;
@@ -358,9 +395,93 @@ export interface SetPageWidgetSelectByParams {
   widget_select_by: WidgetSelectBy | null;
 }
 
+interface SummaryColumn {
+  column_id: string;
+  formula: string;
+}
+
+export interface AddSummaryTableParams {
+  page_id: number | null;
+  table_id: string;
+  group_by_column_ids: string[];
+  summary_columns: SummaryColumn[] | null;
+  widget_select_by: WidgetSelectBy | null;
+}
+
+export interface UpdateSummaryTableParams {
+  widget_id: number;
+  group_by_column_ids: string[] | null;
+  summary_columns: SummaryColumn[] | null;
+}
+
+export interface GetChartWidgetOptionsParams {
+  widget_id: number;
+}
+
+export interface ChartWidgetOptions {
+  chart_type?:
+    | "bar"
+    | "line"
+    | "area"
+    | "pie"
+    | "donut"
+    | "scatter"
+    | "kaplan_meier";
+  x_axis_column_id?: string | null;
+  series_column_ids?: string[];
+  split_series_column_id?: string | null;
+  orientation?: "horizontal" | "vertical";
+  stacked?: boolean;
+  line_connect_gaps?: boolean;
+  line_markers?: boolean;
+  log_y_axis?: boolean;
+  invert_y_axis?: boolean;
+  title?: string;
+  description?: string;
+}
+
+export interface AddChartWidgetParams {
+  page_id: number | null;
+  table_id: string;
+  group_by_column_ids: string[] | null;
+  chart_options: ChartWidgetOptions;
+  widget_select_by: WidgetSelectBy | null;
+}
+
+export interface UpdateChartWidgetParams {
+  widget_id: number;
+  chart_options: ChartWidgetOptions;
+}
+
 export interface QueryDocumentParams {
   query: string;
   args: any[] | null;
+  /** Another document in the workspace, or null for the current one. */
+  doc_id?: string | null;
+}
+
+export interface ScheduleReportParams {
+  title: string;
+  prompt: string;
+  query: string;
+  schedule: string;
+  timezone: string | null;
+}
+
+export interface RemoveScheduledReportParams {
+  report_id: string;
+}
+
+export interface TestFormulaParams {
+  table_id: string;
+  formula: string;
+  row_ids: number[] | null;
+}
+
+export interface ReadAttachmentParams {
+  attachment_id: number;
+  sheet_name: string | null;
+  offset: number | null;
 }
 
 interface Record {
@@ -391,6 +512,25 @@ type CellValue =
   | null
   | [GristObjCode, ...unknown[]];
 
+interface ImportTextSource {
+  format: "csv" | "tsv" | "json";
+  text: string;
+}
+
+interface ImportAttachmentSource {
+  attachment_id: number;
+  sheet_name?: string | null;
+}
+
+export type ImportDataSource = ImportTextSource | ImportAttachmentSource;
+
+export interface ImportDataParams {
+  table_id: string;
+  source: ImportDataSource;
+  column_mapping?: { [header: string]: string | null } | null;
+  add_missing_columns?: boolean;
+}
+
 export interface AddRecordsParams {
   table_id: string;
   records: [Record, ...Record[]];
@@ -407,7 +547,30 @@ export interface RemoveRecordsParams {
   record_ids: [number, ...number[]];
 }
 
+export interface AddAccessRuleParams {
+  table_id: string;
+  column_ids: string[] | null;
+  condition: string;
+  permissions: string;
+  memo: string | null;
+  dry_run: boolean;
+}
+
+export interface UpdateAccessRuleParams {
+  rule_id: number;
+  condition: string | null;
+  permissions: string | null;
+  memo: string | null;
+  dry_run: boolean;
+}
+
+export interface RemoveAccessRuleParams {
+  rule_id: number;
+  dry_run: boolean;
+}
+
 const {
+  GetTablesParams,
   AddTableParams,
   RenameTableParams,
   RemoveTableParams,
@@ -415,6 +578,10 @@ const {
   AddTableColumnParams,
   UpdateTableColumnParams,
   RemoveTableColumnParams,
+  GetConditionalStyleRulesParams,
+  AddConditionalStyleRuleParams,
+  ReorderConditionalStyleRulesParams,
+  RemoveConditionalStyleRuleParams,
   UpdatePageParams,
   RemovePageParams,
   GetPageWidgetsParams,
@@ -423,13 +590,27 @@ const {
   RemovePageWidgetParams,
   GetPageWidgetSelectByOptionsParams,
   SetPageWidgetSelectByParams,
+  AddSummaryTableParams,
+  UpdateSummaryTableParams,
+  GetChartWidgetOptionsParams,
+  AddChartWidgetParams,
+  UpdateChartWidgetParams,
   QueryDocumentParams,
+  ScheduleReportParams,
+  RemoveScheduledReportParams,
+  TestFormulaParams,
+  ReadAttachmentParams,
   AddRecordsParams,
   UpdateRecordsParams,
   RemoveRecordsParams,
+  ImportDataParams,
+  AddAccessRuleParams,
+  UpdateAccessRuleParams,
+  RemoveAccessRuleParams,
 } = createCheckers(OpenAIToolTypesTI);
 
 for (const checker of [
+  GetTablesParams,
   AddTableParams,
   RenameTableParams,
   RemoveTableParams,
@@ -437,6 +618,10 @@ for (const checker of [
   AddTableColumnParams,
   UpdateTableColumnParams,
   RemoveTableColumnParams,
+  GetConditionalStyleRulesParams,
+  AddConditionalStyleRuleParams,
+  ReorderConditionalStyleRulesParams,
+  RemoveConditionalStyleRuleParams,
   UpdatePageParams,
   RemovePageParams,
   GetPageWidgetsParams,
@@ -445,14 +630,30 @@ for (const checker of [
   RemovePageWidgetParams,
   GetPageWidgetSelectByOptionsParams,
   SetPageWidgetSelectByParams,
+  AddSummaryTableParams,
+  UpdateSummaryTableParams,
+  GetChartWidgetOptionsParams,
+  AddChartWidgetParams,
+  UpdateChartWidgetParams,
   QueryDocumentParams,
+  ScheduleReportParams,
+  RemoveScheduledReportParams,
+  TestFormulaParams,
+  ReadAttachmentParams,
   AddRecordsParams,
   UpdateRecordsParams,
   RemoveRecordsParams,
+  ImportDataParams,
+  AddAccessRuleParams,
+  UpdateAccessRuleParams,
+  RemoveAccessRuleParams,
 ]) {
   checker.setReportedPath("arguments");
 }
 
+export const GetTablesParamsChecker =
+  GetTablesParams as CheckerT<GetTablesParams>;
+
 export const AddTableParamsChecker = AddTableParams as CheckerT<AddTableParams>;
 
 export const RenameTableParamsChecker =
@@ -473,6 +674,18 @@ export const UpdateTableColumnParamsChecker =
 export const RemoveTableColumnParamsChecker =
   RemoveTableColumnParams as CheckerT<RemoveTableColumnParams>;
 
+export const GetConditionalStyleRulesParamsChecker =
+  GetConditionalStyleRulesParams as CheckerT<GetConditionalStyleRulesParams>;
+
+export const AddConditionalStyleRuleParamsChecker =
+  AddConditionalStyleRuleParams as CheckerT<AddConditionalStyleRuleParams>;
+
+export const ReorderConditionalStyleRulesParamsChecker =
+  ReorderConditionalStyleRulesParams as CheckerT<ReorderConditionalStyleRulesParams>;
+
+export const RemoveConditionalStyleRuleParamsChecker =
+  RemoveConditionalStyleRuleParams as CheckerT<RemoveConditionalStyleRuleParams>;
+
 export const UpdatePageParamsChecker =
   UpdatePageParams as CheckerT<UpdatePageParams>;
 
@@ -497,9 +710,36 @@ export const GetPageWidgetSelectByOptionsParamsChecker =
 export const SetPageWidgetSelectByParamsChecker =
   SetPageWidgetSelectByParams as CheckerT<SetPageWidgetSelectByParams>;
 
+export const AddSummaryTableParamsChecker =
+  AddSummaryTableParams as CheckerT<AddSummaryTableParams>;
+
+export const UpdateSummaryTableParamsChecker =
+  UpdateSummaryTableParams as CheckerT<UpdateSummaryTableParams>;
+
+export const GetChartWidgetOptionsParamsChecker =
+  GetChartWidgetOptionsParams as CheckerT<GetChartWidgetOptionsParams>;
+
+export const AddChartWidgetParamsChecker =
+  AddChartWidgetParams as CheckerT<AddChartWidgetParams>;
+
+export const UpdateChartWidgetParamsChecker =
+  UpdateChartWidgetParams as CheckerT<UpdateChartWidgetParams>;
+
 export const QueryDocumentParamsChecker =
   QueryDocumentParams as CheckerT<QueryDocumentParams>;
 
+export const ScheduleReportParamsChecker =
+  ScheduleReportParams as CheckerT<ScheduleReportParams>;
+
+export const RemoveScheduledReportParamsChecker =
+  RemoveScheduledReportParams as CheckerT<RemoveScheduledReportParams>;
+
+export const TestFormulaParamsChecker =
+  TestFormulaParams as CheckerT<TestFormulaParams>;
+
+export const ReadAttachmentParamsChecker =
+  ReadAttachmentParams as CheckerT<ReadAttachmentParams>;
+
 export const AddRecordsParamsChecker =
   AddRecordsParams as CheckerT<AddRecordsParams>;
 
@@ -508,3 +748,15 @@ export const UpdateRecordsParamsChecker =
 
 export const RemoveRecordsParamsChecker =
   RemoveRecordsParams as CheckerT<RemoveRecordsParams>;
+
+export const ImportDataParamsChecker =
+  ImportDataParams as CheckerT<ImportDataParams>;
+
+export const AddAccessRuleParamsChecker =
+  AddAccessRuleParams as CheckerT<AddAccessRuleParams>;
+
+export const UpdateAccessRuleParamsChecker =
+  UpdateAccessRuleParams as CheckerT<UpdateAccessRuleParams>;
+
+export const RemoveAccessRuleParamsChecker =
+  RemoveAccessRuleParams as CheckerT<RemoveAccessRuleParams>;
@@ -6,6 +6,30 @@ export const OPENAI_TOOLS: OpenAITool[] = [
     function: {
       name: "get_tables",
       description: "Returns all tables in a Grist document.",
+      parameters: {
+        type: "object",
+        properties: {
+          doc_id: {
+            type: ["string", "null"],
+            description:
+              "ID of another document in the workspace, from " +
+              "get_workspace_documents. Null for the current document.",
+          },
+        },
+        required: ["doc_id"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_workspace_documents",
+      description:
+        "Returns the documents in the current document's workspace that the " +
+        "user can access. Use get_tables and query_document with a doc_id " +
+        "to read them, e.g. to compare data across documents.",
     },
   },
   {
@@ -383,7 +407,7 @@ export const OPENAI_TOOLS: OpenAITool[] = [
               },
               conditional_formatting_rules: {
                 description:
-                  "Not yet supported. Must be configured manually in the creator panel.",
+                  "Not supported here. Use add_conditional_style_rule instead.",
               },
             },
             additionalProperties: false,
@@ -702,7 +726,7 @@ export const OPENAI_TOOLS: OpenAITool[] = [
               },
               conditional_formatting_rules: {
                 description:
-                  "Not yet supported. Must be configured manually in the creator panel.",
+                  "Not supported here. Use add_conditional_style_rule instead.",
               },
             },
             additionalProperties: false,
@@ -736,6 +760,175 @@ export const OPENAI_TOOLS: OpenAITool[] = [
       strict: true,
     },
   },
+  {
+    type: "function",
+    function: {
+      name: "get_conditional_style_rules",
+      description:
+        "Returns the conditional style rules of a column, or of the rows of a widget. " +
+        "Each rule has an index, a condition formula, and a style. " +
+        "When several rules apply, later rules take precedence.",
+      parameters: {
+        type: "object",
+        properties: {
+          table_id: {
+            type: "string",
+            description: "The ID of the table.",
+          },
+          column_id: {
+            type: ["string", "null"],
+            description:
+              "The ID of the column whose cells the rules style. " +
+              "Null for row rules, which style whole records of a widget.",
+          },
+          widget_id: {
+            type: ["integer", "null"],
+            description:
+              "For row rules, the ID of the widget whose records the rules style. " +
+              "Each widget has its own row rules. " +
+              "Null for column rules, or for row rules of the table's raw data.",
+          },
+        },
+        required: ["table_id", "column_id", "widget_id"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "add_conditional_style_rule",
+      description:
+        "Adds a conditional style rule to a column, or to the rows of a widget. " +
+        "The rule is added last, so it takes precedence over existing rules.",
+      parameters: {
+        type: "object",
+        properties: {
+          table_id: {
+            type: "string",
+            description: "The ID of the table.",
+          },
+          column_id: {
+            type: ["string", "null"],
+            description:
+              "The ID of the column whose cells the rules style. " +
+              "Null for row rules, which style whole records of a widget.",
+          },
+          widget_id: {
+            type: ["integer", "null"],
+            description:
+              "For row rules, the ID of the widget whose records the rules style. " +
+              "Each widget has its own row rules. " +
+              "Null for column rules, or for row rules of the table's raw data.",
+          },
+          condition: {
+            type: "string",
+            description:
+              "A formula that is true for the records the style applies to. " +
+              'Example: `$Status == "Overdue"`',
+          },
+          style: {
+            type: "object",
+            description:
+              "The style to apply. " +
+              "Colors must be in six-value hexadecimal syntax. " +
+              'Example: `{"textColor": "#FFFFFF", "fillColor": "#E00A17", "fontBold": true}`',
+            properties: {
+              textColor: { type: "string" },
+              fillColor: { type: "string" },
+              fontBold: { type: "boolean" },
+              fontUnderline: { type: "boolean" },
+              fontItalic: { type: "boolean" },
+              fontStrikethrough: { type: "boolean" },
+            },
+            additionalProperties: false,
+          },
+        },
+        required: ["table_id", "column_id", "widget_id", "condition", "style"],
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "reorder_conditional_style_rules",
+      description:
+        "Reorders the conditional style rules of a column, or of the rows of a widget.",
+      parameters: {
+        type: "object",
+        properties: {
+          table_id: {
+            type: "string",
+            description: "The ID of the table.",
+          },
+          column_id: {
+            type: ["string", "null"],
+            description:
+              "The ID of the column whose cells the rules style. " +
+              "Null for row rules, which style whole records of a widget.",
+          },
+          widget_id: {
+            type: ["integer", "null"],
+            description:
+              "For row rules, the ID of the widget whose records the rules style. " +
+              "Each widget has its own row rules. " +
+              "Null for column rules, or for row rules of the table's raw data.",
+          },
+          rule_order: {
+            type: "array",
+            description:
+              "The current index of every rule, in the new order. " +
+              "Example: `[2, 0, 1]` moves the last of three rules first.",
+            items: {
+              type: "number",
+            },
+          },
+        },
+        required: ["table_id", "column_id", "widget_id", "rule_order"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "remove_conditional_style_rule",
+      description:
+        "Removes a conditional style rule from a column, or from the rows of a widget.",
+      parameters: {
+        type: "object",
+        properties: {
+          table_id: {
+            type: "string",
+            description: "The ID of the table.",
+          },
+          column_id: {
+            type: ["string", "null"],
+            description:
+              "The ID of the column whose cells the rules style. " +
+              "Null for row rules, which style whole records of a widget.",
+          },
+          widget_id: {
+            type: ["integer", "null"],
+            description:
+              "For row rules, the ID of the widget whose records the rules style. " +
+              "Each widget has its own row rules. " +
+              "Null for column rules, or for row rules of the table's raw data.",
+          },
+          rule_index: {
+            type: "number",
+            description: "The index of the rule to remove.",
+          },
+        },
+        required: ["table_id", "column_id", "widget_id", "rule_index"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
   {
     type: "function",
     function: {
@@ -845,7 +1038,8 @@ export const OPENAI_TOOLS: OpenAITool[] = [
                 enum: ["table", "card", "card_list", "custom"],
                 description:
                   "The widget type. " +
-                  "The following types are not yet supported: 'chart', 'form'.",
+                  "Use add_chart_widget to add charts. " +
+                  "The following types are not yet supported: 'form'.",
               },
               group_by_column_ids: {
                 type: ["array"],
@@ -909,7 +1103,8 @@ export const OPENAI_TOOLS: OpenAITool[] = [
                 enum: ["table", "card", "card_list", "custom"],
                 description:
                   "The widget type. " +
-                  "The following types are not yet supported: 'chart', 'form'.",
+                  "Use update_chart_widget to update charts. " +
+                  "The following types are not yet supported: 'form'.",
               },
               custom_widget_id: {
                 type: "string",
@@ -1039,39 +1234,98 @@ export const OPENAI_TOOLS: OpenAITool[] = [
   {
     type: "function",
     function: {
-      name: "get_available_custom_widgets",
-      description: "Returns all available custom widgets in a Grist document.",
-    },
-  },
-  {
-    type: "function",
-    function: {
-      name: "query_document",
+      name: "add_summary_table",
       description:
-        "Runs a SQL SELECT query against a Grist document and returns matching rows. " +
-        "Only SQLite-compatible SQL is supported.",
+        "Adds a summary table widget to a page. " +
+        "A summary table groups the records of a table by some of its columns, " +
+        "and has a record for each group, with a `count` column and columns " +
+        "that total the numeric columns of the table. " +
+        "Returns the ID of the summary table, which can be shown in other widgets " +
+        "such as charts, and linked with set_page_widget_select_by.",
       parameters: {
         type: "object",
         properties: {
-          query: {
+          page_id: {
+            type: ["integer", "null"],
+            description:
+              "The ID of the page to add the widget to. " +
+              "If null, a new page will be created.",
+          },
+          table_id: {
             type: "string",
+            description: "The ID of the table to summarize.",
+          },
+          group_by_column_ids: {
+            type: "array",
             description:
-              "A SQL SELECT query to run on the Grist document. " +
-              "Must be a single SELECT statement with no trailing semicolon. " +
-              "WITH clauses are permitted. " +
-              "Must be valid SQLite syntax.",
+              "The IDs of the columns to group records by. " +
+              "If empty, the summary table will have a single record, for all records.",
+            items: {
+              type: "string",
+            },
           },
-          args: {
+          summary_columns: {
             type: ["array", "null"],
             description:
-              "Arguments for parameters in query. " +
-              "Null if query is not parameterized.",
+              "Formula columns to add to the summary table, usually to aggregate " +
+              "the records of each group. In these formulas, `$group` is the list of " +
+              "records in the group. " +
+              'Example: `[{"column_id": "Total", "formula": "SUM($group.Amount)"}]`',
             items: {
-              type: ["string", "number", "boolean", "null"],
+              type: "object",
+              properties: {
+                column_id: {
+                  type: "string",
+                  description: "The ID of the column.",
+                },
+                formula: {
+                  type: "string",
+                  description: "The column formula.",
+                },
+              },
+              required: ["column_id", "formula"],
+              additionalProperties: false,
+            },
+          },
+          widget_select_by: {
+            type: ["object", "null"],
+            description:
+              "The options to link the new widget with, as in set_page_widget_select_by. " +
+              "Linking is only possible if page_id is not null. " +
+              "If null, the widget will not be linked.",
+            properties: {
+              link_from_widget_id: {
+                type: "integer",
+                description: "The widget to link the new widget to.",
+              },
+              link_from_column_id: {
+                type: ["string", "null"],
+                description:
+                  "The column in link_from_widget_id to use for matching records in the new widget. " +
+                  "If null, records will be matched by row ID.",
+              },
+              link_to_column_id: {
+                type: ["string", "null"],
+                description:
+                  "The column in the new widget to use for matching records from link_from_widget_id. " +
+                  "If null, all rows matching link_from_column_id will be shown in the new widget.",
+              },
             },
+            required: [
+              "link_from_widget_id",
+              "link_from_column_id",
+              "link_to_column_id",
+            ],
+            additionalProperties: false,
           },
         },
-        required: ["query", "args"],
+        required: [
+          "page_id",
+          "table_id",
+          "group_by_column_ids",
+          "summary_columns",
+          "widget_select_by",
+        ],
         additionalProperties: false,
       },
       strict: true,
@@ -1080,80 +1334,607 @@ export const OPENAI_TOOLS: OpenAITool[] = [
   {
     type: "function",
     function: {
-      name: "add_records",
-      description: "Adds one or more records to a table.",
+      name: "update_summary_table",
+      description:
+        "Changes the columns a summary table widget groups records by, " +
+        "or adds formula columns to its summary table. " +
+        "Changing the grouping changes which summary table the widget shows, " +
+        "so its ID is returned.",
       parameters: {
         type: "object",
         properties: {
-          table_id: {
-            type: "string",
-            description: "The ID of the table to add the records to.",
+          widget_id: {
+            type: "integer",
+            description: "The ID of the summary table widget.",
           },
-          records: {
-            type: "array",
-            description: "The records to add.",
+          group_by_column_ids: {
+            type: ["array", "null"],
+            description:
+              "The IDs of the columns in the summarized table to group records by. " +
+              "If null, the grouping is left unchanged.",
+            items: {
+              type: "string",
+            },
+          },
+          summary_columns: {
+            type: ["array", "null"],
+            description:
+              "Formula columns to add to the summary table, usually to aggregate " +
+              "the records of each group. In these formulas, `$group` is the list of " +
+              "records in the group. " +
+              'Example: `[{"column_id": "Total", "formula": "SUM($group.Amount)"}]`',
             items: {
               type: "object",
-              description:
-                "A record. Keys are column IDs (e.g., 'Name', 'Age'). " +
-                'Example: `{"Name": "Alice", "Age": 30}`',
+              properties: {
+                column_id: {
+                  type: "string",
+                  description: "The ID of the column.",
+                },
+                formula: {
+                  type: "string",
+                  description: "The column formula.",
+                },
+              },
+              required: ["column_id", "formula"],
+              additionalProperties: false,
             },
           },
         },
-        required: ["table_id", "records"],
+        required: ["widget_id", "group_by_column_ids", "summary_columns"],
         additionalProperties: false,
       },
+      strict: true,
     },
   },
   {
     type: "function",
     function: {
-      name: "update_records",
-      description: "Updates one or more records in a table.",
+      name: "get_chart_widget_options",
+      description:
+        "Returns the options of a chart widget, including its chart type, " +
+        "and the columns of its x-axis and series.",
       parameters: {
         type: "object",
         properties: {
-          table_id: {
-            type: "string",
-            description: "The ID of the table to update the records in.",
-          },
-          record_ids: {
-            type: "array",
-            description: "The IDs of the records to update.",
-            items: {
-              type: "number",
-            },
-          },
-          records: {
-            type: "array",
-            description:
-              "The records to update, in the same order as record_ids.",
-            items: {
-              description:
-                "A record. Keys are column IDs (e.g., 'Name', 'Age'). " +
-                'Example: `{"Name": "Alice", "Age": 30}`',
-            },
+          widget_id: {
+            type: "integer",
+            description: "The ID of the chart widget.",
           },
         },
-        required: ["table_id", "record_ids", "records"],
+        required: ["widget_id"],
         additionalProperties: false,
       },
+      strict: true,
     },
   },
   {
     type: "function",
     function: {
-      name: "remove_records",
-      description: "Removes one or more records from a table.",
+      name: "add_chart_widget",
+      description:
+        "Adds a chart widget to a page. " +
+        "To chart aggregated values, such as totals per category, " +
+        "chart a summary table by setting group_by_column_ids.",
       parameters: {
         type: "object",
         properties: {
+          page_id: {
+            type: ["integer", "null"],
+            description:
+              "The ID of the page to add the widget to. " +
+              "If null, a new page will be created.",
+          },
           table_id: {
             type: "string",
-            description: "The ID of the table to remove the records from.",
+            description: "The ID of the table to chart.",
           },
-          record_ids: {
-            type: "array",
+          group_by_column_ids: {
+            type: ["array", "null"],
+            description:
+              "If set, the chart will show a summary table of table_id, " +
+              "grouped by these columns, and chart_options must refer to " +
+              "columns of the summary table. " +
+              "If null, the chart will show the records of table_id.",
+            items: {
+              type: "string",
+            },
+          },
+          chart_options: {
+            type: "object",
+            description:
+              "The chart options. " +
+              "Only include fields to set/update. " +
+              'Example: `{"chart_type": "bar", "x_axis_column_id": "Month", "series_column_ids": ["Total"]}`',
+            properties: {
+              chart_type: {
+                type: "string",
+                enum: [
+                  "bar",
+                  "line",
+                  "area",
+                  "pie",
+                  "donut",
+                  "scatter",
+                  "kaplan_meier",
+                ],
+                description: "The chart type.",
+              },
+              x_axis_column_id: {
+                type: ["string", "null"],
+                description:
+                  "The column to plot along the x-axis. " +
+                  "For pie and donut charts, the column with the labels of the slices. " +
+                  "If null, records are plotted in order.",
+              },
+              series_column_ids: {
+                type: "array",
+                description:
+                  "The columns to plot as series along the y-axis. " +
+                  "For pie and donut charts, only the first column is used, for the sizes of the slices.",
+                items: {
+                  type: "string",
+                },
+              },
+              split_series_column_id: {
+                type: ["string", "null"],
+                description:
+                  "A column to group records by, to plot a separate series for each of its values. " +
+                  "If null, series are not split.",
+              },
+              orientation: {
+                type: "string",
+                enum: ["horizontal", "vertical"],
+                description: "The orientation of bar charts.",
+              },
+              stacked: {
+                type: "boolean",
+                description: "Whether to stack series in bar, line and area charts.",
+              },
+              line_connect_gaps: {
+                type: "boolean",
+                description: "Whether to connect gaps in line charts.",
+              },
+              line_markers: {
+                type: "boolean",
+                description: "Whether to show markers in line charts.",
+              },
+              log_y_axis: {
+                type: "boolean",
+                description: "Whether to use a logarithmic scale for the y-axis.",
+              },
+              invert_y_axis: {
+                type: "boolean",
+                description: "Whether to invert the y-axis.",
+              },
+              title: {
+                type: "string",
+                description: "The widget title.",
+              },
+              description: {
+                type: "string",
+                description: "The widget description.",
+              },
+            },
+            additionalProperties: false,
+          },
+          widget_select_by: {
+            type: ["object", "null"],
+            description:
+              "The options to link the new widget with, as in set_page_widget_select_by. " +
+              "Linking is only possible if page_id is not null. " +
+              "If null, the widget will not be linked.",
+            properties: {
+              link_from_widget_id: {
+                type: "integer",
+                description: "The widget to link the new widget to.",
+              },
+              link_from_column_id: {
+                type: ["string", "null"],
+                description:
+                  "The column in link_from_widget_id to use for matching records in the new widget. " +
+                  "If null, records will be matched by row ID.",
+              },
+              link_to_column_id: {
+                type: ["string", "null"],
+                description:
+                  "The column in the new widget to use for matching records from link_from_widget_id. " +
+                  "If null, all rows matching link_from_column_id will be shown in the new widget.",
+              },
+            },
+            required: [
+              "link_from_widget_id",
+              "link_from_column_id",
+              "link_to_column_id",
+            ],
+            additionalProperties: false,
+          },
+        },
+        required: [
+          "page_id",
+          "table_id",
+          "group_by_column_ids",
+          "chart_options",
+          "widget_select_by",
+        ],
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "update_chart_widget",
+      description: "Updates the options of a chart widget.",
+      parameters: {
+        type: "object",
+        properties: {
+          widget_id: {
+            type: "integer",
+            description: "The ID of the chart widget.",
+          },
+          chart_options: {
+            type: "object",
+            description:
+              "The chart options. " +
+              "Only include fields to set/update. " +
+              'Example: `{"chart_type": "bar", "x_axis_column_id": "Month", "series_column_ids": ["Total"]}`',
+            properties: {
+              chart_type: {
+                type: "string",
+                enum: [
+                  "bar",
+                  "line",
+                  "area",
+                  "pie",
+                  "donut",
+                  "scatter",
+                  "kaplan_meier",
+                ],
+                description: "The chart type.",
+              },
+              x_axis_column_id: {
+                type: ["string", "null"],
+                description:
+                  "The column to plot along the x-axis. " +
+                  "For pie and donut charts, the column with the labels of the slices. " +
+                  "If null, records are plotted in order.",
+              },
+              series_column_ids: {
+                type: "array",
+                description:
+                  "The columns to plot as series along the y-axis. " +
+                  "For pie and donut charts, only the first column is used, for the sizes of the slices.",
+                items: {
+                  type: "string",
+                },
+              },
+              split_series_column_id: {
+                type: ["string", "null"],
+                description:
+                  "A column to group records by, to plot a separate series for each of its values. " +
+                  "If null, series are not split.",
+              },
+              orientation: {
+                type: "string",
+                enum: ["horizontal", "vertical"],
+                description: "The orientation of bar charts.",
+              },
+              stacked: {
+                type: "boolean",
+                description: "Whether to stack series in bar, line and area charts.",
+              },
+              line_connect_gaps: {
+                type: "boolean",
+                description: "Whether to connect gaps in line charts.",
+              },
+              line_markers: {
+                type: "boolean",
+                description: "Whether to show markers in line charts.",
+              },
+              log_y_axis: {
+                type: "boolean",
+                description: "Whether to use a logarithmic scale for the y-axis.",
+              },
+              invert_y_axis: {
+                type: "boolean",
+                description: "Whether to invert the y-axis.",
+              },
+              title: {
+                type: "string",
+                description: "The widget title.",
+              },
+              description: {
+                type: "string",
+                description: "The widget description.",
+              },
+            },
+            additionalProperties: false,
+          },
+        },
+        required: ["widget_id", "chart_options"],
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_available_custom_widgets",
+      description: "Returns all available custom widgets in a Grist document.",
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "query_document",
+      description:
+        "Runs a SQL SELECT query against a Grist document and returns matching rows. " +
+        "Only SQLite-compatible SQL is supported. " +
+        "Only rows and columns the user has access to are included.",
+      parameters: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description:
+              "A SQL SELECT query to run on the Grist document. " +
+              "Must be a single SELECT statement with no trailing semicolon. " +
+              "WITH clauses are permitted. " +
+              "Must be valid SQLite syntax.",
+          },
+          args: {
+            type: ["array", "null"],
+            description:
+              "Arguments for parameters in query. " +
+              "Null if query is not parameterized.",
+            items: {
+              type: ["string", "number", "boolean", "null"],
+            },
+          },
+          doc_id: {
+            type: ["string", "null"],
+            description:
+              "ID of another document in the workspace, from " +
+              "get_workspace_documents. Null for the current document.",
+          },
+        },
+        required: ["query", "args", "doc_id"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "schedule_report",
+      description:
+        "Saves a SQL query as a report that runs on a schedule and emails its " +
+        "results to the user. Use this when the user wants the answer to a " +
+        "question regularly (e.g. every Monday morning). Check that the query " +
+        "answers the question with query_document first.",
+      parameters: {
+        type: "object",
+        properties: {
+          title: {
+            type: "string",
+            description:
+              "A short title for the report, used as the email's subject.",
+          },
+          prompt: {
+            type: "string",
+            description:
+              "The question the report answers, in the user's words.",
+          },
+          query: {
+            type: "string",
+            description:
+              "A SQL SELECT query that answers the question, as run with " +
+              "query_document. Relative dates should be computed in the " +
+              "query (e.g. with date('now', '-7 days')), so that it stays " +
+              "correct on every run.",
+          },
+          schedule: {
+            type: "string",
+            description:
+              "When to run the report, as a cron expression with 5 fields " +
+              "(minute, hour, day of month, month, day of week). For " +
+              'example, "0 9 * * 1" for Mondays at 9:00. Reports may run at ' +
+              "most once an hour.",
+          },
+          timezone: {
+            type: ["string", "null"],
+            description:
+              'The timezone of the schedule (e.g. "America/New_York"). ' +
+              "Null for the document's timezone.",
+          },
+        },
+        required: ["title", "prompt", "query", "schedule", "timezone"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_scheduled_reports",
+      description:
+        "Returns the reports the user has scheduled in the document, with " +
+        "when each one runs next.",
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "remove_scheduled_report",
+      description:
+        "Removes a report the user has scheduled, so it is no longer emailed.",
+      parameters: {
+        type: "object",
+        properties: {
+          report_id: {
+            type: "string",
+            description: "The ID of the report, from get_scheduled_reports.",
+          },
+        },
+        required: ["report_id"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "test_formula",
+      description:
+        "Evaluates a formula against some records of a table, without " +
+        "changing the document, and returns the value or error (with Python " +
+        "traceback) for each record. Use this to check a formula before " +
+        "adding or updating a formula column, and fix any errors it reports.",
+      parameters: {
+        type: "object",
+        properties: {
+          table_id: {
+            type: "string",
+            description: "The ID of the table to evaluate the formula in.",
+          },
+          formula: {
+            type: "string",
+            description:
+              "The formula to evaluate, as it would be set on a column " +
+              "of the table (e.g. `$Amount * 1.1`).",
+          },
+          row_ids: {
+            type: ["array", "null"],
+            description:
+              "IDs of the records to evaluate the formula for (at most 50). " +
+              "Null to use the first 10 records.",
+            items: {
+              type: "number",
+            },
+          },
+        },
+        required: ["table_id", "formula", "row_ids"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "read_attachment",
+      description:
+        "Reads the content of an attachment: the rows of CSV, TSV and XLSX files, " +
+        "and the text of PDF and plain text files. " +
+        "Attachment IDs are the values of Attachments columns. " +
+        "Long content is returned in parts; if truncated is true, call again " +
+        "with a larger offset to read more.",
+      parameters: {
+        type: "object",
+        properties: {
+          attachment_id: {
+            type: "integer",
+            description: "The ID of the attachment.",
+          },
+          sheet_name: {
+            type: ["string", "null"],
+            description:
+              "For XLSX files, the name of the sheet to read. " +
+              "If null, all sheets are read.",
+          },
+          offset: {
+            type: ["integer", "null"],
+            description:
+              "The number of rows (for spreadsheets) or characters (for text) to skip. " +
+              "If null, content is read from the start.",
+          },
+        },
+        required: ["attachment_id", "sheet_name", "offset"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "add_records",
+      description: "Adds one or more records to a table.",
+      parameters: {
+        type: "object",
+        properties: {
+          table_id: {
+            type: "string",
+            description: "The ID of the table to add the records to.",
+          },
+          records: {
+            type: "array",
+            description: "The records to add.",
+            items: {
+              type: "object",
+              description:
+                "A record. Keys are column IDs (e.g., 'Name', 'Age'). " +
+                'Example: `{"Name": "Alice", "Age": 30}`',
+            },
+          },
+        },
+        required: ["table_id", "records"],
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "update_records",
+      description: "Updates one or more records in a table.",
+      parameters: {
+        type: "object",
+        properties: {
+          table_id: {
+            type: "string",
+            description: "The ID of the table to update the records in.",
+          },
+          record_ids: {
+            type: "array",
+            description: "The IDs of the records to update.",
+            items: {
+              type: "number",
+            },
+          },
+          records: {
+            type: "array",
+            description:
+              "The records to update, in the same order as record_ids.",
+            items: {
+              description:
+                "A record. Keys are column IDs (e.g., 'Name', 'Age'). " +
+                'Example: `{"Name": "Alice", "Age": 30}`',
+            },
+          },
+        },
+        required: ["table_id", "record_ids", "records"],
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "remove_records",
+      description: "Removes one or more records from a table.",
+      parameters: {
+        type: "object",
+        properties: {
+          table_id: {
+            type: "string",
+            description: "The ID of the table to remove the records from.",
+          },
+          record_ids: {
+            type: "array",
             description: "The IDs of the records to remove.",
             items: {
               type: "number",
@@ -1166,6 +1947,216 @@ export const OPENAI_TOOLS: OpenAITool[] = [
       strict: true,
     },
   },
+  {
+    type: "function",
+    function: {
+      name: "import_data",
+      description:
+        "Imports records into a table from CSV, TSV or JSON text, or from a CSV, TSV " +
+        "or XLSX attachment. Prefer this to add_records for more than a few records. " +
+        "Source columns are matched to table columns by column_mapping, or else by ID or label. " +
+        "Values are converted to the types of the columns they're imported into. " +
+        "Returns a summary of imported columns, with examples of values that were " +
+        "converted or couldn't be, and of skipped rows and columns.",
+      parameters: {
+        type: "object",
+        properties: {
+          table_id: {
+            type: "string",
+            description:
+              "The ID of the table to import into. " +
+              "If no such table exists, it is created, with column types guessed from the data.",
+          },
+          source: {
+            type: "object",
+            description:
+              "The data to import. The first row (or the keys of JSON objects) names the columns. " +
+              "Set either format and text, or attachment_id. " +
+              'Example: `{"format": "csv", "text": "Name,Age\\nAlice,30"}`',
+            properties: {
+              format: {
+                type: "string",
+                enum: ["csv", "tsv", "json"],
+                description:
+                  "The format of text. JSON must be an array of objects.",
+              },
+              text: {
+                type: "string",
+                description: "The data to import.",
+              },
+              attachment_id: {
+                type: "integer",
+                description: "The ID of an attachment to import.",
+              },
+              sheet_name: {
+                type: ["string", "null"],
+                description:
+                  "For XLSX attachments, the sheet to import. " +
+                  "If null, the first sheet is imported.",
+              },
+            },
+            additionalProperties: false,
+          },
+          column_mapping: {
+            type: ["object", "null"],
+            description:
+              "Maps source column names to the IDs of the table columns to import them into. " +
+              "Map a source column to null to skip it. " +
+              "Unmapped source columns are matched by column ID or label. " +
+              'Example: `{"Full name": "Name", "Notes": null}`',
+            additionalProperties: {
+              type: ["string", "null"],
+            },
+          },
+          add_missing_columns: {
+            type: "boolean",
+            description:
+              "Whether to add columns to an existing table for source columns that don't match any. " +
+              "If false, those source columns are skipped. Defaults to false.",
+          },
+        },
+        required: ["table_id", "source"],
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_access_rules",
+      description:
+        "Returns the access rules of the document, in the order they are evaluated. " +
+        "Rules for table '*' are defaults for all tables.",
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "add_access_rule",
+      description:
+        "Adds an access rule for a table, or for some of its columns. " +
+        "It's evaluated after existing rules for the same table and columns, " +
+        "except the rule for everyone else (the one with an empty condition). " +
+        "Only owners can change access rules.",
+      parameters: {
+        type: "object",
+        properties: {
+          table_id: {
+            type: "string",
+            description: "The ID of the table, or '*' for default rules for all tables.",
+          },
+          column_ids: {
+            type: ["array", "null"],
+            description: "The IDs of the columns the rule applies to. Null for all columns.",
+            items: {
+              type: "string",
+            },
+          },
+          condition: {
+            type: "string",
+            description:
+              "When the rule applies, as an access rule formula " +
+              "(e.g. `user.Access != OWNER`, `rec.Owner != user.Email`). " +
+              "Empty to apply to everyone not matched by earlier rules.",
+          },
+          permissions: {
+            type: "string",
+            description:
+              "Permissions the rule grants or denies, e.g. '+R', '-CUD', '+R-U', 'all', or 'none'. " +
+              "C = create records, R = read, U = update, D = delete, S = change structure.",
+          },
+          memo: {
+            type: ["string", "null"],
+            description: "A message shown to users denied access by the rule.",
+          },
+          dry_run: {
+            type: "boolean",
+            description:
+              "If true, the change isn't made. Instead, returns which users would " +
+              "gain or lose which permissions on which tables and columns.",
+          },
+        },
+        required: [
+          "table_id",
+          "column_ids",
+          "condition",
+          "permissions",
+          "memo",
+          "dry_run",
+        ],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "update_access_rule",
+      description:
+        "Updates the condition, permissions, or memo of an access rule. " +
+        "Only owners can change access rules.",
+      parameters: {
+        type: "object",
+        properties: {
+          rule_id: {
+            type: "number",
+            description: "The ID of the rule to update.",
+          },
+          condition: {
+            type: ["string", "null"],
+            description: "The new condition. Null to leave unchanged.",
+          },
+          permissions: {
+            type: ["string", "null"],
+            description:
+              "New permissions the rule grants or denies, e.g. '+R', '-CUD', '+R-U', 'all', or 'none'. " +
+              "C = create records, R = read, U = update, D = delete, S = change structure. " +
+              "Null to leave unchanged.",
+          },
+          memo: {
+            type: ["string", "null"],
+            description: "The new memo. Null to leave unchanged.",
+          },
+          dry_run: {
+            type: "boolean",
+            description:
+              "If true, the change isn't made. Instead, returns which users would " +
+              "gain or lose which permissions on which tables and columns.",
+          },
+        },
+        required: ["rule_id", "condition", "permissions", "memo", "dry_run"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "remove_access_rule",
+      description:
+        "Removes an access rule. Only owners can change access rules.",
+      parameters: {
+        type: "object",
+        properties: {
+          rule_id: {
+            type: "number",
+            description: "The ID of the rule to remove.",
+          },
+          dry_run: {
+            type: "boolean",
+            description:
+              "If true, the change isn't made. Instead, returns which users would " +
+              "gain or lose which permissions on which tables and columns.",
+          },
+        },
+        required: ["rule_id", "dry_run"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  },
   {
     type: "function",
     function: {
@@ -0,0 +1,41 @@
+import { ApiError } from "app/common/ApiError";
+import {
+  assertAccess,
+  getOrSetDocAuth,
+  RequestWithLogin,
+} from "app/server/lib/Authorizer";
+import { docSessionFromRequest, OptDocSession } from "app/server/lib/DocSession";
+import { GristServer } from "app/server/lib/GristServer";
+import { AssistanceDoc } from "app/server/lib/IAssistant";
+import { stringParam } from "app/server/lib/requestUtils";
+import * as express from "express";
+
+/**
+ * Resolves the `:docId` of an assistant REST endpoint to the document open
+ * on this server, after checking that the caller has at least `role` access.
+ *
+ * Callers who can't see all of the document may still use the assistant:
+ * granular access rules apply to everything it reads on their behalf.
+ */
+export async function getAssistanceDocForRequest(
+  gristServer: GristServer,
+  req: express.Request,
+  role: "viewers" | "editors" | "owners" = "viewers"
+): Promise<{ docSession: OptDocSession; doc: AssistanceDoc }> {
+  const mreq = req as RequestWithLogin;
+  const urlId = stringParam(req.params.docId, "docId");
+  const docAuth = await getOrSetDocAuth(
+    mreq,
+    gristServer.getHomeDBManager(),
+    gristServer,
+    urlId
+  );
+  assertAccess(role, docAuth);
+
+  const doc = await gristServer.getDocManager().getActiveDoc(docAuth.docId!);
+  if (!doc) {
+    throw new ApiError(`Document ${urlId} is not open on this server`, 404);
+  }
+
+  return { docSession: docSessionFromRequest(mreq), doc };
+}
@@ -0,0 +1,431 @@
+import { ACLRuleCollection } from "app/common/ACLRuleCollection";
+import { parsePermissions } from "app/common/ACLPermissions";
+import { ApplyUAResult } from "app/common/ActiveDocAPI";
+import {
+  AddRecord,
+  DocAction,
+  TableDataAction,
+  UserAction,
+} from "app/common/DocActions";
+import { DocData } from "app/common/DocData";
+import { UserInfo } from "app/common/GranularAccessClause";
+import { compilePredicateFormula } from "app/common/PredicateFormula";
+import { UserAccessData } from "app/common/UserAPI";
+import { getDocDataOrThrow } from "app/server/lib/ActiveDocUtils";
+import { OptDocSession } from "app/server/lib/DocSession";
+import { AssistanceDoc } from "app/server/lib/IAssistant";
+import log from "app/server/lib/log";
+import { PermissionInfo } from "app/server/lib/PermissionInfo";
+
+/**
+ * An access rule, as described to the model.
+ */
+export interface AccessRule {
+  id: number;
+  table_id: string;
+  /** Null if the rule applies to all columns of the table. */
+  column_ids: string[] | null;
+  condition: string;
+  permissions: string;
+  memo: string;
+}
+
+/**
+ * A change in what a user may do with a table or column.
+ */
+export interface AccessChange {
+  user: string;
+  role: string | null;
+  table_id: string;
+  /** Null for permissions on the table as a whole. */
+  column_id: string | null;
+  permission: PermissionName;
+  before: string;
+  after: string;
+}
+
+type PermissionName = "read" | "create" | "update" | "delete" | "schemaEdit";
+
+const PERMISSION_NAMES: PermissionName[] = [
+  "read",
+  "create",
+  "update",
+  "delete",
+  "schemaEdit",
+];
+
+// The tables access rules are read from.
+const ACL_TABLE_IDS = [
+  "_grist_Tables",
+  "_grist_Tables_column",
+  "_grist_ACLResources",
+  "_grist_ACLRules",
+];
+
+/**
+ * Applies a batch of user actions, returning their retValues.
+ */
+export type ApplyAccessRuleActions = (actions: UserAction[]) => Promise<any[]>;
+
+/**
+ * Makes a change to access rules using `apply`, so that the same change can
+ * be made for real or as a dry run (see `runAccessRuleChange`).
+ */
+export type AccessRuleChangeFunc = (
+  apply: ApplyAccessRuleActions
+) => Promise<unknown>;
+
+export function listAccessRules(doc: AssistanceDoc): AccessRule[] {
+  const docData = getDocDataOrThrow(doc);
+  const resources = docData.getMetaTable("_grist_ACLResources");
+  return docData
+    .getMetaTable("_grist_ACLRules")
+    .getRecords()
+    .filter((rule) => rule.resource)
+    .sort((a, b) => a.rulePos - b.rulePos)
+    .map((rule) => {
+      const resource = resources.getRecord(rule.resource);
+      return {
+        id: rule.id,
+        table_id: resource?.tableId ?? "",
+        column_ids: parseColIds(resource?.colIds ?? "*"),
+        condition: rule.aclFormula,
+        permissions: rule.permissionsText,
+        memo: rule.memo,
+      };
+    });
+}
+
+/**
+ * Adds an access rule. It's placed after the other rules for the same table
+ * and columns, but before the one that applies to everyone else (the rule
+ * without a condition), if any. Returns the new rule's id.
+ */
+export async function addAccessRule(
+  docSession: OptDocSession,
+  doc: AssistanceDoc,
+  apply: ApplyAccessRuleActions,
+  rule: Omit<AccessRule, "id">
+): Promise<number> {
+  checkTableId(rule.table_id);
+  await checkRule(docSession, doc, rule);
+  const docData = getDocDataOrThrow(doc);
+  const colIds = rule.column_ids?.join(",") ?? "*";
+  let resourceId = docData
+    .getMetaTable("_grist_ACLResources")
+    .filterRowIds({ tableId: rule.table_id, colIds })[0];
+  if (!resourceId) {
+    [resourceId] = await apply([
+      [
+        "AddRecord",
+        "_grist_ACLResources",
+        null,
+        { tableId: rule.table_id, colIds },
+      ],
+    ]);
+  }
+
+  const [ruleId] = await apply([
+    [
+      "AddRecord",
+      "_grist_ACLRules",
+      null,
+      {
+        resource: resourceId,
+        aclFormula: rule.condition,
+        permissionsText: rule.permissions,
+        memo: rule.memo,
+        rulePos: getNewRulePos(doc, resourceId),
+      },
+    ],
+  ]);
+  return ruleId;
+}
+
+export async function updateAccessRule(
+  docSession: OptDocSession,
+  doc: AssistanceDoc,
+  apply: ApplyAccessRuleActions,
+  ruleId: number,
+  changes: Partial<Pick<AccessRule, "condition" | "permissions" | "memo">>
+) {
+  const rule = getAccessRule(doc, ruleId);
+  await checkRule(docSession, doc, { ...rule, ...changes });
+  await apply([
+    [
+      "UpdateRecord",
+      "_grist_ACLRules",
+      ruleId,
+      {
+        ...(changes.condition !== undefined
+          ? { aclFormula: changes.condition }
+          : {}),
+        ...(changes.permissions !== undefined
+          ? { permissionsText: changes.permissions }
+          : {}),
+        ...(changes.memo !== undefined ? { memo: changes.memo } : {}),
+      },
+    ],
+  ]);
+}
+
+/**
+ * Removes an access rule, and its resource if no other rule uses it.
+ */
+export async function removeAccessRule(
+  doc: AssistanceDoc,
+  apply: ApplyAccessRuleActions,
+  ruleId: number
+) {
+  getAccessRule(doc, ruleId);
+  const rules = getDocDataOrThrow(doc).getMetaTable("_grist_ACLRules");
+  const resourceId = rules.getValue(ruleId, "resource")!;
+  const actions: UserAction[] = [["RemoveRecord", "_grist_ACLRules", ruleId]];
+  if (rules.filterRowIds({ resource: resourceId }).length === 1) {
+    actions.push(["RemoveRecord", "_grist_ACLResources", resourceId]);
+  }
+  await apply(actions);
+}
+
+/**
+ * Makes a change to access rules, and reports what it changes for each user
+ * with access to the document.
+ *
+ * If `dryRun` is set, the change is only made to a copy of the access rule
+ * tables, so the document isn't changed.
+ *
+ * Conditions that depend on record values (`rec` and `newRec`) are reported
+ * as "mixed". User attributes aren't looked up, so rules that use them may
+ * not be reported accurately.
+ */
+export async function runAccessRuleChange(
+  docSession: OptDocSession,
+  doc: AssistanceDoc,
+  change: AccessRuleChangeFunc,
+  options: { dryRun: boolean; desc: string }
+): Promise<{ accessChanges: AccessChange[]; appliedActions: ApplyUAResult[] }> {
+  const docData = getDocDataOrThrow(doc);
+  const before = snapshotAclTables(docData);
+  const { users } = await doc.getUsersForViewAs(docSession);
+  const appliedActions: ApplyUAResult[] = [];
+  let after: DocData;
+  if (options.dryRun) {
+    const snapshot = snapshotAclTables(docData);
+    await change(async (actions) =>
+      actions.map((action) => applyToSnapshot(snapshot, action))
+    );
+    after = snapshot;
+  } else {
+    await change(async (actions) => {
+      const result = await doc.applyUserActions(docSession, actions, {
+        desc: options.desc,
+      });
+      appliedActions.push(result);
+      return result.retValues;
+    });
+    after = docData;
+  }
+
+  return {
+    accessChanges: await compareAccess(before, after, users),
+    appliedActions,
+  };
+}
+
+function getAccessRule(doc: AssistanceDoc, ruleId: number): AccessRule {
+  const rule = listAccessRules(doc).find((r) => r.id === ruleId);
+  if (!rule) {
+    throw new Error(`Access rule ${ruleId} not found`);
+  }
+
+  checkTableId(rule.table_id);
+  return rule;
+}
+
+// Special rules (e.g. for copying the document) are left to the access rules
+// page, where their meaning is explained.
+function checkTableId(tableId: string) {
+  if (tableId.startsWith("*") && tableId !== "*") {
+    throw new Error(
+      "Special rules can only be changed from the access rules page"
+    );
+  }
+}
+
+async function checkRule(
+  docSession: OptDocSession,
+  doc: AssistanceDoc,
+  rule: Omit<AccessRule, "id">
+) {
+  try {
+    parsePermissions(rule.permissions);
+  } catch (e) {
+    throw new Error(`Invalid permissions "${rule.permissions}": ${e.message}`);
+  }
+
+  if (rule.condition.trim()) {
+    try {
+      await doc.checkAclFormula(docSession, rule.condition);
+    } catch (e) {
+      throw new Error(`Invalid condition "${rule.condition}": ${e.message}`);
+    }
+  }
+}
+
+function getNewRulePos(doc: AssistanceDoc, resourceId: number) {
+  const positions = getDocDataOrThrow(doc)
+    .getMetaTable("_grist_ACLRules")
+    .getRecords()
+    .sort((a, b) => a.rulePos - b.rulePos);
+  const fallback = positions.find(
+    (r) => r.resource === resourceId && !r.aclFormula.trim()
+  );
+  if (!fallback) {
+    return (positions[positions.length - 1]?.rulePos ?? 0) + 1;
+  }
+
+  const previous = positions.filter((r) => r.rulePos < fallback.rulePos).pop();
+  return ((previous?.rulePos ?? fallback.rulePos - 1) + fallback.rulePos) / 2;
+}
+
+function parseColIds(colIds: string) {
+  return colIds === "*" ? null : colIds.split(",").map((c) => c.trim());
+}
+
+// Copies just the tables access rules are read from, so that they can be
+// compared after a change, or changed without affecting the document.
+function snapshotAclTables(docData: DocData) {
+  const tables: { [tableId: string]: TableDataAction } = {};
+  for (const tableId of ACL_TABLE_IDS) {
+    tables[tableId] = docData.getMetaTable(tableId as any).getTableDataAction();
+  }
+  return new DocData(() => {
+    throw new Error("Only access rule tables are available");
+  }, tables);
+}
+
+/**
+ * Applies one of the user actions that access rules are changed with to a
+ * snapshot of the access rule tables, and returns its retValue. These are
+ * simple record actions, which the data engine would apply as they are,
+ * except for picking the row id of new records.
+ */
+function applyToSnapshot(snapshot: DocData, action: UserAction): unknown {
+  const [name, tableId] = action as [string, string];
+  if (!ACL_TABLE_IDS.includes(tableId)) {
+    throw new Error(`Unexpected table in access rule change: ${tableId}`);
+  }
+
+  switch (name) {
+    case "AddRecord": {
+      // New records are added with a null row id.
+      const [, , rowId, colValues] = action as AddRecord;
+      const rowIds = snapshot.getTable(tableId)!.getRowIds();
+      const newRowId = rowId || Math.max(0, ...rowIds) + 1;
+      snapshot.receiveAction(["AddRecord", tableId, newRowId, colValues]);
+      return newRowId;
+    }
+    case "UpdateRecord":
+    case "RemoveRecord": {
+      snapshot.receiveAction(action as DocAction);
+      return null;
+    }
+    default: {
+      throw new Error(`Unexpected action in access rule change: ${name}`);
+    }
+  }
+}
+
+async function compareAccess(
+  before: DocData,
+  after: DocData,
+  users: UserAccessData[]
+): Promise<AccessChange[]> {
+  const beforeRules = await readAccessRules(before);
+  const afterRules = await readAccessRules(after);
+  const resources = getResourcesToCompare(before, after);
+  const changes: AccessChange[] = [];
+  for (const user of users) {
+    const input = { user: toUserInfo(user) };
+    const beforeInfo = new PermissionInfo(beforeRules, input);
+    const afterInfo = new PermissionInfo(afterRules, input);
+    for (const { tableId, colId } of resources) {
+      const beforePerms = colId
+        ? beforeInfo.getColumnAccess(tableId, colId).perms
+        : beforeInfo.getTableAccess(tableId).perms;
+      const afterPerms = colId
+        ? afterInfo.getColumnAccess(tableId, colId).perms
+        : afterInfo.getTableAccess(tableId).perms;
+      for (const permission of PERMISSION_NAMES) {
+        if (beforePerms[permission] !== afterPerms[permission]) {
+          changes.push({
+            user: user.email,
+            role: user.access,
+            table_id: tableId,
+            column_id: colId,
+            permission,
+            before: beforePerms[permission],
+            after: afterPerms[permission],
+          });
+        }
+      }
+    }
+  }
+  return changes;
+}
+
+async function readAccessRules(docData: DocData) {
+  const rules = new ACLRuleCollection();
+  await rules.update(docData, { log, compile: compilePredicateFormula });
+  return rules;
+}
+
+/**
+ * Returns the tables, and columns with rules of their own, whose access may
+ * differ between `before` and `after`.
+ */
+function getResourcesToCompare(before: DocData, after: DocData) {
+  const tableIds = new Set<string>();
+  const columns = new Map<string, Set<string>>();
+  for (const docData of [before, after]) {
+    for (const resource of docData
+      .getMetaTable("_grist_ACLResources")
+      .getRecords()) {
+      if (resource.tableId.startsWith("*")) {
+        continue;
+      }
+
+      tableIds.add(resource.tableId);
+      for (const colId of parseColIds(resource.colIds) ?? []) {
+        const colIds = columns.get(resource.tableId) ?? new Set();
+        colIds.add(colId);
+        columns.set(resource.tableId, colIds);
+      }
+    }
+  }
+  // Default rules (for table "*") apply to every table.
+  for (const table of after.getMetaTable("_grist_Tables").getRecords()) {
+    if (table.tableId && !table.tableId.startsWith("GristHidden_")) {
+      tableIds.add(table.tableId);
+    }
+  }
+
+  return [...tableIds].flatMap((tableId) => [
+    { tableId, colId: null as string | null },
+    ...[...(columns.get(tableId) ?? [])].map((colId) => ({ tableId, colId })),
+  ]);
+}
+
+function toUserInfo(user: UserAccessData): UserInfo {
+  return {
+    Name: user.name,
+    Email: user.email,
+    UserID: user.id,
+    UserRef: null,
+    Access: user.access,
+    Origin: null,
+    LinkKey: {},
+    SessionID: null,
+    ShareRef: null,
+  } as UserInfo;
+}
@@ -0,0 +1,162 @@
+import { ApplyUAOptions, ApplyUAResult } from "app/common/ActiveDocAPI";
+import { UserAction } from "app/common/DocActions";
+import { OptDocSession } from "app/server/lib/DocSession";
+import { AssistanceDoc, FunctionCallResult } from "app/server/lib/IAssistant";
+
+// Longer strings in tool parameters are truncated.
+const MAX_STRING_LENGTH = 500;
+
+// Longer arrays in tool parameters are truncated.
+const MAX_ARRAY_LENGTH = 50;
+
+// Parameters that hold cell values, or text that may include them (e.g. a
+// query or formula that compares against a value). Only their shape is kept:
+// cell values belong in the document, not in the audit log.
+const VALUE_PARAMS = new Set([
+  "records",
+  "args",
+  "text",
+  "query",
+  "formula",
+  "condition",
+  "prompt",
+]);
+
+export interface ToolCallAuditDetails {
+  tool: {
+    name: string;
+    call_id: string;
+    params: unknown;
+  };
+  tables: string[];
+  outcome: {
+    ok: boolean;
+    error?: string;
+    action_nums: number[];
+  };
+}
+
+/**
+ * Returns what to record in the audit log about a call the assistant made to
+ * one of its tools. `actions` are the user actions the call applied (see
+ * `trackUserActions`), and the tables it changed are taken from them.
+ */
+export function getToolCallAuditDetails(
+  name: string,
+  callId: string,
+  params: unknown,
+  result: FunctionCallResult,
+  actions: UserAction[]
+): ToolCallAuditDetails {
+  return {
+    tool: {
+      name,
+      call_id: callId,
+      params: sanitizeToolParams(params),
+    },
+    tables: getTableIds(actions),
+    outcome: {
+      ok: result.ok,
+      ...(result.ok ? {} : { error: result.error }),
+      action_nums: result.appliedActions
+        .filter((a) => a.isModification)
+        .map((a) => a.actionNum),
+    },
+  };
+}
+
+/**
+ * Returns a view of `doc` whose `applyUserActions` appends the actions it
+ * applies to `applied`.
+ */
+export function trackUserActions(
+  doc: AssistanceDoc,
+  applied: UserAction[]
+): AssistanceDoc {
+  const applyUserActions = async (
+    docSession: OptDocSession,
+    actions: UserAction[],
+    options?: ApplyUAOptions
+  ): Promise<ApplyUAResult> => {
+    const result = await doc.applyUserActions(docSession, actions, options);
+    applied.push(...actions);
+    return result;
+  };
+  return new Proxy(doc, {
+    get(target, prop, receiver) {
+      if (prop === "applyUserActions") {
+        return applyUserActions;
+      }
+
+      const value = Reflect.get(target, prop, receiver);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
+
+/**
+ * Returns a copy of a tool's parameters fit for the audit log: long strings
+ * and arrays are truncated, and cell values are replaced with a summary of
+ * what was there (e.g. how many records, and which columns they set).
+ */
+function sanitizeToolParams(params: unknown, key?: string): unknown {
+  if (key !== undefined && VALUE_PARAMS.has(key)) {
+    return summarizeValues(params);
+  } else if (typeof params === "string") {
+    return truncateString(params);
+  } else if (Array.isArray(params)) {
+    const items = params
+      .slice(0, MAX_ARRAY_LENGTH)
+      .map((item) => sanitizeToolParams(item));
+    return params.length > MAX_ARRAY_LENGTH
+      ? [...items, `... (${params.length - MAX_ARRAY_LENGTH} more)`]
+      : items;
+  } else if (typeof params === "object" && params !== null) {
+    return Object.fromEntries(
+      Object.entries(params).map(([k, v]) => [k, sanitizeToolParams(v, k)])
+    );
+  } else {
+    return params;
+  }
+}
+
+/**
+ * Returns the IDs of tables that user actions act on, in order, without
+ * duplicates.
+ */
+function getTableIds(actions: UserAction[]): string[] {
+  const tableIds = new Set<string>();
+  for (const [, tableId] of actions) {
+    if (typeof tableId === "string") {
+      tableIds.add(tableId);
+    }
+  }
+  return [...tableIds];
+}
+
+function summarizeValues(value: unknown) {
+  if (typeof value === "string") {
+    return { length: value.length };
+  } else if (!Array.isArray(value)) {
+    return { omitted: true };
+  }
+
+  const colIds = new Set<string>();
+  for (const item of value) {
+    if (typeof item === "object" && item !== null && !Array.isArray(item)) {
+      Object.keys(item).forEach((colId) => colIds.add(colId));
+    }
+  }
+  return {
+    count: value.length,
+    ...(colIds.size > 0 ? { column_ids: [...colIds] } : {}),
+  };
+}
+
+function truncateString(value: string) {
+  return value.length > MAX_STRING_LENGTH
+    ? `${value.slice(0, MAX_STRING_LENGTH)}... (${
+        value.length - MAX_STRING_LENGTH
+      } more characters)`
+    : value;
+}
@@ -0,0 +1,173 @@
+import { ApiError } from "app/common/ApiError";
+import { AssistantConversation } from "app/common/AssistantAPI";
+import { AssistantConversations } from "app/gen-server/lib/AssistantConversations";
+import {
+  assertAccess,
+  getOrSetDocAuth,
+  isAnonymousUser,
+  RequestWithLogin,
+} from "app/server/lib/Authorizer";
+import { expressWrap } from "app/server/lib/expressWrap";
+import { GristServer } from "app/server/lib/GristServer";
+import { optStringParam, stringParam } from "app/server/lib/requestUtils";
+import * as express from "express";
+
+// Titles longer than this are cut short.
+const MAX_TITLE_LENGTH = 255;
+
+interface ConversationCaller {
+  docId: string;
+  userId: number;
+  isOwner: boolean;
+}
+
+/**
+ * Adds endpoints for saving, listing, reopening, renaming and deleting
+ * assistant conversations, under `/api/docs/:docId/assistant/conversations`.
+ *
+ * A conversation can be read, renamed and deleted by the user who started
+ * it and by the document's owners, but only its author can add to it.
+ * Anonymous users can't save conversations.
+ */
+export function addAssistantConversationEndpoints(
+  app: express.Application,
+  gristServer: GristServer
+) {
+  let store: AssistantConversations | undefined;
+  const getStore = () =>
+    (store ??= new AssistantConversations(gristServer.getHomeDBManager()));
+
+  app.get(
+    "/api/docs/:docId/assistant/conversations",
+    expressWrap(async (req, res) => {
+      const { docId, userId, isOwner } = await getCaller(gristServer, req);
+      res.json(
+        await getStore().listConversations(
+          docId,
+          isOwner ? undefined : userId
+        )
+      );
+    })
+  );
+
+  app.get(
+    "/api/docs/:docId/assistant/conversations/:conversationId",
+    expressWrap(async (req, res) => {
+      const caller = await getCaller(gristServer, req);
+      const conversation = await getStore().getConversation(
+        caller.docId,
+        getConversationId(req)
+      );
+      assertCanAccess(caller, conversation);
+      res.json(conversation);
+    })
+  );
+
+  app.put(
+    "/api/docs/:docId/assistant/conversations/:conversationId",
+    expressWrap(async (req, res) => {
+      const { docId, userId } = await getCaller(gristServer, req);
+      const conversationId = getConversationId(req);
+      const title = optStringParam(req.body.title, "title");
+      const history = req.body.history;
+      if (typeof history !== "object" || history === null) {
+        throw new ApiError("history must be an object", 400);
+      }
+
+      const existing = await getStore().getConversation(docId, conversationId);
+      if (existing && existing.userId !== userId) {
+        throw new ApiError(
+          "Only the author of a conversation can add to it",
+          403
+        );
+      }
+
+      res.json(
+        await getStore().saveConversation(docId, conversationId, {
+          userId,
+          title: title !== undefined ? normalizeTitle(title) : undefined,
+          history,
+        })
+      );
+    })
+  );
+
+  app.patch(
+    "/api/docs/:docId/assistant/conversations/:conversationId",
+    expressWrap(async (req, res) => {
+      const caller = await getCaller(gristServer, req);
+      const conversationId = getConversationId(req);
+      const title = normalizeTitle(stringParam(req.body.title, "title"));
+      assertCanAccess(
+        caller,
+        await getStore().getConversation(caller.docId, conversationId)
+      );
+      await getStore().renameConversation(caller.docId, conversationId, title);
+      res.json(null);
+    })
+  );
+
+  app.delete(
+    "/api/docs/:docId/assistant/conversations/:conversationId",
+    expressWrap(async (req, res) => {
+      const caller = await getCaller(gristServer, req);
+      const conversationId = getConversationId(req);
+      assertCanAccess(
+        caller,
+        await getStore().getConversation(caller.docId, conversationId)
+      );
+      await getStore().deleteConversation(caller.docId, conversationId);
+      res.json(null);
+    })
+  );
+}
+
+/**
+ * Checks that the caller is logged in and can view the document. Unlike
+ * other assistant endpoints, the document doesn't need to be open.
+ */
+async function getCaller(
+  gristServer: GristServer,
+  req: express.Request
+): Promise<ConversationCaller> {
+  if (isAnonymousUser(req)) {
+    throw new ApiError("You must be signed in to save conversations", 403);
+  }
+
+  const mreq = req as RequestWithLogin;
+  const urlId = stringParam(req.params.docId, "docId");
+  const docAuth = await getOrSetDocAuth(
+    mreq,
+    gristServer.getHomeDBManager(),
+    gristServer,
+    urlId
+  );
+  assertAccess("viewers", docAuth);
+  return {
+    docId: docAuth.docId!,
+    userId: mreq.userId!,
+    isOwner: docAuth.access === "owners",
+  };
+}
+
+function assertCanAccess(
+  caller: ConversationCaller,
+  conversation: AssistantConversation | null
+): asserts conversation is AssistantConversation {
+  // Conversations the caller can't access are reported as missing, so as not
+  // to reveal their existence.
+  if (
+    !conversation ||
+    (conversation.userId !== caller.userId && !caller.isOwner)
+  ) {
+    throw new ApiError("Conversation not found", 404);
+  }
+}
+
+function getConversationId(req: express.Request) {
+  return stringParam(req.params.conversationId, "conversationId");
+}
+
+function normalizeTitle(title: string) {
+  return title.trim().slice(0, MAX_TITLE_LENGTH);
+}
@@ -0,0 +1,409 @@
+import { AssistanceState } from "app/common/Assistance";
+import { AssistantAPIImpl } from "app/common/AssistantAPI";
+import { IOptions } from "app/common/BaseAPI";
+import { CellValue, UserAction } from "app/common/DocActions";
+import { safeJsonParse } from "app/common/gutil";
+import { DocAPI, UserAPIImpl } from "app/common/UserAPI";
+import { randomUUID } from "crypto";
+import * as fse from "fs-extra";
+import * as http from "http";
+import { isEqual, pick } from "lodash";
+import fetch from "node-fetch";
+import * as path from "path";
+
+/**
+ * A scripted conversation with the assistant, and what it should lead to.
+ * Scenarios are kept in `*.scenario.json` files, with their recorded
+ * provider responses next to them, in `*.recording.json` files. For example:
+ *
+ *   {
+ *     "name": "add-project",
+ *     "setup": [["AddTable", "Projects", [{"id": "Name"}]]],
+ *     "turns": [
+ *       {"prompt": "Add a project named Q4 Launch"},
+ *       {"prompt": "Yes, go ahead", "replyIncludes": ["Q4 Launch"]}
+ *     ],
+ *     "expectTables": {"Projects": [{"Name": "Q4 Launch"}]}
+ *   }
+ */
+export interface EvalScenario {
+  name: string;
+  description?: string;
+  /** User actions that set up the scratch document before the conversation. */
+  setup?: UserAction[];
+  turns: EvalTurn[];
+  /**
+   * Records each table must contain after the last turn, in order. Only the
+   * columns listed are compared.
+   */
+  expectTables?: { [tableId: string]: { [colId: string]: CellValue }[] };
+}
+
+export interface EvalTurn {
+  prompt: string;
+  /** Text the reply must include, ignoring case. */
+  replyIncludes?: string[];
+}
+
+/**
+ * A request sent to the provider's completion endpoint, and its response.
+ */
+export interface RecordedExchange {
+  request: RecordedRequest;
+  response: { status: number; contentType: string | null; body: string };
+}
+
+/**
+ * The parts of a completion request that are recorded, and that replayed
+ * requests are compared on: the names of the tools offered, and the
+ * conversation. System prompts are left out, since they include the current
+ * date.
+ */
+export interface RecordedRequest {
+  tools: string[];
+  messages: CompletionRequestMessage[];
+}
+
+interface CompletionRequestMessage {
+  role: string;
+  [key: string]: unknown;
+}
+
+// The body of a completion request, in the OpenAI format or another
+// provider's. Tools are named by `function.name` in the OpenAI format, and
+// `name` in others.
+interface CompletionRequestBody {
+  messages?: CompletionRequestMessage[];
+  tools?: { name?: string; function?: { name: string } }[];
+}
+
+export interface EvalRecording {
+  scenario: string;
+  exchanges: RecordedExchange[];
+}
+
+export interface EvalResult {
+  name: string;
+  passed: boolean;
+  failures: string[];
+}
+
+/**
+ * Where and how to reach the Grist server under test. The server must use
+ * the `ProviderStub` as its completion endpoint (by setting
+ * ASSISTANT_CHAT_COMPLETION_ENDPOINT), and have ASSISTANT_STREAMING set.
+ */
+export interface EvalServer {
+  homeUrl: string;
+  apiKey: string;
+  workspaceId: number;
+  /** If set, scratch documents aren't deleted after each scenario. */
+  keepDocs?: boolean;
+}
+
+// Headers passed on to the real provider when recording.
+const FORWARDED_HEADERS = [
+  "authorization",
+  "api-key",
+  "x-api-key",
+  "anthropic-version",
+  "content-type",
+];
+
+/**
+ * A local stand-in for the provider's completion endpoint. In replay mode, it
+ * answers each request with the next recorded response, and notes requests
+ * that differ from the recorded ones. In record mode, it passes requests on
+ * to the real endpoint, and records them along with the responses.
+ */
+export class ProviderStub {
+  private _server = http.createServer((req, res) => {
+    this._handle(req, res).catch((e) => {
+      this._problems.push(`Stub failed to handle request: ${e.message}`);
+      if (!res.headersSent) {
+        res.writeHead(500);
+      }
+      res.end();
+    });
+  });
+  private _upstream?: string;
+  private _recording: RecordedExchange[] = [];
+  private _exchanges: RecordedExchange[] = [];
+  private _problems: string[] = [];
+
+  public listen(port: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this._server.once("error", reject);
+      this._server.listen(port, "localhost", () => resolve());
+    });
+  }
+
+  public close(): Promise<void> {
+    return new Promise((resolve) => this._server.close(() => resolve()));
+  }
+
+  public replay(recording: EvalRecording) {
+    this._reset();
+    this._recording = recording.exchanges;
+  }
+
+  public record(upstream: string) {
+    this._reset();
+    this._upstream = upstream;
+  }
+
+  /**
+   * Returns the exchanges since `replay` or `record` was called, and any
+   * problems found, such as requests that weren't in the recording.
+   */
+  public finish(): { exchanges: RecordedExchange[]; problems: string[] } {
+    const problems = [...this._problems];
+    if (!this._upstream && this._exchanges.length < this._recording.length) {
+      problems.push(
+        `Only ${this._exchanges.length} of ${this._recording.length} ` +
+          "recorded requests were made"
+      );
+    }
+    return { exchanges: this._exchanges, problems };
+  }
+
+  private _reset() {
+    this._upstream = undefined;
+    this._recording = [];
+    this._exchanges = [];
+    this._problems = [];
+  }
+
+  private async _handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const text = await readBody(req);
+    const request = getRecordedRequest(safeJsonParse(text, null));
+    const index = this._exchanges.length;
+    let response: RecordedExchange["response"];
+    if (this._upstream) {
+      const upstreamResponse = await fetch(this._upstream, {
+        method: "POST",
+        headers: pick(req.headers, FORWARDED_HEADERS) as Record<string, string>,
+        body: text,
+      });
+      response = {
+        status: upstreamResponse.status,
+        contentType: upstreamResponse.headers.get("content-type"),
+        body: await upstreamResponse.text(),
+      };
+    } else {
+      const recorded = this._recording[index];
+      if (!recorded) {
+        this._problems.push(
+          `Request ${index + 1} wasn't recorded (the recording has ` +
+            `${this._recording.length})`
+        );
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: { message: "No recorded response" } }));
+        return;
+      }
+
+      const change = describeRequestChange(recorded.request, request);
+      if (change) {
+        this._problems.push(
+          `Request ${index + 1} differs from the recording: ${change}`
+        );
+      }
+      response = recorded.response;
+    }
+
+    this._exchanges.push({ request, response });
+    res.writeHead(response.status, {
+      ...(response.contentType ? { "Content-Type": response.contentType } : {}),
+    });
+    res.end(response.body);
+  }
+}
+
+/**
+ * Reads all scenarios in `dir`, sorted by file name.
+ */
+export async function readScenarios(
+  dir: string
+): Promise<{ scenario: EvalScenario; file: string }[]> {
+  const files = (await fse.readdir(dir))
+    .filter((name) => name.endsWith(".scenario.json"))
+    .sort();
+  return Promise.all(
+    files.map(async (name) => {
+      const file = path.join(dir, name);
+      return { scenario: await fse.readJson(file), file };
+    })
+  );
+}
+
+export function getRecordingPath(scenarioFile: string) {
+  return scenarioFile.replace(/\.scenario\.json$/, ".recording.json");
+}
+
+/**
+ * Runs a scenario against a fresh scratch document, and checks the replies
+ * and the resulting document against its expectations. If `upstream` is set,
+ * the provider's responses are recorded; otherwise, they are replayed from
+ * the scenario's recording.
+ */
+export async function runScenario(
+  server: EvalServer,
+  stub: ProviderStub,
+  options: { scenario: EvalScenario; file: string; upstream?: string }
+): Promise<EvalResult> {
+  const { scenario, file, upstream } = options;
+  const recordingPath = getRecordingPath(file);
+  if (upstream) {
+    stub.record(upstream);
+  } else if (await fse.pathExists(recordingPath)) {
+    stub.replay(await fse.readJson(recordingPath));
+  } else {
+    return {
+      name: scenario.name,
+      passed: false,
+      failures: [`No recording found at ${recordingPath}`],
+    };
+  }
+
+  const failures: string[] = [];
+  const clientOptions: IOptions = {
+    headers: { Authorization: `Bearer ${server.apiKey}` },
+    // Streamed responses are read with the WHATWG streams API, which
+    // node-fetch doesn't support.
+    fetch: globalThis.fetch,
+  };
+  const api = new UserAPIImpl(server.homeUrl, clientOptions);
+  const docId = await api.newDoc(
+    { name: `Assistant evaluation: ${scenario.name}` },
+    server.workspaceId
+  );
+  try {
+    const docApi = api.getDocAPI(docId);
+    if (scenario.setup?.length) {
+      await docApi.applyUserActions(scenario.setup);
+    }
+
+    const assistantApi = new AssistantAPIImpl(
+      `${server.homeUrl}/api/docs/${docId}`,
+      clientOptions
+    );
+    const conversationId = randomUUID();
+    let state: AssistanceState | undefined;
+    for (const [i, turn] of scenario.turns.entries()) {
+      const response = await assistantApi.streamAssistance(
+        { conversationId, context: {}, text: turn.prompt, state },
+        () => {}
+      );
+      state = response.state;
+      const reply = (response.reply ?? "").toLowerCase();
+      for (const text of turn.replyIncludes ?? []) {
+        if (!reply.includes(text.toLowerCase())) {
+          failures.push(`Reply to turn ${i + 1} doesn't include "${text}"`);
+        }
+      }
+    }
+
+    failures.push(...(await checkTables(docApi, scenario.expectTables ?? {})));
+  } catch (e) {
+    failures.push(`Scenario failed: ${e.message}`);
+  } finally {
+    if (!server.keepDocs) {
+      await api.deleteDoc(docId);
+    }
+  }
+
+  const { exchanges, problems } = stub.finish();
+  failures.push(...problems);
+  if (upstream) {
+    const recording: EvalRecording = { scenario: scenario.name, exchanges };
+    await fse.writeJson(recordingPath, recording, { spaces: 2 });
+  }
+  return { name: scenario.name, passed: failures.length === 0, failures };
+}
+
+async function checkTables(
+  docApi: DocAPI,
+  expectTables: NonNullable<EvalScenario["expectTables"]>
+): Promise<string[]> {
+  const failures: string[] = [];
+  for (const [tableId, expected] of Object.entries(expectTables)) {
+    let colValues;
+    try {
+      colValues = await docApi.getRows(tableId);
+    } catch (e) {
+      failures.push(`Table ${tableId} couldn't be read: ${e.message}`);
+      continue;
+    }
+
+    const rowCount = colValues.id.length;
+    if (rowCount !== expected.length) {
+      failures.push(
+        `Table ${tableId} has ${rowCount} records; expected ${expected.length}`
+      );
+      continue;
+    }
+
+    expected.forEach((record, i) => {
+      const actual = Object.fromEntries(
+        Object.keys(record).map((colId) => [colId, colValues[colId]?.[i]])
+      );
+      if (!isEqual(actual, record)) {
+        failures.push(
+          `Record ${i + 1} of ${tableId} is ${JSON.stringify(actual)}; ` +
+            `expected ${JSON.stringify(record)}`
+        );
+      }
+    });
+  }
+  return failures;
+}
+
+function getRecordedRequest(
+  body: CompletionRequestBody | null
+): RecordedRequest {
+  return {
+    tools: (body?.tools ?? []).map(
+      (tool) => tool.function?.name ?? tool.name ?? ""
+    ),
+    messages: (body?.messages ?? []).filter((m) => m.role !== "system"),
+  };
+}
+
+/**
+ * Describes how a request differs from the recorded one, or returns null if
+ * it doesn't.
+ */
+function describeRequestChange(
+  recorded: RecordedRequest,
+  actual: RecordedRequest
+): string | null {
+  const { tools: recordedTools, messages: recordedMessages } = recorded;
+  const { tools: actualTools, messages: actualMessages } = actual;
+  if (!isEqual(recordedTools, actualTools)) {
+    const added = actualTools.filter((name) => !recordedTools.includes(name));
+    const removed = recordedTools.filter((name) => !actualTools.includes(name));
+    return (
+      "tools changed" +
+      (added.length > 0 ? `; added ${added.join(", ")}` : "") +
+      (removed.length > 0 ? `; removed ${removed.join(", ")}` : "")
+    );
+  }
+
+  const count = Math.max(recordedMessages.length, actualMessages.length);
+  for (let i = 0; i < count; i++) {
+    if (!isEqual(recordedMessages[i], actualMessages[i])) {
+      const role = (actualMessages[i] ?? recordedMessages[i]).role;
+      return `message ${i + 1} (${role}) changed`;
+    }
+  }
+  return null;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
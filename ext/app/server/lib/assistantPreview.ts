@@ -0,0 +1,180 @@
+import { ApplyUAResult } from "app/common/ActiveDocAPI";
+import {
+  AssistanceActionDiff,
+  AssistanceProposedChange,
+} from "app/common/AssistantAPI";
+import { BulkColValues, UserAction } from "app/common/DocActions";
+import { OptDocSession } from "app/server/lib/DocSession";
+import { AssistanceDoc } from "app/server/lib/IAssistant";
+import { pick } from "lodash";
+
+/**
+ * Returns a view of `doc` whose `applyUserActions` appends actions to
+ * `recorded` instead of applying them.
+ *
+ * Tools run against it as usual, but see placeholder return values (e.g. a
+ * row id of 0 for a new record), and don't see the effects of earlier
+ * recorded actions. Tools whose later actions depend on either must not be
+ * run against it (see UNPREVIEWABLE_TOOLS in OpenAIAssistantV2.ts). If a
+ * tool fails, the caller should discard what it recorded.
+ */
+export function recordUserActions(
+  doc: AssistanceDoc,
+  recorded: UserAction[]
+): AssistanceDoc {
+  const applyUserActions = async (
+    _docSession: OptDocSession,
+    actions: UserAction[]
+  ): Promise<ApplyUAResult> => {
+    recorded.push(...actions);
+    return {
+      actionNum: 0,
+      actionHash: null,
+      retValues: actions.map(getPlaceholderRetValue),
+      isModification: false,
+    };
+  };
+  return new Proxy(doc, {
+    get(target, prop, receiver) {
+      if (prop === "applyUserActions") {
+        return applyUserActions;
+      }
+
+      const value = Reflect.get(target, prop, receiver);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
+
+/**
+ * Describes the changes `actions` would make to `doc`, for showing to the
+ * user before they are applied.
+ */
+export async function buildProposedChange(
+  docSession: OptDocSession,
+  doc: AssistanceDoc,
+  tool: string,
+  actions: UserAction[]
+): Promise<AssistanceProposedChange> {
+  const diffs: AssistanceActionDiff[] = [];
+  for (const action of actions) {
+    diffs.push(await buildActionDiff(docSession, doc, action));
+  }
+  return { tool, actions, diffs };
+}
+
+async function buildActionDiff(
+  docSession: OptDocSession,
+  doc: AssistanceDoc,
+  action: UserAction
+): Promise<AssistanceActionDiff> {
+  const [name, tableId] = action as [string, string];
+  switch (name) {
+    case "AddRecord": {
+      const [, , rowId, colValues] = action;
+      return {
+        action: name,
+        tableId,
+        rowIds: rowId ? [rowId] : undefined,
+        after: toBulkColValues(colValues),
+      };
+    }
+    case "BulkAddRecord": {
+      const [, , rowIds, colValues] = action;
+      return {
+        action: name,
+        tableId,
+        rowIds: rowIds.every(Boolean) ? rowIds : undefined,
+        after: colValues,
+      };
+    }
+    case "UpdateRecord":
+    case "BulkUpdateRecord": {
+      const [, , rowIdOrIds, values] = action;
+      const rowIds: number[] = name === "UpdateRecord" ? [rowIdOrIds] : rowIdOrIds;
+      const after: BulkColValues =
+        name === "UpdateRecord" ? toBulkColValues(values) : values;
+      const before = await fetchCellValues(docSession, doc, tableId, rowIds);
+      return {
+        action: name,
+        tableId,
+        rowIds,
+        before: pick(before, Object.keys(after)),
+        after,
+      };
+    }
+    case "RemoveRecord":
+    case "BulkRemoveRecord": {
+      const [, , rowIdOrIds] = action;
+      const rowIds: number[] = name === "RemoveRecord" ? [rowIdOrIds] : rowIdOrIds;
+      return {
+        action: name,
+        tableId,
+        rowIds,
+        before: await fetchCellValues(docSession, doc, tableId, rowIds),
+      };
+    }
+    default: {
+      return { action: name, tableId };
+    }
+  }
+}
+
+/**
+ * Returns the current values of `rowIds` in `tableId`, ordered as in
+ * `rowIds`. Rows that no longer exist are skipped.
+ */
+async function fetchCellValues(
+  docSession: OptDocSession,
+  doc: AssistanceDoc,
+  tableId: string,
+  rowIds: number[]
+): Promise<BulkColValues> {
+  const {
+    tableData: [, , fetchedRowIds, colValues],
+  } = await doc.fetchQuery(docSession, { tableId, filters: { id: rowIds } });
+  const indexes = rowIds
+    .map((rowId) => fetchedRowIds.indexOf(rowId))
+    .filter((index) => index !== -1);
+  const result: BulkColValues = {};
+  for (const [colId, values] of Object.entries(colValues)) {
+    result[colId] = indexes.map((index) => values[index]);
+  }
+  return result;
+}
+
+function toBulkColValues(colValues: Record<string, any>): BulkColValues {
+  return Object.fromEntries(
+    Object.entries(colValues).map(([colId, value]) => [colId, [value]])
+  );
+}
+
+/**
+ * Returns a stand-in for the value `action` would return if applied, in the
+ * shape tools expect.
+ */
+function getPlaceholderRetValue(action: UserAction): any {
+  const [name, ...args] = action;
+  switch (name) {
+    case "AddTable":
+    case "AddEmptyTable": {
+      return { id: 0, table_id: args[0], columns: [], views: [] };
+    }
+    case "RenameTable": {
+      return args[1];
+    }
+    case "AddColumn":
+    case "AddVisibleColumn": {
+      return { colRef: 0, colId: args[1] };
+    }
+    case "AddRecord": {
+      return args[1] ?? 0;
+    }
+    case "BulkAddRecord": {
+      return args[1].map((rowId: number | null) => rowId ?? 0);
+    }
+    default: {
+      return null;
+    }
+  }
+}
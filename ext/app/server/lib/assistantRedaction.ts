@@ -0,0 +1,405 @@
+import { ApiError } from "app/common/ApiError";
+import { AssistanceMessage } from "app/common/Assistance";
+import {
+  ASSISTANT_SENSITIVE_TAG,
+  AssistanceStreamEvent,
+  AssistanceStreamListener,
+  AssistantPolicy,
+} from "app/common/AssistantAPI";
+import { CellValue } from "app/common/DocActions";
+import { GristObjCode } from "app/plugin/GristData";
+import { OptDocSession } from "app/server/lib/DocSession";
+import { AssistanceDoc } from "app/server/lib/IAssistant";
+import { escapeRegExp } from "lodash";
+
+type RedactionKind = "email" | "phone" | "pattern" | "sensitive";
+
+const TOKEN_PREFIXES: Record<RedactionKind, string> = {
+  email: "EMAIL",
+  phone: "PHONE",
+  pattern: "REDACTED",
+  sensitive: "REDACTED",
+};
+
+const EMAIL_REGEX = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+
+// Phone numbers must have separators between groups of digits, or start with
+// "+", so that other numbers (e.g. timestamps and dates) aren't masked. Both
+// groups of 3-4 digits ("555-123-4567") and of 2 ("06 12 34 56 78") are
+// recognized.
+const PHONE_REGEX = new RegExp(
+  String.raw`(?<![\w+])(?:\+\d{8,15}|` +
+    String.raw`(?:\+\d{1,3}[\s.-]?)?` +
+    String.raw`(?:\(\d{1,4}\)[\s.-]?\d{3,4}|\d{2,4}[\s.-]\d{3,4})` +
+    String.raw`[\s.-]\d{3,4}|` +
+    String.raw`(?:\+\d{1,3}[\s.-]?\d|0\d)(?:[\s.]\d{2}){4})(?![\w:])`,
+  "g"
+);
+
+const TOKEN_REGEX = /\[(?:EMAIL|PHONE|REDACTED)_\d+\]/g;
+
+// A possibly incomplete token at the end of streamed text.
+const PARTIAL_TOKEN_REGEX = /\[[A-Z]*(?:_\d*)?$/;
+
+// Shorter values of sensitive columns aren't masked: they'd match too much
+// unrelated text.
+const MIN_SENSITIVE_VALUE_LENGTH = 3;
+
+// Bounds the size of the regular expression built from sensitive values.
+// Documents with more distinct values in sensitive columns can't be used with
+// the assistant, since not all of their values could be masked.
+const MAX_SENSITIVE_VALUES = 10_000;
+
+export interface RedactionSummary {
+  emails: number;
+  phoneNumbers: number;
+  patterns: number;
+  sensitiveValues: number;
+  /** Sensitive columns, as "tableId.colId", whose values were masked. */
+  columns: string[];
+}
+
+interface Message {
+  role: string;
+  content: string | null;
+  tool_calls?: { function: { arguments: string } }[];
+}
+
+interface Matcher {
+  kind: RedactionKind;
+  regex: RegExp;
+}
+
+/**
+ * Masks values in messages sent to the AI provider, as configured by an
+ * assistant policy, and restores them in the provider's replies.
+ *
+ * Each distinct value is replaced by a placeholder, like `[EMAIL_1]`, that
+ * stays the same for the rest of the conversation: conversations are
+ * redacted in full before each request, in order, so values are numbered in
+ * the order they first appear. This lets the model refer to masked values in
+ * its replies and tool calls, which are restored before being used.
+ *
+ * Messages kept in the conversation's state are never redacted. The developer
+ * prompt is redacted like other messages, since it includes text from the
+ * document (e.g. the name of the current page).
+ */
+export class Redactor {
+  private _tokensByValue = new Map<string, string>();
+  private _valuesByToken = new Map<string, string>();
+  private _counts: Record<string, number> = {};
+  private _redactedCounts: Record<RedactionKind, number> = {
+    email: 0,
+    phone: 0,
+    pattern: 0,
+    sensitive: 0,
+  };
+  private _redactedColumns = new Set<string>();
+
+  public constructor(
+    private readonly _matchers: Matcher[],
+    private readonly _columnsByValue: Map<string, string>
+  ) {}
+
+  /**
+   * Returns copies of `messages` with values masked.
+   */
+  public redactMessages(messages: AssistanceMessage[]): AssistanceMessage[] {
+    return messages.map((message) => {
+      const m = message as Message;
+      return {
+        ...m,
+        content:
+          typeof m.content === "string" ? this._redact(m.content) : m.content,
+        ...(m.tool_calls
+          ? {
+              tool_calls: m.tool_calls.map((call) => ({
+                ...call,
+                function: {
+                  ...call.function,
+                  arguments: this._redact(call.function.arguments),
+                },
+              })),
+            }
+          : {}),
+      } as AssistanceMessage;
+    });
+  }
+
+  /**
+   * Returns a copy of a message from the AI provider with masked values
+   * restored, in its content and in the arguments of its tool calls. If
+   * `isJsonContent` is set, the content is JSON (i.e. structured output).
+   */
+  public restoreMessage<T extends object>(
+    message: T,
+    options: { isJsonContent?: boolean } = {}
+  ): T {
+    const m = message as Message;
+    return {
+      ...m,
+      content:
+        typeof m.content === "string"
+          ? this._restore(m.content, Boolean(options.isJsonContent))
+          : m.content,
+      ...(m.tool_calls
+        ? {
+            tool_calls: m.tool_calls.map((call) => ({
+              ...call,
+              function: {
+                ...call.function,
+                arguments: this._restore(call.function.arguments, true),
+              },
+            })),
+          }
+        : {}),
+    } as unknown as T;
+  }
+
+  public restoreText(text: string): string {
+    return this._restore(text, false);
+  }
+
+  /**
+   * Wraps a listener so that masked values are restored in streamed text.
+   * Text that might be the start of a placeholder is held back until the
+   * rest of it arrives, or until `flush` is called.
+   */
+  public restoreStream(listener: AssistanceStreamListener) {
+    let pending = "";
+    const emit = (text: string) => {
+      if (text) {
+        listener({ type: "delta", content: this.restoreText(text) });
+      }
+    };
+    return {
+      listener: (event: AssistanceStreamEvent) => {
+        if (event.type !== "delta") {
+          listener(event);
+          return;
+        }
+
+        const text = pending + event.content;
+        const partial = PARTIAL_TOKEN_REGEX.exec(text);
+        pending = partial ? partial[0] : "";
+        emit(partial ? text.slice(0, partial.index) : text);
+      },
+      flush: () => {
+        emit(pending);
+        pending = "";
+      },
+    };
+  }
+
+  /**
+   * Returns how many distinct values were masked so far, by kind.
+   */
+  public getSummary(): RedactionSummary {
+    const counts = this._redactedCounts;
+    return {
+      emails: counts.email,
+      phoneNumbers: counts.phone,
+      patterns: counts.pattern,
+      sensitiveValues: counts.sensitive,
+      columns: [...this._redactedColumns],
+    };
+  }
+
+  public hasRedactions(): boolean {
+    return this._tokensByValue.size > 0;
+  }
+
+  private _redact(text: string): string {
+    for (const { kind, regex } of this._matchers) {
+      text = text.replace(regex, (match) =>
+        match === "" || this._valuesByToken.has(match)
+          ? match
+          : this._getToken(kind, match)
+      );
+    }
+    return text;
+  }
+
+  // Values appear in JSON (e.g. tool call arguments) with characters escaped,
+  // so in JSON, they're restored escaped.
+  private _restore(text: string, isJson: boolean): string {
+    return text.replace(TOKEN_REGEX, (token) => {
+      const value = this._valuesByToken.get(token);
+      if (value === undefined) {
+        return token;
+      }
+
+      return isJson ? JSON.stringify(value).slice(1, -1) : value;
+    });
+  }
+
+  private _getToken(kind: RedactionKind, match: string): string {
+    const value = unescapeJson(match);
+    let token = this._tokensByValue.get(value);
+    if (token === undefined) {
+      const prefix = TOKEN_PREFIXES[kind];
+      this._counts[prefix] = (this._counts[prefix] ?? 0) + 1;
+      token = `[${prefix}_${this._counts[prefix]}]`;
+      this._tokensByValue.set(value, token);
+      this._valuesByToken.set(token, value);
+      this._redactedCounts[kind] += 1;
+      const column = this._columnsByValue.get(value);
+      if (kind === "sensitive" && column) {
+        this._redactedColumns.add(column);
+      }
+    }
+    return token;
+  }
+}
+
+/**
+ * Returns true if `policy` asks for any values to be masked.
+ */
+export function isRedactionEnabled(policy: AssistantPolicy): boolean {
+  return Boolean(
+    policy.redactEmails ||
+      policy.redactPhoneNumbers ||
+      policy.redactSensitiveColumns ||
+      policy.redactPatterns?.length
+  );
+}
+
+/**
+ * Returns a redactor for conversations about `doc`, as configured by
+ * `policy`, or null if the policy doesn't ask for any redaction.
+ *
+ * Values of sensitive columns are read as the user of `docSession`, so
+ * values hidden from them are left out (they can't be sent to the AI
+ * provider in the first place). Fails if there are too many of them to mask.
+ */
+export async function createRedactor(
+  docSession: OptDocSession,
+  doc: AssistanceDoc,
+  policy: AssistantPolicy
+): Promise<Redactor | null> {
+  const matchers: Matcher[] = [];
+  const columnsByValue = new Map<string, string>();
+  if (policy.redactSensitiveColumns) {
+    await getSensitiveValues(docSession, doc, columnsByValue);
+    if (columnsByValue.size > 0) {
+      matchers.push({
+        kind: "sensitive",
+        regex: buildValuesRegex([...columnsByValue.keys()]),
+      });
+    }
+  }
+  for (const pattern of policy.redactPatterns ?? []) {
+    matchers.push({ kind: "pattern", regex: new RegExp(pattern, "g") });
+  }
+  if (policy.redactEmails) {
+    matchers.push({ kind: "email", regex: EMAIL_REGEX });
+  }
+  if (policy.redactPhoneNumbers) {
+    matchers.push({ kind: "phone", regex: PHONE_REGEX });
+  }
+  if (matchers.length === 0) {
+    return null;
+  }
+
+  return new Redactor(matchers, columnsByValue);
+}
+
+/**
+ * Collects the values of columns tagged as sensitive in their description,
+ * mapped to the column they're from.
+ */
+async function getSensitiveValues(
+  docSession: OptDocSession,
+  doc: AssistanceDoc,
+  columnsByValue: Map<string, string>
+) {
+  const docData = doc.docData;
+  if (!docData) {
+    return;
+  }
+
+  const tables = docData.getMetaTable("_grist_Tables");
+  const sensitiveColumns = docData
+    .getMetaTable("_grist_Tables_column")
+    .filterRecords({})
+    .filter((c) => c.description?.includes(ASSISTANT_SENSITIVE_TAG));
+  for (const column of sensitiveColumns) {
+    const tableId = tables.getValue(column.parentId, "tableId");
+    if (!tableId) {
+      continue;
+    }
+
+    let tableData;
+    try {
+      ({ tableData } = await doc.fetchQuery(docSession, {
+        tableId,
+        filters: {},
+      }));
+    } catch (e) {
+      // Tables the user can't read can't be sent to the AI provider anyway.
+      continue;
+    }
+
+    for (const value of tableData[3][column.colId] ?? []) {
+      for (const text of getTexts(value)) {
+        if (
+          text.length < MIN_SENSITIVE_VALUE_LENGTH ||
+          columnsByValue.has(text)
+        ) {
+          continue;
+        }
+
+        if (columnsByValue.size >= MAX_SENSITIVE_VALUES) {
+          throw new ApiError(
+            "This document has too many values in sensitive columns for " +
+              "the assistant to mask them",
+            403
+          );
+        }
+
+        columnsByValue.set(text, `${tableId}.${column.colId}`);
+      }
+    }
+  }
+}
+
+function getTexts(value: CellValue): string[] {
+  if (typeof value === "string") {
+    return [value];
+  } else if (typeof value === "number") {
+    return [String(value)];
+  } else if (Array.isArray(value) && value[0] === GristObjCode.List) {
+    return value.slice(1).flatMap((v) => getTexts(v as CellValue));
+  } else {
+    return [];
+  }
+}
+
+/**
+ * Returns a regular expression matching any of `values` as whole words,
+ * either as is or escaped as in JSON. Longer values are preferred.
+ */
+function buildValuesRegex(values: string[]): RegExp {
+  const alternatives = new Set<string>();
+  for (const value of values) {
+    alternatives.add(value);
+    alternatives.add(JSON.stringify(value).slice(1, -1));
+  }
+  const sorted = [...alternatives].sort((a, b) => b.length - a.length);
+  return new RegExp(
+    `(?<!\\w)(?:${sorted.map(escapeRegExp).join("|")})(?!\\w)`,
+    "g"
+  );
+}
+
+function unescapeJson(text: string): string {
+  if (!text.includes("\\")) {
+    return text;
+  }
+
+  try {
+    return JSON.parse(`"${text}"`);
+  } catch (e) {
+    return text;
+  }
+}
@@ -0,0 +1,513 @@
+import { ApiError } from "app/common/ApiError";
+import { AssistantReport } from "app/common/AssistantAPI";
+import {
+  AssistantReports,
+  AssistantReportWithDoc,
+} from "app/gen-server/lib/AssistantReports";
+import { isAssistantReportNotifier } from "app/gen-server/lib/NotifierTools";
+import { DocNotificationTemplateBase } from "app/gen-server/lib/NotifierTypes";
+import {
+  assertAccess,
+  getOrSetDocAuth,
+  isAnonymousUser,
+  RequestWithLogin,
+} from "app/server/lib/Authorizer";
+import { getDocSessionUser, OptDocSession } from "app/server/lib/DocSession";
+import { expressWrap } from "app/server/lib/expressWrap";
+import {
+  GristBullMQJobs,
+  GristBullMQQueueScope,
+  GristJob,
+} from "app/server/lib/GristJobs";
+import { GristServer } from "app/server/lib/GristServer";
+import { AssistanceDoc } from "app/server/lib/IAssistant";
+import log from "app/server/lib/log";
+import {
+  getNextRunTime,
+  isValidTimezone,
+  parseSchedule,
+} from "app/server/lib/reportSchedule";
+import { stringParam } from "app/server/lib/requestUtils";
+import { runRestrictedSQLQuery } from "app/server/lib/restrictedSQLQuery";
+import { openDocumentForUser } from "app/server/lib/workspaceDocuments";
+import { randomUUID } from "crypto";
+import * as express from "express";
+import fetch from "node-fetch";
+
+export const Deps = {
+  // Attempts at each run, for failures other than lost access.
+  MAX_ATTEMPTS: 3,
+  RETRY_BASE_DELAY_MS: 60_000,
+  // Runs in a row that may fail because the report's author can't open the
+  // document (e.g. it was deleted, or they lost access) before the report is
+  // removed.
+  MAX_ACCESS_FAILURES: 3,
+};
+
+const REPORTS_QUEUE = "assistant-reports";
+const RUN_REPORT_JOB = "run-report";
+
+// How many reports each user may schedule in a document.
+const MAX_REPORTS_PER_USER = 10;
+
+// How many rows of results are included in an email.
+const MAX_EMAIL_ROWS = 100;
+
+interface RunReportJobData {
+  reportId: string;
+  runAtMs: number;
+  /** How many attempts at this run have failed so far. */
+  attempts?: number;
+}
+
+interface ScheduledReportTemplateData extends DocNotificationTemplateBase {
+  docName: string;
+  docUrl: string;
+  reportTitle: string;
+  prompt: string;
+  columns: string[];
+  rows: string[][];
+  rowCount: number;
+  numOmittedRows: number;
+}
+
+/**
+ * Runs scheduled assistant reports, and emails their results.
+ *
+ * Each report has at most one pending job in the queue, for its next run.
+ * When a job runs, it schedules the following run. The report's next run time
+ * is also kept in the home DB, so that jobs for reports that were since
+ * deleted or rescheduled can be recognized and skipped, and so that jobs lost
+ * from the queue can be added back when a worker starts.
+ *
+ * A failed run is retried, with exponential backoff, up to `Deps.MAX_ATTEMPTS`
+ * times in all, by setting the report's next run time to the retry. Runs that
+ * fail because the author can no longer open the document aren't retried;
+ * after `Deps.MAX_ACCESS_FAILURES` of them in a row, the report is removed.
+ *
+ * A report runs on behalf of the user who saved it, with their current access
+ * to the document: the document is opened for them, and its query is run
+ * with granular access rules applied. Since any server may run the job, the
+ * query is run through the home server's API, which forwards it to the doc
+ * worker the document is assigned to.
+ */
+export class AssistantReportScheduler {
+  private _queue: GristBullMQQueueScope;
+  private _store: AssistantReports;
+
+  public constructor(
+    private readonly _gristServer: GristServer,
+    jobs: GristBullMQJobs
+  ) {
+    this._queue = jobs.queue(REPORTS_QUEUE);
+    this._store = new AssistantReports(_gristServer.getHomeDBManager());
+  }
+
+  /**
+   * Starts handling report jobs, and queues any runs that are missing from
+   * the queue. Does nothing on servers that can't open documents, i.e. home
+   * servers.
+   */
+  public startWorker() {
+    if (!canOpenDocuments(this._gristServer)) {
+      return;
+    }
+
+    this._queue.handleDefault(async (job: GristJob) => {
+      log.warn("AssistantReportScheduler: UNHANDLED JOB", job);
+    });
+    this._queue.handleName(RUN_REPORT_JOB, (job: GristJob) =>
+      this._runReport(job.data)
+    );
+    this._addMissingJobs().catch((e) =>
+      log.error("AssistantReportScheduler: failed to queue runs", e)
+    );
+  }
+
+  /**
+   * Saves a report for the user of `docSession`, and schedules its first
+   * run. The query is run once first, to check that it works.
+   */
+  public async createReport(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    options: {
+      title: string;
+      prompt: string;
+      sql: string;
+      schedule: string;
+      timezone: string;
+    }
+  ): Promise<AssistantReport> {
+    const userId = getDocSessionUser(docSession)?.id;
+    const homeDb = this._gristServer.getHomeDBManager();
+    if (userId === undefined || userId === homeDb.getAnonymousUserId()) {
+      throw new ApiError("You must be signed in to schedule reports", 403);
+    }
+    if (!isAssistantReportNotifier(this._gristServer.getNotifier())) {
+      throw new ApiError("Email isn't configured for scheduled reports", 501);
+    }
+
+    const { title, prompt, sql, schedule, timezone } = options;
+    const parsedSchedule = parseSchedule(schedule);
+    if (parsedSchedule.minutes.size !== 1) {
+      throw new ApiError("Reports may run at most once an hour", 400);
+    }
+    if (!isValidTimezone(timezone)) {
+      throw new ApiError(`Unknown timezone: ${timezone}`, 400);
+    }
+
+    const existing = await this._store.listReports(doc.docName, userId);
+    if (existing.length >= MAX_REPORTS_PER_USER) {
+      throw new ApiError(
+        `You may schedule at most ${MAX_REPORTS_PER_USER} reports in a ` +
+          "document. Remove one to add another.",
+        400
+      );
+    }
+
+    await runRestrictedSQLQuery(docSession, doc, { sql });
+
+    const now = Date.now();
+    const report: AssistantReport = {
+      id: randomUUID(),
+      userId,
+      title,
+      prompt,
+      sql,
+      schedule,
+      timezone,
+      createdAtMs: now,
+      lastRunAtMs: null,
+      nextRunAtMs: getNextRunTime(parsedSchedule, timezone, now),
+    };
+    if (report.nextRunAtMs === null) {
+      throw new ApiError(`Schedule never runs: ${schedule}`, 400);
+    }
+
+    await this._store.addReport(doc.docName, report);
+    await this._addJob({ reportId: report.id, runAtMs: report.nextRunAtMs });
+    return report;
+  }
+
+  public async listReports(
+    docSession: OptDocSession,
+    doc: AssistanceDoc
+  ): Promise<AssistantReport[]> {
+    const userId = getDocSessionUser(docSession)?.id;
+    if (userId === undefined) {
+      return [];
+    }
+
+    return this._store.listReports(doc.docName, userId);
+  }
+
+  /**
+   * Removes a report saved by the user of `docSession`.
+   */
+  public async removeReport(
+    docSession: OptDocSession,
+    doc: AssistanceDoc,
+    reportId: string
+  ) {
+    const report = await this._store.getReport(reportId);
+    const userId = getDocSessionUser(docSession)?.id;
+    if (!report || report.docId !== doc.docName || report.userId !== userId) {
+      throw new ApiError(`Report ${reportId} not found`, 404);
+    }
+
+    await this._store.deleteReport(doc.docName, reportId);
+  }
+
+  // Jobs are identified by their report and run time, so adding a job that's
+  // already queued does nothing.
+  private async _addJob(data: RunReportJobData) {
+    await this._queue.add(RUN_REPORT_JOB, data, {
+      jobId: `report:${data.reportId}:${data.runAtMs}`,
+      delay: Math.max(0, data.runAtMs - Date.now()),
+      removeOnComplete: true,
+      removeOnFail: true,
+    });
+  }
+
+  private async _addMissingJobs() {
+    for (const { id, nextRunAtMs } of await this._store.listScheduledRuns()) {
+      await this._addJob({ reportId: id, runAtMs: nextRunAtMs });
+    }
+  }
+
+  private async _runReport({
+    reportId,
+    runAtMs,
+    attempts = 0,
+  }: RunReportJobData) {
+    const report = await this._store.getReport(reportId);
+    if (!report || report.nextRunAtMs !== runAtMs) {
+      // The report was deleted, or this run was superseded.
+      return;
+    }
+
+    const logMeta = { reportId, docId: report.docId, userId: report.userId };
+    const now = Date.now();
+    const getNextScheduledRun = () =>
+      getNextRunTime(
+        parseSchedule(report.schedule),
+        report.timezone,
+        Math.max(now, runAtMs)
+      );
+    let nextRunAtMs: number | null;
+    let nextAttempts = 0;
+    let accessFailures = 0;
+    try {
+      await this._sendReport(report);
+      log.rawInfo("AssistantReportScheduler: sent report", logMeta);
+      nextRunAtMs = getNextScheduledRun();
+    } catch (e) {
+      const error = String(e?.message ?? e);
+      if (isAccessError(e)) {
+        accessFailures = report.accessFailures + 1;
+        if (accessFailures >= Deps.MAX_ACCESS_FAILURES) {
+          log.rawWarn("AssistantReportScheduler: removing report", {
+            ...logMeta,
+            accessFailures,
+            error,
+          });
+          await this._store.deleteReport(report.docId, reportId);
+          return;
+        }
+
+        log.rawWarn("AssistantReportScheduler: report failed", {
+          ...logMeta,
+          accessFailures,
+          error,
+        });
+        nextRunAtMs = getNextScheduledRun();
+      } else if (attempts + 1 < Deps.MAX_ATTEMPTS) {
+        nextAttempts = attempts + 1;
+        const delayMs = Deps.RETRY_BASE_DELAY_MS * 2 ** attempts;
+        log.rawWarn("AssistantReportScheduler: will retry report", {
+          ...logMeta,
+          attempts: nextAttempts,
+          delayMs,
+          error,
+        });
+        nextRunAtMs = now + delayMs;
+      } else {
+        log.rawError("AssistantReportScheduler: giving up on report run", {
+          ...logMeta,
+          attempts: attempts + 1,
+          error,
+        });
+        nextRunAtMs = getNextScheduledRun();
+      }
+    }
+
+    const exists = await this._store.updateRunTimes(reportId, {
+      lastRunAtMs: now,
+      nextRunAtMs,
+      accessFailures,
+    });
+    if (exists && nextRunAtMs !== null) {
+      await this._addJob({
+        reportId,
+        runAtMs: nextRunAtMs,
+        attempts: nextAttempts,
+      });
+    }
+  }
+
+  private async _sendReport(report: AssistantReportWithDoc) {
+    const results = await this._fetchResults(report);
+    const columns = results.length > 0 ? Object.keys(results[0]) : [];
+    const rows = results
+      .slice(0, MAX_EMAIL_ROWS)
+      .map((row) => columns.map((column) => formatValue(row[column])));
+
+    const docRecord = await this._gristServer
+      .getHomeDBManager()
+      .getRawDocById(report.docId);
+    const template: ScheduledReportTemplateData = {
+      senderAuthorName: null,
+      docName: docRecord.name,
+      docUrl: await this._gristServer.getResourceUrl(docRecord),
+      reportTitle: report.title,
+      prompt: report.prompt,
+      columns,
+      rows,
+      rowCount: results.length,
+      numOmittedRows: results.length - rows.length,
+    };
+    const notifier = this._gristServer.getNotifier();
+    if (!isAssistantReportNotifier(notifier)) {
+      throw new Error("Notifier can't send scheduled reports");
+    }
+
+    await notifier.scheduledReport(report.userId, template);
+  }
+
+  // Gets the results of the report's query from the endpoint added by
+  // `addAssistantReportEndpoints`, with a permit for the document.
+  private async _fetchResults(
+    report: AssistantReportWithDoc
+  ): Promise<any[]> {
+    const permitStore = this._gristServer.getPermitStore();
+    const permitKey = await permitStore.setPermit({ docId: report.docId });
+    try {
+      const url = this._gristServer.getHomeInternalUrl(
+        `/api/docs/${report.docId}/assistant/reports/${report.id}/results`
+      );
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { Permit: permitKey },
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new ApiError(body?.error ?? response.statusText, response.status);
+      }
+
+      return body;
+    } finally {
+      await permitStore.removePermit(permitKey);
+    }
+  }
+}
+
+/**
+ * Returns a scheduler for assistant reports, or undefined if reports can't be
+ * scheduled because Redis isn't configured.
+ */
+export function createAssistantReportScheduler(
+  gristServer: GristServer
+): AssistantReportScheduler | undefined {
+  const jobs = gristServer.getJobs();
+  if (!(jobs instanceof GristBullMQJobs)) {
+    return undefined;
+  }
+
+  return new AssistantReportScheduler(gristServer, jobs);
+}
+
+/**
+ * Adds endpoints for listing and deleting scheduled reports, under
+ * `/api/docs/:docId/assistant/reports`. Reports are created by the assistant.
+ *
+ * A report can be seen and deleted by the user who saved it and by the
+ * document's owners.
+ */
+export function addAssistantReportEndpoints(
+  app: express.Application,
+  gristServer: GristServer
+) {
+  let store: AssistantReports | undefined;
+  const getStore = () =>
+    (store ??= new AssistantReports(gristServer.getHomeDBManager()));
+
+  app.get(
+    "/api/docs/:docId/assistant/reports",
+    expressWrap(async (req, res) => {
+      const { docId, userId, isOwner } = await getCaller(gristServer, req);
+      res.json(
+        await getStore().listReports(docId, isOwner ? undefined : userId)
+      );
+    })
+  );
+
+  app.delete(
+    "/api/docs/:docId/assistant/reports/:reportId",
+    expressWrap(async (req, res) => {
+      const { docId, userId, isOwner } = await getCaller(gristServer, req);
+      const reportId = stringParam(req.params.reportId, "reportId");
+      const report = await getStore().getReport(reportId);
+      // Reports the caller can't access are reported as missing, so as not
+      // to reveal their existence.
+      if (
+        !report ||
+        report.docId !== docId ||
+        (report.userId !== userId && !isOwner)
+      ) {
+        throw new ApiError("Report not found", 404);
+      }
+
+      await getStore().deleteReport(docId, reportId);
+      res.json(null);
+    })
+  );
+
+  // Runs a report's query for the scheduler, which calls this through the
+  // home server, so that it's run by the doc worker the document is assigned
+  // to. Only callers with a permit for the document are allowed.
+  app.post(
+    "/api/docs/:docId/assistant/reports/:reportId/results",
+    expressWrap(async (req, res) => {
+      const docId = stringParam(req.params.docId, "docId");
+      const reportId = stringParam(req.params.reportId, "reportId");
+      if ((req as RequestWithLogin).specialPermit?.docId !== docId) {
+        throw new ApiError("Report results are only for the scheduler", 401);
+      }
+
+      const report = await getStore().getReport(reportId);
+      if (!report || report.docId !== docId) {
+        throw new ApiError("Report not found", 404);
+      }
+
+      const { docSession, doc } = await openDocumentForUser(
+        gristServer,
+        report.userId,
+        docId,
+        { assignedHere: true }
+      );
+      res.json(
+        await runRestrictedSQLQuery(docSession, doc, { sql: report.sql })
+      );
+    })
+  );
+}
+
+// Home servers have no document manager.
+function canOpenDocuments(gristServer: GristServer) {
+  try {
+    gristServer.getDocManager();
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+// Errors opening a report's document that retrying won't fix, e.g. because
+// the document was deleted, or its author lost access.
+function isAccessError(e: unknown) {
+  return e instanceof ApiError && (e.status === 403 || e.status === 404);
+}
+
+async function getCaller(gristServer: GristServer, req: express.Request) {
+  if (isAnonymousUser(req)) {
+    throw new ApiError("You must be signed in to manage reports", 403);
+  }
+
+  const mreq = req as RequestWithLogin;
+  const urlId = stringParam(req.params.docId, "docId");
+  const docAuth = await getOrSetDocAuth(
+    mreq,
+    gristServer.getHomeDBManager(),
+    gristServer,
+    urlId
+  );
+  assertAccess("viewers", docAuth);
+  return {
+    docId: docAuth.docId!,
+    userId: mreq.userId!,
+    isOwner: docAuth.access === "owners",
+  };
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  } else if (typeof value === "string") {
+    return value;
+  } else if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  } else {
+    return JSON.stringify(value);
+  }
+}
@@ -0,0 +1,130 @@
+import { ActionGroup } from "app/common/ActionGroup";
+import { TableDelta } from "app/common/ActionSummary";
+import { ApiError } from "app/common/ApiError";
+import { AssistanceActionRef } from "app/common/AssistantAPI";
+import { OptDocSession } from "app/server/lib/DocSession";
+import { AssistanceDoc } from "app/server/lib/IAssistant";
+
+/**
+ * Reverts the action bundles applied during one assistant response, as a
+ * single undo.
+ *
+ * Throws an ApiError with status 409 if any later action touches the same
+ * records or tables, since reverting then could clobber someone else's
+ * changes, or if a bundle is too old to still be in the action history.
+ */
+export async function undoAssistantActions(
+  docSession: OptDocSession,
+  doc: AssistanceDoc,
+  actions: AssistanceActionRef[]
+) {
+  if (actions.length === 0) {
+    return;
+  }
+
+  const history = await doc.getRecentActions(docSession, true);
+  const actionNums = new Set(actions.map((a) => a.actionNum));
+  const undone: ActionGroup[] = [];
+  for (const { actionNum, actionHash } of actions) {
+    const group = history.find((g) => g.actionNum === actionNum);
+    if (!group || group.actionHash !== actionHash) {
+      throw new ApiError(
+        "This response can no longer be undone: its changes are too old",
+        409
+      );
+    }
+
+    undone.push(group);
+  }
+
+  const minActionNum = Math.min(...actionNums);
+  const later = history.filter(
+    (g) => g.actionNum > minActionNum && !actionNums.has(g.actionNum)
+  );
+  const conflicts = findConflicts(undone, later);
+  if (conflicts.length > 0) {
+    const tables = [...new Set(conflicts.map((c) => c.tableId))].join(", ");
+    const users = [...new Set(conflicts.map((c) => c.user))].join(", ");
+    throw new ApiError(
+      `This response can't be undone safely: ${tables} ` +
+        `changed since (by ${users})`,
+      409
+    );
+  }
+
+  await doc.applyUserActionsById(
+    docSession,
+    undone.map((g) => g.actionNum),
+    undone.map((g) => g.actionHash),
+    true,
+    { desc: "Undo of assistant response" }
+  );
+}
+
+interface Conflict {
+  tableId: string;
+  user: string;
+}
+
+/**
+ * Returns the later actions that touched anything the undone actions did.
+ *
+ * Record changes only conflict if they involve the same rows, but any
+ * schema change (a renamed table or column) conflicts with all changes to
+ * the table.
+ */
+function findConflicts(undone: ActionGroup[], later: ActionGroup[]) {
+  const touched = new Map<string, { rows: Set<number>; schema: boolean }>();
+  for (const group of undone) {
+    for (const [tableId, delta] of getTableDeltas(group)) {
+      const entry = touched.get(tableId) ?? { rows: new Set(), schema: false };
+      getRowIds(delta).forEach((rowId) => entry.rows.add(rowId));
+      entry.schema ||= hasSchemaChanges(group, tableId, delta);
+      touched.set(tableId, entry);
+    }
+  }
+
+  const conflicts: Conflict[] = [];
+  for (const group of later) {
+    for (const [tableId, delta] of getTableDeltas(group)) {
+      const entry = touched.get(tableId);
+      if (!entry) {
+        continue;
+      }
+
+      if (
+        entry.schema ||
+        hasSchemaChanges(group, tableId, delta) ||
+        getRowIds(delta).some((rowId) => entry.rows.has(rowId))
+      ) {
+        conflicts.push({ tableId, user: group.user });
+      }
+    }
+  }
+  return conflicts;
+}
+
+function getTableDeltas(group: ActionGroup): [string, TableDelta][] {
+  return Object.entries(group.actionSummary.tableDeltas);
+}
+
+function getRowIds(delta: TableDelta) {
+  return [...delta.addRows, ...delta.updateRows, ...delta.removeRows];
+}
+
+// Helper columns (e.g. of conditional style rules) are added and removed
+// without changing the columns that users see, so they're ignored.
+function hasSchemaChanges(
+  group: ActionGroup,
+  tableId: string,
+  delta: TableDelta
+) {
+  return (
+    delta.columnRenames.some((renames) =>
+      renames.some((colId) => colId && !colId.startsWith("gristHelper_"))
+    ) ||
+    group.actionSummary.tableRenames.some(([from, to]) =>
+      [from, to].includes(tableId)
+    )
+  );
+}
@@ -0,0 +1,244 @@
+import { OptDocSession } from "app/server/lib/DocSession";
+import { AssistanceDoc } from "app/server/lib/IAssistant";
+import * as ExcelJS from "exceljs";
+import * as path from "path";
+import pdfParse from "pdf-parse";
+import { Readable } from "stream";
+
+// Attachments larger than this aren't read at all.
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+// The most characters of text, and rows of each sheet, returned at once.
+// Longer content can be read in parts, by passing an offset.
+const MAX_TEXT_LENGTH = 50_000;
+const MAX_ROWS = 200;
+
+const TEXT_EXTENSIONS = new Set([
+  ".txt",
+  ".md",
+  ".json",
+  ".xml",
+  ".html",
+  ".htm",
+  ".log",
+]);
+
+const SPREADSHEET_EXTENSIONS = new Set([".csv", ".tsv", ".xlsx", ".xlsm"]);
+
+export type SheetCellValue = string | number | boolean | null;
+
+export interface AttachmentSheet {
+  name: string;
+  /** The total number of rows in the sheet. */
+  row_count: number;
+  /** Rows from `offset` on, as arrays of cell values. */
+  rows: SheetCellValue[][];
+}
+
+export interface AttachmentContent {
+  id: number;
+  file_name: string;
+  file_size: number;
+  offset: number;
+  /** Set for plain text and PDF files. */
+  text?: string;
+  /** The total length of the text. */
+  text_length?: number;
+  /** Set for CSV and XLSX files. */
+  sheets?: AttachmentSheet[];
+  /** True if there's more content after what was returned. */
+  truncated: boolean;
+}
+
+/**
+ * Reads the content of an attachment, for the assistant: the text of plain
+ * text and PDF files, and the rows of CSV and XLSX files.
+ *
+ * Access is checked against `docSession`, as for downloads: users without
+ * full read access can only read attachments in cells they can see.
+ */
+export async function readAttachmentContent(
+  docSession: OptDocSession,
+  doc: AssistanceDoc,
+  options: { attachmentId: number; sheetName?: string; offset?: number }
+): Promise<AttachmentContent> {
+  const { attachmentId, sheetName, offset = 0 } = options;
+  const { attRecord, data, ext } = await loadAttachment(
+    docSession,
+    doc,
+    attachmentId
+  );
+  const result = {
+    id: attachmentId,
+    file_name: attRecord.fileName,
+    file_size: attRecord.fileSize,
+    offset,
+  };
+  if (SPREADSHEET_EXTENSIONS.has(ext)) {
+    const workbook = await loadWorkbook(data, ext);
+    return { ...result, ...getSheets(workbook, sheetName, offset) };
+  } else if (ext === ".pdf") {
+    const { text } = await pdfParse(data);
+    return { ...result, ...getText(text, offset) };
+  } else if (TEXT_EXTENSIONS.has(ext)) {
+    return { ...result, ...getText(data.toString("utf8"), offset) };
+  } else {
+    throw new Error(
+      `Attachment ${attachmentId} (${attRecord.fileName}) is not a supported file type. ` +
+        "Supported types are CSV, TSV, XLSX, PDF and plain text."
+    );
+  }
+}
+
+/**
+ * Returns all rows of a sheet of a CSV, TSV or XLSX attachment, or of its
+ * first sheet if `sheetName` isn't set. Cells of CSV and TSV files are left
+ * as strings.
+ */
+export async function readAttachmentRows(
+  docSession: OptDocSession,
+  doc: AssistanceDoc,
+  options: { attachmentId: number; sheetName?: string }
+): Promise<SheetCellValue[][]> {
+  const { attachmentId, sheetName } = options;
+  const { attRecord, data, ext } = await loadAttachment(
+    docSession,
+    doc,
+    attachmentId
+  );
+  if (!SPREADSHEET_EXTENSIONS.has(ext)) {
+    throw new Error(
+      `Attachment ${attachmentId} (${attRecord.fileName}) is not a CSV, TSV or XLSX file`
+    );
+  }
+
+  const workbook = await loadWorkbook(data, ext, { raw: true });
+  const worksheet =
+    sheetName !== undefined
+      ? workbook.getWorksheet(sheetName)
+      : workbook.worksheets[0];
+  if (!worksheet) {
+    throw new Error(`Sheet ${sheetName ?? ""} not found`);
+  }
+
+  return getRows(worksheet, 0, Infinity);
+}
+
+/**
+ * Parses CSV or TSV text into rows of strings.
+ */
+export async function parseDelimitedText(
+  text: string,
+  format: "csv" | "tsv"
+): Promise<SheetCellValue[][]> {
+  const workbook = await loadWorkbook(text, `.${format}`, { raw: true });
+  return getRows(workbook.worksheets[0], 0, Infinity);
+}
+
+async function loadAttachment(
+  docSession: OptDocSession,
+  doc: AssistanceDoc,
+  attachmentId: number
+) {
+  const attRecord = doc.getAttachmentMetadata(attachmentId);
+  if (attRecord.fileSize > MAX_ATTACHMENT_SIZE) {
+    throw new Error(
+      `Attachment ${attachmentId} is too large to read ` +
+        `(limit: ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB)`
+    );
+  }
+
+  const data = await doc.getAttachmentData(docSession, attRecord);
+  const ext = path
+    .extname(attRecord.fileName || attRecord.fileIdent)
+    .toLowerCase();
+  return { attRecord, data, ext };
+}
+
+/**
+ * Loads a spreadsheet file. If `raw` is set, CSV and TSV cells are kept as
+ * strings, rather than converted to numbers and dates.
+ */
+async function loadWorkbook(
+  data: Buffer | string,
+  ext: string,
+  options: { raw?: boolean } = {}
+) {
+  const workbook = new ExcelJS.Workbook();
+  if (ext === ".csv" || ext === ".tsv") {
+    await workbook.csv.read(Readable.from([data]), {
+      parserOptions: { delimiter: ext === ".tsv" ? "\t" : "," },
+      ...(options.raw ? { map: (value: string) => value } : {}),
+    });
+  } else {
+    await workbook.xlsx.load(data as Buffer);
+  }
+  return workbook;
+}
+
+function getText(text: string, offset: number) {
+  return {
+    text: text.slice(offset, offset + MAX_TEXT_LENGTH),
+    text_length: text.length,
+    truncated: offset + MAX_TEXT_LENGTH < text.length,
+  };
+}
+
+function getSheets(
+  workbook: ExcelJS.Workbook,
+  sheetName: string | undefined,
+  offset: number
+) {
+  let worksheets = workbook.worksheets;
+  if (sheetName !== undefined) {
+    worksheets = worksheets.filter((sheet) => sheet.name === sheetName);
+    if (worksheets.length === 0) {
+      throw new Error(`Sheet ${sheetName} not found`);
+    }
+  }
+
+  let truncated = false;
+  const sheets = worksheets.map((worksheet) => {
+    truncated ||= offset + MAX_ROWS < worksheet.rowCount;
+    return {
+      name: worksheet.name,
+      row_count: worksheet.rowCount,
+      rows: getRows(worksheet, offset, MAX_ROWS),
+    };
+  });
+  return { sheets, truncated };
+}
+
+function getRows(worksheet: ExcelJS.Worksheet, offset: number, limit: number) {
+  const rows: SheetCellValue[][] = [];
+  worksheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    if (rowNumber <= offset || rowNumber > offset + limit) {
+      return;
+    }
+
+    // Row values are 1-indexed, so the first element is always empty.
+    const values = Array.isArray(row.values) ? row.values.slice(1) : [];
+    rows.push(Array.from(values, toSheetCellValue));
+  });
+  return rows;
+}
+
+function toSheetCellValue(value: ExcelJS.CellValue): SheetCellValue {
+  if (value === null || value === undefined) {
+    return null;
+  } else if (value instanceof Date) {
+    return value.toISOString();
+  } else if (typeof value !== "object") {
+    return value;
+  } else if ("richText" in value) {
+    return value.richText.map(({ text }) => text).join("");
+  } else if ("hyperlink" in value) {
+    return String(value.text);
+  } else if ("error" in value) {
+    return value.error;
+  } else if ("formula" in value || "sharedFormula" in value) {
+    return toSheetCellValue((value.result ?? null) as ExcelJS.CellValue);
+  } else {
+    return null;
+  }
+}
@@ -0,0 +1,172 @@
+import { ColValues, UserAction } from "app/common/DocActions";
+import { safeJsonParse } from "app/common/gutil";
+import { getDocDataOrThrow } from "app/server/lib/ActiveDocUtils";
+import { AssistanceDoc } from "app/server/lib/IAssistant";
+import { ChartWidgetOptions } from "app/server/lib/OpenAIToolTypes";
+import { pick } from "lodash";
+
+/**
+ * The options of a chart widget, as described to the model.
+ */
+export type ChartWidgetConfig = Required<
+  Omit<ChartWidgetOptions, "title" | "description">
+>;
+
+// Boolean chart options, and the keys they're saved under in the options of
+// the chart's view section.
+const booleanOptionKeys = {
+  stacked: "stacked",
+  line_connect_gaps: "lineConnectGaps",
+  line_markers: "lineMarkers",
+  log_y_axis: "logYAxis",
+  invert_y_axis: "invertYAxis",
+} as const;
+
+/**
+ * Returns the options of a chart widget.
+ *
+ * A chart's series are the fields of its view section, in order: the column
+ * used to split series (if `multiseries` is set), then the x-axis column
+ * (unless `isXAxisUndefined` is set), then a column for each y-axis series.
+ */
+export function getChartWidgetOptions(
+  doc: AssistanceDoc,
+  widgetId: number
+): ChartWidgetConfig {
+  const section = getChartSection(doc, widgetId);
+  const options = safeJsonParse(section.options, {});
+  const colIds = getFieldColIds(doc, widgetId);
+  const splitSeriesColId = options.multiseries ? colIds.shift() ?? null : null;
+  const xAxisColId = options.isXAxisUndefined ? null : colIds.shift() ?? null;
+  return {
+    chart_type: (section.chartType ||
+      "bar") as ChartWidgetConfig["chart_type"],
+    x_axis_column_id: xAxisColId,
+    series_column_ids: colIds,
+    split_series_column_id: splitSeriesColId,
+    orientation: options.orientation === "h" ? "horizontal" : "vertical",
+    stacked: Boolean(options.stacked),
+    line_connect_gaps: Boolean(options.lineConnectGaps),
+    line_markers: Boolean(options.lineMarkers),
+    log_y_axis: Boolean(options.logYAxis),
+    invert_y_axis: Boolean(options.invertYAxis),
+  };
+}
+
+/**
+ * Returns actions that update a chart widget. Options that are undefined are
+ * left unchanged. If any of the axis or series columns change, the chart's
+ * fields are replaced.
+ */
+export function buildUpdateChartWidgetActions(
+  doc: AssistanceDoc,
+  widgetId: number,
+  chartOptions: ChartWidgetOptions
+): UserAction[] {
+  const section = getChartSection(doc, widgetId);
+  const current = getChartWidgetOptions(doc, widgetId);
+  const options = safeJsonParse(section.options, {});
+  const colValues: ColValues = pick(chartOptions, "title", "description");
+  const actions: UserAction[] = [];
+  if (chartOptions.chart_type !== undefined) {
+    colValues.chartType = chartOptions.chart_type;
+  }
+  if (chartOptions.orientation !== undefined) {
+    options.orientation = chartOptions.orientation === "horizontal" ? "h" : "v";
+  }
+  for (const [name, key] of Object.entries(booleanOptionKeys)) {
+    const value = chartOptions[name as keyof typeof booleanOptionKeys];
+    if (value !== undefined) {
+      options[key] = value;
+    }
+  }
+
+  if (
+    chartOptions.x_axis_column_id !== undefined ||
+    chartOptions.series_column_ids !== undefined ||
+    chartOptions.split_series_column_id !== undefined
+  ) {
+    const {
+      x_axis_column_id: xAxisColId = current.x_axis_column_id,
+      series_column_ids: seriesColIds = current.series_column_ids,
+      split_series_column_id: splitSeriesColId = current.split_series_column_id,
+    } = chartOptions;
+    const colRefs = getColRefs(doc, section.tableRef, [
+      ...(splitSeriesColId !== null ? [splitSeriesColId] : []),
+      ...(xAxisColId !== null ? [xAxisColId] : []),
+      ...seriesColIds,
+    ]);
+    options.multiseries = splitSeriesColId !== null;
+    options.isXAxisUndefined = xAxisColId === null;
+    actions.push(...buildReplaceFieldsActions(doc, widgetId, colRefs));
+  }
+
+  colValues.options = JSON.stringify(options);
+  return [
+    ["UpdateRecord", "_grist_Views_section", widgetId, colValues],
+    ...actions,
+  ];
+}
+
+function getChartSection(doc: AssistanceDoc, widgetId: number) {
+  const section = getDocDataOrThrow(doc)
+    .getMetaTable("_grist_Views_section")
+    .getRecord(widgetId);
+  if (!section) {
+    throw new Error(`Widget ${widgetId} not found`);
+  }
+  if (section.parentKey !== "chart") {
+    throw new Error(`Widget ${widgetId} is not a chart`);
+  }
+
+  return section;
+}
+
+function getFieldColIds(doc: AssistanceDoc, widgetId: number) {
+  const docData = getDocDataOrThrow(doc);
+  const getColId = docData
+    .getMetaTable("_grist_Tables_column")
+    .getRowPropFunc("colId");
+  return docData
+    .getMetaTable("_grist_Views_section_field")
+    .filterRecords({ parentId: widgetId })
+    .sort((a, b) => a.parentPos - b.parentPos)
+    .map((field) => getColId(field.colRef) as string);
+}
+
+function getColRefs(doc: AssistanceDoc, tableRef: number, colIds: string[]) {
+  const columns = getDocDataOrThrow(doc)
+    .getMetaTable("_grist_Tables_column")
+    .filterRecords({ parentId: tableRef });
+  return colIds.map((colId) => {
+    const column = columns.find((c) => c.colId === colId);
+    if (!column) {
+      throw new Error(`Column ${colId} not found`);
+    }
+
+    return column.id;
+  });
+}
+
+function buildReplaceFieldsActions(
+  doc: AssistanceDoc,
+  widgetId: number,
+  colRefs: number[]
+): UserAction[] {
+  const fieldRefs = getDocDataOrThrow(doc)
+    .getMetaTable("_grist_Views_section_field")
+    .filterRowIds({ parentId: widgetId });
+  return [
+    ["BulkRemoveRecord", "_grist_Views_section_field", fieldRefs],
+    [
+      "BulkAddRecord",
+      "_grist_Views_section_field",
+      colRefs.map(() => null),
+      {
+        parentId: colRefs.map(() => widgetId),
+        colRef: colRefs,
+        parentPos: colRefs.map((_, i) => i + 1),
+      },
+    ],
+  ];
+}
@@ -0,0 +1,102 @@
+import { AssistanceMessage } from "app/common/Assistance";
+
+/**
+ * The most aggressive level `compactMessages` supports.
+ */
+export const MAX_COMPACTION_LEVEL = 3;
+
+// Tool results and tool call arguments longer than this are truncated.
+const MAX_OLD_CONTENT_LENGTH = 500;
+
+// Turns kept at compaction level 2. Level 3 keeps only the current one.
+const RECENT_TURNS = 4;
+
+const OMITTED_MESSAGES_NOTICE =
+  "Earlier messages in this conversation were removed to fit the context " +
+  "window. Ask the user or call tools again if you need information from them.";
+
+interface Message {
+  role: string;
+  content: string | null;
+  tool_calls?: { function: { arguments: string } }[];
+  tool_call_id?: string;
+}
+
+/**
+ * Returns a shorter copy of a conversation, for retrying a completion that
+ * exceeded the model's context window. Higher levels remove more:
+ *
+ *   1. Tool call arguments and results from earlier turns are truncated.
+ *      These are often large (e.g. results of query_document), and mostly
+ *      no longer needed.
+ *   2. As above, and only the last few turns are kept.
+ *   3. As above, and only the current turn is kept.
+ *
+ * A turn starts with a user message, and includes all the tool calls and
+ * replies that follow it. The system prompt (the first message) and the
+ * current turn are always kept intact, and turns are only removed whole,
+ * so that tool results always follow the calls they belong to.
+ */
+export function compactMessages(
+  messages: AssistanceMessage[],
+  level: number
+): AssistanceMessage[] {
+  const [systemPrompt, ...rest] = messages as Message[];
+  const isNotice = (m: Message) => m.content === OMITTED_MESSAGES_NOTICE;
+  const turns = splitIntoTurns(rest.filter((m) => !isNotice(m)));
+  const currentTurn = turns.pop() ?? [];
+  const keptTurns =
+    level >= 3 ? [] : level >= 2 ? turns.slice(-(RECENT_TURNS - 1)) : turns;
+  const omitted = rest.some(isNotice) || keptTurns.length < turns.length;
+  return [
+    systemPrompt,
+    ...(omitted ? [{ role: "system", content: OMITTED_MESSAGES_NOTICE }] : []),
+    ...keptTurns.flat().map(truncateMessage),
+    ...currentTurn,
+  ] as AssistanceMessage[];
+}
+
+function splitIntoTurns(messages: Message[]): Message[][] {
+  const turns: Message[][] = [];
+  for (const message of messages) {
+    if (message.role === "user" || turns.length === 0) {
+      turns.push([]);
+    }
+    turns[turns.length - 1].push(message);
+  }
+  return turns;
+}
+
+function truncateMessage(message: Message): Message {
+  if (message.role === "tool") {
+    return { ...message, content: truncate(message.content ?? "") };
+  } else if (message.tool_calls) {
+    return {
+      ...message,
+      tool_calls: message.tool_calls.map((call) => ({
+        ...call,
+        function: {
+          ...call.function,
+          // Arguments must stay valid JSON, so they can't be cut short.
+          arguments:
+            call.function.arguments.length > MAX_OLD_CONTENT_LENGTH
+              ? "{}"
+              : call.function.arguments,
+        },
+      })),
+    };
+  } else {
+    return message;
+  }
+}
+
+function truncate(content: string) {
+  if (content.length <= MAX_OLD_CONTENT_LENGTH) {
+    return content;
+  }
+
+  return (
+    content.slice(0, MAX_OLD_CONTENT_LENGTH) +
+    `... [${content.length - MAX_OLD_CONTENT_LENGTH} more characters removed]`
+  );
+}
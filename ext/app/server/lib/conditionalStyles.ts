@@ -0,0 +1,252 @@
+import { UserAction } from "app/common/DocActions";
+import { safeJsonParse } from "app/common/gutil";
+import { GristObjCode } from "app/plugin/GristData";
+import { getDocDataOrThrow } from "app/server/lib/ActiveDocUtils";
+import { AssistanceDoc } from "app/server/lib/IAssistant";
+import { ConditionalStyle } from "app/server/lib/OpenAIToolTypes";
+
+/**
+ * A conditional style rule, as described to the model. `index` is the
+ * rule's position in the list of rules; later rules take precedence.
+ */
+export interface ConditionalStyleRule {
+  index: number;
+  condition: string;
+  style: ConditionalStyle;
+}
+
+/**
+ * Which rules to use: those of a column if `colId` is set, or else the row
+ * rules of the widget `sectionId`, or of the table's raw view section if
+ * `sectionId` is null.
+ */
+export interface RuleTarget {
+  tableId: string;
+  colId: string | null;
+  sectionId: number | null;
+}
+
+/**
+ * What conditional style rules belong to: a column, or for row rules, a view
+ * section. Rules are helper formula columns listed in the owner's `rules`,
+ * with styles at the same positions in the `rulesOptions` of the owner's
+ * options.
+ */
+interface RuleOwner {
+  tableId: string;
+  metaTableId: "_grist_Tables_column" | "_grist_Views_section";
+  rowId: number;
+  optionsField: "widgetOptions" | "options";
+  options: { rulesOptions?: ConditionalStyle[]; [key: string]: unknown };
+  ruleRefs: number[];
+}
+
+/**
+ * Returns the conditional style rules of a column, or of the rows of a widget
+ * or table.
+ */
+export function getConditionalStyleRules(
+  doc: AssistanceDoc,
+  target: RuleTarget
+): ConditionalStyleRule[] {
+  const owner = getRuleOwner(doc, target);
+  const columns = getDocDataOrThrow(doc).getMetaTable("_grist_Tables_column");
+  return owner.ruleRefs.map((ref, index) => ({
+    index,
+    condition: columns.getValue(ref, "formula") ?? "",
+    style: owner.options.rulesOptions?.[index] ?? {},
+  }));
+}
+
+/**
+ * Returns the action that adds the hidden helper column of a new rule, like
+ * the "AddEmptyRule" action does. Unlike that action, which only adds row
+ * rules to raw view sections, the column isn't listed in the owner's rules
+ * until `buildAddRuleActions` is applied with its ref.
+ */
+export function buildAddRuleColumnAction(
+  doc: AssistanceDoc,
+  target: RuleTarget
+): UserAction {
+  const owner = getRuleOwner(doc, target);
+  return [
+    "AddHiddenColumn",
+    target.tableId,
+    owner.metaTableId === "_grist_Tables_column"
+      ? "gristHelper_ConditionalRule"
+      : "gristHelper_RowConditionalRule",
+    { type: "Any", isFormula: true, formula: "" },
+  ];
+}
+
+/**
+ * Returns actions that set the condition of the helper column `ruleRef`,
+ * from `buildAddRuleColumnAction`, and add it with its style at the end of
+ * the owner's rules.
+ */
+export function buildAddRuleActions(
+  doc: AssistanceDoc,
+  target: RuleTarget,
+  ruleRef: number,
+  rule: { condition: string; style: ConditionalStyle }
+): UserAction[] {
+  const owner = getRuleOwner(doc, target);
+  const ruleColId = getDocDataOrThrow(doc)
+    .getMetaTable("_grist_Tables_column")
+    .getValue(ruleRef, "colId");
+  if (!ruleColId) {
+    throw new Error("The new rule could not be found");
+  }
+
+  return [
+    ["ModifyColumn", target.tableId, ruleColId, { formula: rule.condition }],
+    buildUpdateOwnerAction(
+      owner,
+      [...owner.ruleRefs, ruleRef],
+      [...getRulesOptions(owner), rule.style]
+    ),
+  ];
+}
+
+/**
+ * Returns actions that reorder rules. `order` lists the current index of
+ * each rule, in the new order.
+ */
+export function buildReorderRulesActions(
+  doc: AssistanceDoc,
+  target: RuleTarget,
+  order: number[]
+): UserAction[] {
+  const owner = getRuleOwner(doc, target);
+  const count = owner.ruleRefs.length;
+  if (
+    order.length !== count ||
+    new Set(order).size !== count ||
+    order.some((index) => !Number.isInteger(index) || index < 0 || index >= count)
+  ) {
+    throw new Error(
+      `Rule order must list each index from 0 to ${count - 1} exactly once`
+    );
+  }
+
+  const rulesOptions = getRulesOptions(owner);
+  return [
+    buildUpdateOwnerAction(
+      owner,
+      order.map((index) => owner.ruleRefs[index]),
+      order.map((index) => rulesOptions[index])
+    ),
+  ];
+}
+
+export function buildRemoveRuleActions(
+  doc: AssistanceDoc,
+  target: RuleTarget,
+  index: number
+): UserAction[] {
+  const owner = getRuleOwner(doc, target);
+  const ruleRef = owner.ruleRefs[index];
+  if (ruleRef === undefined) {
+    throw new Error(`Rule ${index} not found`);
+  }
+
+  const ruleColId = getDocDataOrThrow(doc)
+    .getMetaTable("_grist_Tables_column")
+    .getValue(ruleRef, "colId");
+  const rulesOptions = getRulesOptions(owner);
+  return [
+    buildUpdateOwnerAction(
+      owner,
+      owner.ruleRefs.filter((_, i) => i !== index),
+      rulesOptions.filter((_, i) => i !== index)
+    ),
+    ["RemoveColumn", target.tableId, ruleColId],
+  ];
+}
+
+function getRuleOwner(doc: AssistanceDoc, target: RuleTarget): RuleOwner {
+  const { tableId, colId, sectionId } = target;
+  const docData = getDocDataOrThrow(doc);
+  const tableRef = docData
+    .getMetaTable("_grist_Tables")
+    .findRow("tableId", tableId);
+  if (tableRef === 0) {
+    throw new Error(`Table ${tableId} not found`);
+  }
+
+  if (colId !== null) {
+    if (sectionId !== null) {
+      throw new Error("Only row rules belong to a widget");
+    }
+
+    const columns = docData.getMetaTable("_grist_Tables_column");
+    const [column] = columns.filterRecords({ parentId: tableRef, colId });
+    if (!column) {
+      throw new Error(`Column ${colId} not found`);
+    }
+
+    return {
+      tableId,
+      metaTableId: "_grist_Tables_column",
+      rowId: column.id,
+      optionsField: "widgetOptions",
+      options: safeJsonParse(column.widgetOptions, {}),
+      ruleRefs: decodeRefList(column.rules),
+    };
+  } else {
+    const sectionRef =
+      sectionId ??
+      docData
+        .getMetaTable("_grist_Tables")
+        .getValue(tableRef, "rawViewSectionRef");
+    const section = sectionRef
+      ? docData.getMetaTable("_grist_Views_section").getRecord(sectionRef)
+      : undefined;
+    if (!section) {
+      throw new Error(
+        sectionId === null
+          ? `Table ${tableId} has no raw view section`
+          : `Widget ${sectionId} not found`
+      );
+    }
+    if (section.tableRef !== tableRef) {
+      throw new Error(`Widget ${sectionId} doesn't show table ${tableId}`);
+    }
+
+    return {
+      tableId,
+      metaTableId: "_grist_Views_section",
+      rowId: section.id,
+      optionsField: "options",
+      options: safeJsonParse(section.options, {}),
+      ruleRefs: decodeRefList(section.rules),
+    };
+  }
+}
+
+// Styles may be missing for rules whose style was never set.
+function getRulesOptions(owner: RuleOwner): ConditionalStyle[] {
+  return owner.ruleRefs.map((_, i) => owner.options.rulesOptions?.[i] ?? {});
+}
+
+function buildUpdateOwnerAction(
+  owner: RuleOwner,
+  ruleRefs: number[],
+  rulesOptions: ConditionalStyle[]
+): UserAction {
+  return [
+    "UpdateRecord",
+    owner.metaTableId,
+    owner.rowId,
+    {
+      rules: [GristObjCode.List, ...ruleRefs],
+      [owner.optionsField]: JSON.stringify({ ...owner.options, rulesOptions }),
+    },
+  ];
+}
+
+function decodeRefList(value: unknown): number[] {
+  return Array.isArray(value) && value[0] === GristObjCode.List
+    ? (value.slice(1) as number[])
+    : [];
+}
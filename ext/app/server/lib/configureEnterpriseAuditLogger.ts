@@ -1,8 +1,25 @@
+import { AuditLogChains } from "app/gen-server/lib/AuditLogChains";
+import { AuditLogStore } from "app/gen-server/lib/AuditLogStore";
 import { HomeDBManager } from "app/gen-server/lib/homedb/HomeDBManager";
+import { appSettings } from "app/server/lib/AppSettings";
+import { readAuditLogBatchingDefaults } from "app/server/lib/AuditEventBatcher";
+import { readAuditLogSigningKey } from "app/server/lib/AuditEventChain";
 import {
+  DatadogEventFormatter,
+  ElasticsearchEventFormatter,
   GenericEventFormatter,
   HECEventFormatter,
+  OTLPEventFormatter,
+  SyslogEventFormatter,
 } from "app/server/lib/AuditEventFormatter";
+import { createAuditEventQueue } from "app/server/lib/AuditEventQueue";
+import {
+  HttpTransport,
+  SyslogTransport,
+} from "app/server/lib/AuditEventTransport";
+import {
+  readInstallAuditLogDestinations,
+} from "app/server/lib/AuditLogDestination";
 import { AuditLogger } from "app/server/lib/AuditLogger";
 import { GristServer } from "app/server/lib/GristServer";
 
@@ -10,8 +27,29 @@ export function configureEnterpriseAuditLogger(
   dbManager: HomeDBManager,
   gristServer: GristServer
 ) {
+  const localStore = appSettings
+    .section("auditLogger")
+    .flag("localStore")
+    .readBool({
+      envVar: "GRIST_AUDIT_LOG_LOCAL_STORE",
+      defaultValue: false,
+    });
   return new AuditLogger(dbManager, {
-    formatters: [new HECEventFormatter(), new GenericEventFormatter()],
+    formatters: [
+      new HECEventFormatter(),
+      new GenericEventFormatter(),
+      new SyslogEventFormatter(),
+      new ElasticsearchEventFormatter(),
+      new DatadogEventFormatter(),
+      new OTLPEventFormatter(),
+    ],
+    transports: [new HttpTransport(), new SyslogTransport()],
+    queue: createAuditEventQueue(gristServer),
+    installDestinations: readInstallAuditLogDestinations(),
+    batchingDefaults: readAuditLogBatchingDefaults(),
+    store: localStore ? new AuditLogStore(dbManager) : undefined,
+    chainStore: new AuditLogChains(dbManager),
+    signingKey: readAuditLogSigningKey(),
     allowDestination() {
       return !gristServer.isRestrictedMode();
     },
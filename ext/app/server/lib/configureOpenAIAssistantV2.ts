@@ -1,4 +1,6 @@
+import { appSettings } from "app/server/lib/AppSettings";
 import { getAssistantV2Options } from "app/server/lib/Assistant";
+import { isAssistantProviderName } from "app/server/lib/AssistantProviders";
 import { GristServer } from "app/server/lib/GristServer";
 import { AssistantV2 } from "app/server/lib/IAssistant";
 import {
@@ -15,6 +17,51 @@ export function configureOpenAIAssistantV2(
   } else if (options.apiKey === "test") {
     return new EchoAssistantV2();
   } else {
-    return new OpenAIAssistantV2(gristServer, options);
+    const streaming = appSettings
+      .section("assistant")
+      .flag("streaming")
+      .readBool({
+        envVar: "ASSISTANT_STREAMING",
+        defaultValue: false,
+      });
+    const previewChanges = appSettings
+      .section("assistant")
+      .flag("previewChanges")
+      .readBool({
+        envVar: "ASSISTANT_PREVIEW_CHANGES",
+        defaultValue: false,
+      });
+    const dailyTokens = appSettings
+      .section("assistant")
+      .flag("dailyTokenLimit")
+      .readInt({
+        envVar: "ASSISTANT_DAILY_TOKEN_LIMIT",
+        minValue: 0,
+      });
+    const monthlyTokens = appSettings
+      .section("assistant")
+      .flag("monthlyTokenLimit")
+      .readInt({
+        envVar: "ASSISTANT_MONTHLY_TOKEN_LIMIT",
+        minValue: 0,
+      });
+    const provider = appSettings
+      .section("assistant")
+      .flag("provider")
+      .readString({
+        envVar: "ASSISTANT_PROVIDER",
+        defaultValue: "openai",
+      })!;
+    if (!isAssistantProviderName(provider)) {
+      throw new Error(`Unsupported ASSISTANT_PROVIDER: ${provider}`);
+    }
+
+    return new OpenAIAssistantV2(gristServer, {
+      ...options,
+      provider,
+      streaming,
+      previewChanges,
+      usageLimits: { dailyTokens, monthlyTokens },
+    });
   }
 }
@@ -0,0 +1,412 @@
+import { ApplyUAOptions, ApplyUAResult } from "app/common/ActiveDocAPI";
+import { BulkColValues, CellValue, UserAction } from "app/common/DocActions";
+import { extractTypeFromColType } from "app/common/gristTypes";
+import { guessColInfoWithDocData } from "app/common/ValueGuesser";
+import { createParser } from "app/common/ValueParser";
+import { getDocDataOrThrow } from "app/server/lib/ActiveDocUtils";
+import {
+  parseDelimitedText,
+  readAttachmentRows,
+  SheetCellValue,
+} from "app/server/lib/attachmentContent";
+import { OptDocSession } from "app/server/lib/DocSession";
+import { AssistanceDoc } from "app/server/lib/IAssistant";
+import { ImportDataSource } from "app/server/lib/OpenAIToolTypes";
+import { chunk } from "lodash";
+
+// The most rows that can be imported at once, and the most added by each
+// BulkAddRecord action.
+const MAX_IMPORT_ROWS = 10_000;
+const BATCH_SIZE = 500;
+
+// Examples of skipped and coerced values included in each column summary.
+const MAX_EXAMPLES = 3;
+
+// Types whose values are stored as text if they can't be parsed. Values of
+// other types are either kept as text, or converted by the data engine.
+const PARSED_TYPES = new Set(["Numeric", "Int", "Date", "DateTime"]);
+
+// Types of numbers that may be coerced (see `coerced_count`). Dates are also
+// parsed to numbers, but timestamps never read like the source text.
+const NUMBER_TYPES = new Set(["Numeric", "Int"]);
+
+type ImportValue = string | null;
+
+export interface ImportColumnSummary {
+  header: string;
+  column_id: string;
+  type: string;
+  added: boolean;
+  /**
+   * Numbers written differently in the source, such as "1,234" or "12%".
+   * Examples are identified by their position among imported records.
+   */
+  coerced_count: number;
+  coerced_examples: { record: number; from: string; to: CellValue }[];
+  /** Values that couldn't be parsed, and were stored as text. */
+  invalid_count: number;
+  invalid_examples: { record: number; value: string }[];
+}
+
+export interface ImportSummary {
+  table_id: string;
+  table_added: boolean;
+  added_record_count: number;
+  /** Rows of the source that were empty, and skipped. */
+  skipped_row_count: number;
+  /** Headers of source columns that weren't imported. */
+  skipped_headers: string[];
+  columns: ImportColumnSummary[];
+}
+
+interface ImportColumn {
+  header: string;
+  index: number;
+  colRef?: number;
+  colId?: string;
+}
+
+/**
+ * Imports rows of CSV, TSV or JSON text, or of a CSV, TSV or XLSX attachment,
+ * into a table, and returns a summary of what was imported.
+ *
+ * Source columns are matched to existing columns by `columnMapping`, or else
+ * by ID or label. Unmatched columns are added, with types guessed from their
+ * values the same way as when pasting into new columns, if the table is new or
+ * `addMissingColumns` is set. Values are parsed according to the types of the
+ * columns they're imported into, and added in batches of `BulkAddRecord`
+ * actions, applied together.
+ */
+export async function importData(
+  docSession: OptDocSession,
+  doc: AssistanceDoc,
+  options: {
+    tableId: string;
+    source: ImportDataSource;
+    columnMapping?: { [header: string]: string | null };
+    addMissingColumns: boolean;
+  },
+  applyUAOptions: ApplyUAOptions,
+  appliedActions: ApplyUAResult[]
+): Promise<ImportSummary> {
+  const { source, columnMapping = {}, addMissingColumns } = options;
+  const { headers, rows, skippedRowCount } = await readSource(
+    docSession,
+    doc,
+    source
+  );
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(
+      `Too many rows to import (${rows.length}); the limit is ${MAX_IMPORT_ROWS}`
+    );
+  }
+
+  const docData = getDocDataOrThrow(doc);
+  const tableRef = docData
+    .getMetaTable("_grist_Tables")
+    .findRow("tableId", options.tableId);
+  const tableAdded = tableRef === 0;
+  const columns: ImportColumn[] = headers.map((header, index) => ({
+    header,
+    index,
+    ...(tableAdded ? {} : matchColumn(doc, tableRef, header, columnMapping)),
+  }));
+  const newColumns: ImportColumn[] = [];
+  const skippedHeaders: string[] = [];
+  for (const column of columns) {
+    const mapped = columnMapping[column.header];
+    if (column.colRef !== undefined) {
+      continue;
+    } else if (mapped === null) {
+      skippedHeaders.push(column.header);
+    } else if (tableAdded || addMissingColumns) {
+      newColumns.push(column);
+    } else if (mapped !== undefined) {
+      throw new Error(`Column ${mapped} not found`);
+    } else {
+      skippedHeaders.push(column.header);
+    }
+  }
+
+  // Types of new columns are guessed from their values.
+  const newColInfos = newColumns.map((c) => {
+    const { colInfo } = guessColInfoWithDocData(
+      rows.map((row) => row[c.index]),
+      docData
+    );
+    return {
+      type: colInfo.type,
+      widgetOptions: JSON.stringify(colInfo.widgetOptions ?? {}),
+      isFormula: false,
+    };
+  });
+  let tableId = options.tableId;
+  if (tableAdded) {
+    const result = await doc.applyUserActions(
+      docSession,
+      [
+        [
+          "AddTable",
+          tableId,
+          newColumns.map((c, i) => ({
+            id: columnMapping[c.header] ?? c.header,
+            ...newColInfos[i],
+          })),
+        ],
+      ],
+      applyUAOptions
+    );
+    appliedActions.push(result);
+    tableId = result.retValues[0].table_id;
+    // Columns may have been given different IDs, but are in the same order.
+    const addedColumns = getImportableColumns(
+      doc,
+      docData.getMetaTable("_grist_Tables").findRow("tableId", tableId)
+    );
+    newColumns.forEach((c, i) => setColumn(c, addedColumns[i]));
+  } else if (newColumns.length > 0) {
+    const result = await doc.applyUserActions(
+      docSession,
+      newColumns.map(
+        (c, i): UserAction => [
+          "AddVisibleColumn",
+          tableId,
+          columnMapping[c.header] ?? c.header,
+          newColInfos[i],
+        ]
+      ),
+      applyUAOptions
+    );
+    appliedActions.push(result);
+    const addedColumns = getImportableColumns(doc, tableRef);
+    newColumns.forEach((c, i) =>
+      setColumn(
+        c,
+        addedColumns.find((col) => col.colId === result.retValues[i].colId)
+      )
+    );
+  }
+
+  const importedColumns = columns.filter(
+    (c): c is Required<ImportColumn> => c.colRef !== undefined
+  );
+  const colValues: BulkColValues = {};
+  const summaries = importedColumns.map((column) => {
+    const { values, summary } = parseColumn(
+      doc,
+      column,
+      rows.map((row) => row[column.index])
+    );
+    colValues[column.colId] = values;
+    return { ...summary, added: newColumns.includes(column) };
+  });
+
+  if (rows.length > 0) {
+    appliedActions.push(
+      await doc.applyUserActions(
+        docSession,
+        chunk(
+          rows.map((_, i) => i),
+          BATCH_SIZE
+        ).map((indexes): UserAction => [
+          "BulkAddRecord",
+          tableId,
+          indexes.map(() => null),
+          Object.fromEntries(
+            Object.entries(colValues).map(([colId, values]) => [
+              colId,
+              indexes.map((i) => values[i]),
+            ])
+          ),
+        ]),
+        applyUAOptions
+      )
+    );
+  }
+
+  return {
+    table_id: tableId,
+    table_added: tableAdded,
+    added_record_count: rows.length,
+    skipped_row_count: skippedRowCount,
+    skipped_headers: skippedHeaders,
+    columns: summaries,
+  };
+}
+
+/**
+ * Reads the header and rows of the source, as text. Empty rows are skipped.
+ */
+async function readSource(
+  docSession: OptDocSession,
+  doc: AssistanceDoc,
+  source: ImportDataSource
+): Promise<{ headers: string[]; rows: ImportValue[][]; skippedRowCount: number }> {
+  let sourceRows: SheetCellValue[][];
+  if ("attachment_id" in source) {
+    sourceRows = await readAttachmentRows(docSession, doc, {
+      attachmentId: source.attachment_id,
+      sheetName: source.sheet_name ?? undefined,
+    });
+  } else if (source.format === "json") {
+    sourceRows = parseJsonRecords(source.text);
+  } else {
+    sourceRows = await parseDelimitedText(source.text, source.format);
+  }
+
+  const [headerRow = [], ...dataRows] = sourceRows;
+  const headers = headerRow.map((value, i) =>
+    value === null || value === "" ? `Column${i + 1}` : String(value)
+  );
+  if (headers.length === 0) {
+    throw new Error("No columns found to import");
+  }
+
+  const rows = dataRows
+    .map((row) => headers.map((_, i) => toImportValue(row[i])))
+    .filter((row) => row.some((value) => value !== null));
+  return { headers, rows, skippedRowCount: dataRows.length - rows.length };
+}
+
+/**
+ * Parses a JSON array of records into rows, with a header row listing the
+ * keys of all records, in the order they first appear.
+ */
+function parseJsonRecords(text: string): SheetCellValue[][] {
+  const records = JSON.parse(text);
+  if (
+    !Array.isArray(records) ||
+    records.some((r) => typeof r !== "object" || r === null || Array.isArray(r))
+  ) {
+    throw new Error("JSON data must be an array of objects");
+  }
+
+  const headers = [...new Set(records.flatMap((r) => Object.keys(r)))];
+  return [
+    headers,
+    ...records.map((record) =>
+      headers.map((header) => {
+        const value = record[header];
+        return value === undefined ||
+          value === null ||
+          typeof value !== "object"
+          ? value ?? null
+          : JSON.stringify(value);
+      })
+    ),
+  ];
+}
+
+function toImportValue(value: SheetCellValue | undefined): ImportValue {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  const text = String(value).trim();
+  return text === "" ? null : text;
+}
+
+/**
+ * Finds the column a source column is imported into, by the mapping given
+ * by the model, or else by ID or label.
+ */
+function matchColumn(
+  doc: AssistanceDoc,
+  tableRef: number,
+  header: string,
+  columnMapping: { [header: string]: string | null }
+): Pick<ImportColumn, "colRef" | "colId"> {
+  const columns = getImportableColumns(doc, tableRef);
+  const mapped = columnMapping[header];
+  let column;
+  if (mapped !== undefined) {
+    if (mapped === null) {
+      return {};
+    }
+
+    column = columns.find((c) => c.colId === mapped);
+  } else {
+    const name = header.toLowerCase();
+    column =
+      columns.find((c) => c.colId.toLowerCase() === name) ??
+      columns.find((c) => c.label.toLowerCase() === name);
+  }
+  if (!column) {
+    return {};
+  }
+
+  if (column.isFormula && column.formula) {
+    throw new Error(
+      `Cannot import ${header} into formula column ${column.colId}`
+    );
+  }
+
+  return { colRef: column.id, colId: column.colId };
+}
+
+// Columns that data can be imported into, in the order they were added.
+function getImportableColumns(doc: AssistanceDoc, tableRef: number) {
+  return getDocDataOrThrow(doc)
+    .getMetaTable("_grist_Tables_column")
+    .filterRecords({ parentId: tableRef })
+    .filter((c) => !c.colId.startsWith("gristHelper_") && c.colId !== "manualSort")
+    .sort((a, b) => a.id - b.id);
+}
+
+function setColumn(
+  column: ImportColumn,
+  record: { id: number; colId: string } | undefined
+) {
+  if (!record) {
+    throw new Error(`Column ${column.header} could not be added`);
+  }
+
+  column.colRef = record.id;
+  column.colId = record.colId;
+}
+
+function parseColumn(
+  doc: AssistanceDoc,
+  column: Required<ImportColumn>,
+  texts: ImportValue[]
+) {
+  const docData = getDocDataOrThrow(doc);
+  const type = extractTypeFromColType(
+    docData.getMetaTable("_grist_Tables_column").getValue(column.colRef, "type")
+  );
+  const summary: Omit<ImportColumnSummary, "added"> = {
+    header: column.header,
+    column_id: column.colId,
+    type,
+    coerced_count: 0,
+    coerced_examples: [],
+    invalid_count: 0,
+    invalid_examples: [],
+  };
+  const parser = createParser(docData, column.colRef);
+  const values = texts.map((text, i): CellValue => {
+    if (text === null) {
+      return null;
+    }
+
+    const value: CellValue = parser.cleanParse(text);
+    const record = i + 1;
+    if (PARSED_TYPES.has(type) && typeof value === "string") {
+      summary.invalid_count += 1;
+      if (summary.invalid_examples.length < MAX_EXAMPLES) {
+        summary.invalid_examples.push({ record, value: text });
+      }
+    } else if (
+      NUMBER_TYPES.has(type) &&
+      typeof value === "number" &&
+      String(value) !== text
+    ) {
+      summary.coerced_count += 1;
+      if (summary.coerced_examples.length < MAX_EXAMPLES) {
+        summary.coerced_examples.push({ record, from: text, to: value });
+      }
+    }
+    return value;
+  });
+  return { values, summary };
+}
@@ -0,0 +1,171 @@
+import moment from "moment-timezone";
+
+/**
+ * A parsed cron expression, with five fields: minute, hour, day of month,
+ * month and day of week. Each field is `*`, a number, a range (`1-5`), a step
+ * (`*\/15`, `0-30/10`), or a comma-separated list of these. Months and days of
+ * the week may also be given by name (`JAN`, `MON`). Sunday is 0 or 7.
+ *
+ * As in cron, if both the day of month and the day of week are restricted, a
+ * day matching either one is a match.
+ */
+export interface ReportSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const MONTH_NAMES = [
+  "jan", "feb", "mar", "apr", "may", "jun",
+  "jul", "aug", "sep", "oct", "nov", "dec",
+];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// Enough steps to find the next run of any valid schedule, including ones
+// that only match on February 29.
+const MAX_SEARCH_STEPS = 100_000;
+
+/**
+ * Parses a cron expression. Throws an error describing the problem if it's
+ * invalid.
+ */
+export function parseSchedule(expression: string): ReportSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Schedule must have 5 fields (minute, hour, day of month, month, ` +
+        `day of week); got ${fields.length}`
+    );
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, "day of week", 0, 7, DAY_NAMES);
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+  return {
+    minutes: parseField(minute, "minute", 0, 59),
+    hours: parseField(hour, "hour", 0, 23),
+    daysOfMonth: parseField(dayOfMonth, "day of month", 1, 31),
+    months: parseField(month, "month", 1, 12, MONTH_NAMES),
+    daysOfWeek,
+    anyDayOfMonth: dayOfMonth.startsWith("*"),
+    anyDayOfWeek: dayOfWeek.startsWith("*"),
+  };
+}
+
+/**
+ * Returns the time, in milliseconds since the epoch, of the first minute
+ * after `afterMs` that matches `schedule` in `timezone`, or null if there is
+ * none (e.g. for "0 0 31 2 *").
+ */
+export function getNextRunTime(
+  schedule: ReportSchedule,
+  timezone: string,
+  afterMs: number
+): number | null {
+  const time = moment
+    .tz(afterMs, timezone)
+    .startOf("minute")
+    .add(1, "minute");
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (!schedule.months.has(time.month() + 1)) {
+      time.add(1, "month").startOf("month");
+    } else if (!matchesDay(schedule, time)) {
+      time.add(1, "day").startOf("day");
+    } else if (!schedule.hours.has(time.hour())) {
+      time.add(1, "hour").startOf("hour");
+    } else if (!schedule.minutes.has(time.minute())) {
+      time.add(1, "minute");
+    } else {
+      return time.valueOf();
+    }
+  }
+  return null;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  return moment.tz.zone(timezone) !== null;
+}
+
+/**
+ * Formats a run time as an ISO 8601 string, in the schedule's timezone.
+ */
+export function formatRunTime(ms: number, timezone: string): string {
+  return moment.tz(ms, timezone).format();
+}
+
+function matchesDay(schedule: ReportSchedule, time: moment.Moment): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(time.date());
+  const dayOfWeek = schedule.daysOfWeek.has(time.day());
+  if (!schedule.anyDayOfMonth && !schedule.anyDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+
+  return dayOfMonth && dayOfWeek;
+}
+
+function parseField(
+  field: string,
+  label: string,
+  min: number,
+  max: number,
+  names: string[] = []
+): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = /^(\*|\w+(?:-\w+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid ${label} in schedule: "${part}"`);
+    }
+
+    const [, range, stepText] = match;
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [first, last] = range.split("-");
+      start = parseValue(first, label, min, max, names);
+      end =
+        last !== undefined ? parseValue(last, label, min, max, names) : start;
+      if (stepText !== undefined && last === undefined) {
+        end = max;
+      }
+    }
+    const step = stepText !== undefined ? parseInt(stepText, 10) : 1;
+    if (step < 1 || start > end) {
+      throw new Error(`Invalid ${label} in schedule: "${part}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+function parseValue(
+  text: string,
+  label: string,
+  min: number,
+  max: number,
+  names: string[]
+): number {
+  const nameIndex = names.indexOf(text.toLowerCase());
+  if (nameIndex !== -1) {
+    // Months are numbered from 1, days of the week from 0.
+    return nameIndex + min;
+  }
+
+  const value = /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+  if (isNaN(value) || value < min || value > max) {
+    throw new Error(
+      `Invalid ${label} in schedule: "${text}" (must be ${min}-${max})`
+    );
+  }
+
+  return value;
+}
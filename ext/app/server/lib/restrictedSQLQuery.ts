@@ -0,0 +1,120 @@
+import { CellValue } from "app/common/DocActions";
+import { GristObjCode } from "app/plugin/GristData";
+import { OptDocSession } from "app/server/lib/DocSession";
+import { AssistanceDoc } from "app/server/lib/IAssistant";
+import { runSQLQuery } from "app/server/lib/runSQLQuery";
+import { quoteIdent, SQLiteDB } from "app/server/lib/SQLiteDB";
+
+// How long a query may run against the copy of the visible data.
+const QUERY_TIMEOUT_MS = 10_000;
+
+type SQLValue = string | number | null;
+
+/**
+ * Runs a SQL SELECT query against a document, like `runSQLQuery`, but for
+ * users without full read access too.
+ *
+ * Users who can read the whole document query it directly. For others, the
+ * tables the query mentions are fetched the same way the client fetches them,
+ * with granular access rules applied, and copied into an in-memory SQLite
+ * database that the query runs against. Rows and columns the user can't see
+ * are missing, tables they can't read don't exist, and censored cells are
+ * NULL.
+ */
+export async function runRestrictedSQLQuery(
+  docSession: OptDocSession,
+  doc: AssistanceDoc,
+  options: { sql: string; args?: (string | number | boolean | null)[] | null }
+): Promise<any[]> {
+  if (await doc.canCopyEverything(docSession)) {
+    return runSQLQuery(docSession, doc, options);
+  }
+
+  const db = await SQLiteDB.openDBRaw(":memory:");
+  try {
+    for (const tableId of getMentionedTableIds(doc, options.sql)) {
+      await copyVisibleTable(docSession, doc, db, tableId);
+    }
+
+    const timeout = setTimeout(() => db.interrupt(), QUERY_TIMEOUT_MS);
+    try {
+      // Wrapping the query ensures it's a single SELECT statement.
+      return await db.all(
+        `WITH __grist_query AS (${options.sql}) SELECT * FROM __grist_query`,
+        ...(options.args ?? [])
+      );
+    } finally {
+      clearTimeout(timeout);
+    }
+  } finally {
+    await db.close();
+  }
+}
+
+// Tables whose IDs appear in the query. Identifiers aren't case-sensitive in
+// SQLite.
+function getMentionedTableIds(doc: AssistanceDoc, sql: string): string[] {
+  const words = new Set(sql.toLowerCase().match(/\w+/g) ?? []);
+  return (doc.docData?.getMetaTable("_grist_Tables").getRecords() ?? [])
+    .map((t) => t.tableId)
+    .filter((tableId) => words.has(tableId.toLowerCase()));
+}
+
+async function copyVisibleTable(
+  docSession: OptDocSession,
+  doc: AssistanceDoc,
+  db: SQLiteDB,
+  tableId: string
+) {
+  let tableData;
+  try {
+    ({ tableData } = await doc.fetchQuery(docSession, { tableId, filters: {} }));
+  } catch (e) {
+    // Tables the user can't read are left out, as if they didn't exist.
+    return;
+  }
+
+  const [, , rowIds, colValues] = tableData;
+  const colIds = Object.keys(colValues).filter((colId) => colId !== "id");
+  await db.exec(
+    `CREATE TABLE ${quoteIdent(tableId)} (id INTEGER PRIMARY KEY` +
+      colIds.map((colId) => `, ${quoteIdent(colId)}`).join("") +
+      ")"
+  );
+  const insert =
+    `INSERT INTO ${quoteIdent(tableId)} VALUES (?` +
+    colIds.map(() => ", ?").join("") +
+    ")";
+  await db.execTransaction(async () => {
+    for (const [i, rowId] of rowIds.entries()) {
+      await db.run(
+        insert,
+        rowId,
+        ...colIds.map((colId) => toSQLValue(colValues[colId][i]))
+      );
+    }
+  });
+}
+
+/**
+ * Converts a cell value to the form Grist stores it in: booleans as 0 or 1,
+ * and lists as JSON arrays. Censored cells and errors become NULL.
+ */
+function toSQLValue(value: CellValue): SQLValue {
+  if (typeof value === "boolean") {
+    return value ? 1 : 0;
+  } else if (!Array.isArray(value)) {
+    return value;
+  } else if (value[0] === GristObjCode.List) {
+    return JSON.stringify(value.slice(1));
+  } else if (
+    value[0] === GristObjCode.Censored ||
+    value[0] === GristObjCode.Exception ||
+    value[0] === GristObjCode.Pending ||
+    value[0] === GristObjCode.Skip
+  ) {
+    return null;
+  } else {
+    return JSON.stringify(value);
+  }
+}
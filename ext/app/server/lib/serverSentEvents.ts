@@ -0,0 +1,59 @@
+import * as express from "express";
+import { StringDecoder } from "string_decoder";
+
+/**
+ * Starts a `text/event-stream` response. Events are then written with
+ * `sendServerSentEvent`, and the response closed with `res.end()`.
+ */
+export function startServerSentEvents(res: express.Response) {
+  res.status(200);
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    // Disables response buffering in nginx, which would otherwise hold
+    // events back until the stream ends.
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+}
+
+export function sendServerSentEvent(res: express.Response, data: unknown) {
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Yields the data of each event in a server-sent event stream, such as the
+ * body of a streamed chat completion. Multi-line data is joined with newlines.
+ */
+export async function* readServerSentEvents(
+  body: NodeJS.ReadableStream
+): AsyncGenerator<string> {
+  const decoder = new StringDecoder("utf8");
+  let buffer = "";
+  for await (const chunk of body) {
+    buffer += typeof chunk === "string" ? chunk : decoder.write(chunk);
+    // Events are separated by blank lines, which may use either line ending.
+    buffer = buffer.replace(/\r\n/g, "\n");
+    let end: number;
+    while ((end = buffer.indexOf("\n\n")) !== -1) {
+      const data = getEventData(buffer.slice(0, end));
+      buffer = buffer.slice(end + 2);
+      if (data !== null) {
+        yield data;
+      }
+    }
+  }
+  const data = getEventData(buffer);
+  if (data !== null) {
+    yield data;
+  }
+}
+
+function getEventData(text: string): string | null {
+  const lines = text
+    .split("\n")
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).trimStart());
+  return lines.length > 0 ? lines.join("\n") : null;
+}
@@ -0,0 +1,219 @@
+import { ApiError } from "app/common/ApiError";
+import { DocData } from "app/common/DocData";
+import { parseUrlId } from "app/common/gristUrls";
+import { Role } from "app/common/roles";
+import { FullUser } from "app/common/UserAPI";
+import { HomeDBManager } from "app/gen-server/lib/homedb/HomeDBManager";
+import { DocAuthResult } from "app/gen-server/lib/homedb/Interfaces";
+import { assertAccess, Authorizer } from "app/server/lib/Authorizer";
+import {
+  getDocSessionUser,
+  makeOptDocSession,
+  OptDocSession,
+} from "app/server/lib/DocSession";
+import { GristServer } from "app/server/lib/GristServer";
+import { AssistanceDoc } from "app/server/lib/IAssistant";
+
+export interface WorkspaceDocument {
+  id: string;
+  name: string;
+  updated_at: string;
+  access: Role | null;
+  is_current: boolean;
+}
+
+/**
+ * Lists the documents in the same workspace as `doc` that the user of
+ * `docSession` can access.
+ */
+export async function listWorkspaceDocuments(
+  gristServer: GristServer,
+  docSession: OptDocSession,
+  doc: AssistanceDoc
+): Promise<WorkspaceDocument[]> {
+  const homeDb = gristServer.getHomeDBManager();
+  const userId = getUserIdOrThrow(docSession);
+  const workspaceId = await getWorkspaceId(homeDb, doc.docName);
+  const workspace = homeDb.unwrapQueryResult(
+    await homeDb.getWorkspace({ userId }, workspaceId)
+  );
+  return workspace.docs.map((d) => ({
+    id: d.id,
+    name: d.name,
+    updated_at: d.updatedAt.toISOString(),
+    access: d.access,
+    is_current: d.id === parseUrlId(doc.docName).trunkId,
+  }));
+}
+
+/**
+ * Opens another document in the same workspace as `doc`, for reading by the
+ * user of `docSession`, and returns it with a session for that user.
+ *
+ * Sessions are tied to the document they were made for, so the new session
+ * carries the user's access to the other document, as looked up in the home
+ * DB. Its granular access rules apply to anything read through the session.
+ */
+export async function openWorkspaceDocument(
+  gristServer: GristServer,
+  docSession: OptDocSession,
+  doc: AssistanceDoc,
+  otherDocId: string
+): Promise<{ docSession: OptDocSession; doc: AssistanceDoc }> {
+  return openDocumentForUser(
+    gristServer,
+    getUserIdOrThrow(docSession),
+    otherDocId,
+    {
+      workspaceId: await getWorkspaceId(
+        gristServer.getHomeDBManager(),
+        doc.docName
+      ),
+    }
+  );
+}
+
+/**
+ * Opens a document for reading by a user, outside of any request by them,
+ * and returns it with a session for that user. Fails unless the user can view
+ * the document, and, if `workspaceId` is set, unless the document is in that
+ * workspace.
+ *
+ * When there are several doc workers, a document may only be opened by the
+ * one it's assigned to. Unless `assignedHere` is set, e.g. in a request that
+ * was forwarded to this server for the document, this fails if the document
+ * isn't already open here.
+ */
+export async function openDocumentForUser(
+  gristServer: GristServer,
+  userId: number,
+  docId: string,
+  options: { workspaceId?: number; assignedHere?: boolean } = {}
+): Promise<{ docSession: OptDocSession; doc: AssistanceDoc }> {
+  const homeDb = gristServer.getHomeDBManager();
+  const docAuth = await homeDb.getDocAuthCached({ urlId: docId, userId });
+  assertAccess("viewers", docAuth);
+
+  const resolvedDocId = docAuth.docId!;
+  if (
+    options.workspaceId !== undefined &&
+    (await getWorkspaceId(homeDb, resolvedDocId)) !== options.workspaceId
+  ) {
+    throw new ApiError(`Document ${docId} is not in this workspace`, 403);
+  }
+
+  const user = await homeDb.getUser(userId);
+  if (!user) {
+    throw new ApiError(`User ${userId} not found`, 404);
+  }
+
+  const docManager = gristServer.getDocManager();
+  if (
+    !options.assignedHere &&
+    hasSeveralDocWorkers() &&
+    !(await docManager.getActiveDoc(resolvedDocId))
+  ) {
+    throw new ApiError(
+      `Document ${docId} isn't open on this server, so it can't be read here`,
+      409
+    );
+  }
+
+  const docSession = makeOptDocSession(null);
+  docSession.authorizer = new UserAuthorizer(
+    homeDb.makeFullUser(user),
+    docAuth
+  );
+  const doc = await docManager.fetchDoc(docSession, resolvedDocId);
+  return { docSession, doc };
+}
+
+/**
+ * Returns the metadata of a document as the user of `docSession` may see it.
+ * Tables and columns hidden by granular access rules are censored.
+ */
+export async function getVisibleDocData(
+  docSession: OptDocSession,
+  doc: AssistanceDoc
+): Promise<DocData> {
+  const metaTables = await doc.fetchMetaTables(docSession);
+  return new DocData(() => {
+    throw new Error("Only metadata is available");
+  }, metaTables);
+}
+
+/**
+ * Returns a view of `doc` whose metadata is as the user of `docSession` may
+ * see it (see `getVisibleDocData`), or `doc` itself if the user can see all
+ * of it. The metadata is a snapshot: it isn't updated by later changes.
+ */
+export async function getVisibleDoc(
+  docSession: OptDocSession,
+  doc: AssistanceDoc
+): Promise<AssistanceDoc> {
+  if (await doc.canDownload(docSession)) {
+    return doc;
+  }
+
+  const docData = await getVisibleDocData(docSession, doc);
+  return new Proxy(doc, {
+    get(target, prop, receiver) {
+      if (prop === "docData") {
+        return docData;
+      }
+
+      const value = Reflect.get(target, prop, receiver);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
+
+function getUserIdOrThrow(docSession: OptDocSession): number {
+  const userId = getDocSessionUser(docSession)?.id;
+  if (userId === undefined) {
+    throw new Error("Other documents can only be read on behalf of a user");
+  }
+
+  return userId;
+}
+
+// Documents are assigned to doc workers through Redis, as by the doc worker
+// map, only if there may be more than one.
+function hasSeveralDocWorkers() {
+  return Boolean(process.env.REDIS_URL);
+}
+
+// Forks aren't in the home DB, so they are looked up by their trunk's ID.
+async function getWorkspaceId(homeDb: HomeDBManager, docId: string) {
+  const docRecord = await homeDb.getRawDocById(parseUrlId(docId).trunkId);
+  return docRecord.workspace.id;
+}
+
+/**
+ * Authorizes a session with a user's access to a document, as looked up in
+ * the home DB when the session was made. Unlike sessions of clients or
+ * requests, there is no connection to recheck access on.
+ */
+class UserAuthorizer implements Authorizer {
+  constructor(private _user: FullUser, private _docAuth: DocAuthResult) {}
+
+  public getUserId(): number {
+    return this._user.id;
+  }
+
+  public getUser(): FullUser {
+    return this._user;
+  }
+
+  public getLinkParameters() {
+    return {};
+  }
+
+  public getCachedAuth(): DocAuthResult {
+    return this._docAuth;
+  }
+
+  public async assertAccess(): Promise<void> {
+    assertAccess("viewers", this._docAuth);
+  }
+}
@@ -0,0 +1,318 @@
+import { AuditEvent } from "app/server/lib/AuditEvent";
+import {
+  AuditEventFormatter,
+  DatadogEventFormatter,
+  ElasticsearchEventFormatter,
+  GenericEventFormatter,
+  OTLPEventFormatter,
+  SyslogEventFormatter,
+} from "app/server/lib/AuditEventFormatter";
+import {
+  AuditEventTransport,
+  HttpTransport,
+  SyslogTransport,
+} from "app/server/lib/AuditEventTransport";
+import { AuditLogDestination } from "app/server/lib/AuditLogDestination";
+import { assert } from "chai";
+import * as http from "http";
+import * as net from "net";
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe("AuditEventTransport", function () {
+  this.timeout(10_000);
+
+  const events = [makeEvent("1"), makeEvent("2")];
+  const options = {
+    signal: new AbortController().signal,
+    timeoutMs: 5_000,
+  };
+
+  async function send(
+    formatter: AuditEventFormatter,
+    transport: AuditEventTransport,
+    destination: AuditLogDestination
+  ) {
+    await transport.send(
+      destination,
+      formatter.formatBatch(events, destination),
+      options
+    );
+  }
+
+  describe("HttpTransport", function () {
+    let server: http.Server;
+    let url: string;
+    let requests: ReceivedRequest[];
+    let response: { status: number; body: string };
+
+    before(async function () {
+      server = http.createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+          requests.push({ headers: req.headers, body });
+          res.writeHead(response.status, {
+            "Content-Type": "application/json",
+          });
+          res.end(response.body);
+        });
+      });
+      await new Promise<void>((resolve) =>
+        server.listen(0, "127.0.0.1", resolve)
+      );
+      const { port } = server.address() as net.AddressInfo;
+      url = `http://127.0.0.1:${port}`;
+    });
+
+    after(async function () {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(function () {
+      requests = [];
+      response = { status: 200, body: "{}" };
+    });
+
+    it("sends events to Elasticsearch with the bulk API", async function () {
+      response.body = JSON.stringify({ errors: false, items: [] });
+      await send(new ElasticsearchEventFormatter(), new HttpTransport(), {
+        id: "es",
+        name: "elasticsearch",
+        url: `${url}/grist-audit/_bulk`,
+        token: "ApiKey secret",
+      });
+
+      assert.lengthOf(requests, 1);
+      const [{ headers, body }] = requests;
+      assert.equal(headers.authorization, "ApiKey secret");
+      assert.equal(headers["content-type"], "application/x-ndjson");
+      const lines = body.trimEnd().split("\n").map((l) => JSON.parse(l));
+      assert.deepEqual(lines[0], { create: { _id: "1" } });
+      assert.equal(lines[1]["@timestamp"], events[0].timestamp);
+      assert.deepEqual(lines[2], { create: { _id: "2" } });
+      assert.lengthOf(lines, 4);
+    });
+
+    it("fails if Elasticsearch rejects any events", async function () {
+      const destination: AuditLogDestination = {
+        id: "es",
+        name: "elasticsearch",
+        url: `${url}/grist-audit/_bulk`,
+      };
+      const formatter = new ElasticsearchEventFormatter();
+      const transport = new HttpTransport();
+
+      // Conflicts are from events sent before, so they aren't failures.
+      response.body = JSON.stringify({
+        errors: true,
+        items: [
+          { create: { status: 201 } },
+          {
+            create: {
+              status: 409,
+              error: {
+                type: "version_conflict_engine_exception",
+                reason: "document already exists",
+              },
+            },
+          },
+        ],
+      });
+      await send(formatter, transport, destination);
+
+      response.body = JSON.stringify({
+        errors: true,
+        items: [
+          { create: { status: 201 } },
+          {
+            create: {
+              status: 400,
+              error: {
+                type: "mapper_parsing_exception",
+                reason: "bad field",
+              },
+            },
+          },
+        ],
+      });
+      await assert.isRejected(
+        send(formatter, transport, destination),
+        /1 events were rejected: mapper_parsing_exception bad field/
+      );
+
+      response.body = "<html>Bad gateway</html>";
+      await assert.isRejected(
+        send(formatter, transport, destination),
+        /response from the Elasticsearch bulk API that isn't JSON/
+      );
+    });
+
+    it("sends events to Datadog with its API key", async function () {
+      await send(new DatadogEventFormatter(), new HttpTransport(), {
+        id: "datadog",
+        name: "datadog",
+        url: `${url}/api/v2/logs`,
+        token: "secret",
+      });
+
+      assert.lengthOf(requests, 1);
+      const [{ headers, body }] = requests;
+      assert.equal(headers["dd-api-key"], "secret");
+      assert.isUndefined(headers.authorization);
+      const logs = JSON.parse(body);
+      assert.deepEqual(
+        logs.map((l: any) => [l.ddsource, l.message, l.grist.id]),
+        [
+          ["grist", "document.open", "1"],
+          ["grist", "document.open", "2"],
+        ]
+      );
+    });
+
+    it("sends events as OpenTelemetry logs", async function () {
+      await send(new OTLPEventFormatter(), new HttpTransport(), {
+        id: "otlp",
+        name: "otlp",
+        url: `${url}/v1/logs`,
+      });
+
+      assert.lengthOf(requests, 1);
+      const { resourceLogs } = JSON.parse(requests[0].body);
+      const records = resourceLogs[0].scopeLogs[0].logRecords;
+      assert.deepEqual(
+        records.map((r: any) => JSON.parse(r.body.stringValue).id),
+        ["1", "2"]
+      );
+      assert.equal(records[0].severityText, "INFO");
+    });
+
+    it("sends other destinations a JSON array or NDJSON", async function () {
+      const destination: AuditLogDestination = {
+        id: "other",
+        name: "other",
+        url: `${url}/events`,
+      };
+      await send(new GenericEventFormatter(), new HttpTransport(), destination);
+      await send(new GenericEventFormatter(), new HttpTransport(), {
+        ...destination,
+        batchFormat: "ndjson",
+      });
+
+      assert.lengthOf(requests, 2);
+      assert.equal(requests[0].headers["content-type"], "application/json");
+      assert.deepEqual(
+        JSON.parse(requests[0].body).map((e: any) => e.id),
+        ["1", "2"]
+      );
+      assert.equal(
+        requests[1].headers["content-type"],
+        "application/x-ndjson"
+      );
+      assert.deepEqual(
+        requests[1].body
+          .trimEnd()
+          .split("\n")
+          .map((l) => JSON.parse(l).id),
+        ["1", "2"]
+      );
+    });
+
+    it("fails on responses other than 2XX", async function () {
+      response = { status: 503, body: "unavailable" };
+      await assert.isRejected(
+        send(new OTLPEventFormatter(), new HttpTransport(), {
+          id: "otlp",
+          name: "otlp",
+          url: `${url}/v1/logs`,
+        }),
+        /received a non-2XX response from .*: 503 unavailable/
+      );
+    });
+  });
+
+  describe("SyslogTransport", function () {
+    let server: net.Server;
+    let port: number;
+
+    before(async function () {
+      server = net.createServer();
+      await new Promise<void>((resolve) =>
+        server.listen(0, "127.0.0.1", resolve)
+      );
+      port = (server.address() as net.AddressInfo).port;
+    });
+
+    after(async function () {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("sends events as octet-counted syslog messages", async function () {
+      const received = new Promise<string>((resolve) =>
+        server.once("connection", (socket) => {
+          let data = "";
+          socket.on("data", (chunk) => (data += chunk));
+          socket.on("end", () => resolve(data));
+        })
+      );
+      await send(new SyslogEventFormatter(), new SyslogTransport(), {
+        id: "syslog",
+        name: "syslog",
+        url: `tcp://127.0.0.1:${port}`,
+      });
+
+      const messages = parseOctetCounted(await received);
+      assert.lengthOf(messages, 2);
+      assert.match(messages[0], /^<110>1 \S+ \S+ grist \d+ document\.open - /);
+      // The message is the event as JSON, after a byte order mark.
+      assert.deepEqual(
+        messages.map((m) => JSON.parse(m.split("\uFEFF")[1]).id),
+        ["1", "2"]
+      );
+    });
+
+    it("only supports TCP and TLS", async function () {
+      await assert.isRejected(
+        send(new SyslogEventFormatter(), new SyslogTransport(), {
+          id: "syslog",
+          name: "syslog",
+          url: `udp://127.0.0.1:${port}`,
+        }),
+        /unsupported syslog URL/
+      );
+    });
+
+    it("isn't allowed for destinations saved in the home DB", function () {
+      assert.isFalse(new SyslogTransport().allowsUntrustedDestinations);
+      assert.isTrue(new HttpTransport().allowsUntrustedDestinations);
+    });
+  });
+});
+
+function makeEvent(id: string): AuditEvent {
+  return {
+    id,
+    action: "document.open",
+    actor: { type: "unknown" },
+    context: {},
+    timestamp: "2024-01-02T03:04:05.678Z",
+    details: {},
+  } as AuditEvent;
+}
+
+// Splits messages framed by octet counting (RFC 6587), e.g. "5 hello".
+function parseOctetCounted(data: string) {
+  const buffer = Buffer.from(data);
+  const messages: string[] = [];
+  let offset = 0;
+  while (offset < buffer.length) {
+    const space = buffer.indexOf(" ", offset);
+    const length = Number(buffer.toString("utf8", offset, space));
+    messages.push(buffer.toString("utf8", space + 1, space + 1 + length));
+    offset = space + 1 + length;
+  }
+  return messages;
+}